@@ -1,6 +1,7 @@
-import { Interpreter } from "./interpreter/main";
+import { Interpreter, Realm } from "./interpreter/main";
 import * as vm from "./vm";
 import evaluate from "./evaluate";
 import Function from "./Function";
+import { createRequire } from "./require";
 
-export { Interpreter, vm, evaluate, Function };
+export { Interpreter, Realm, vm, evaluate, Function, createRequire };
@@ -1,12 +1,25 @@
-import { parse } from "acorn";
+import { parse, Parser, Options as ParserOptions } from "acorn";
 import {
 	Messages,
 	MessageItem,
+	ThrowError,
+	ThrowSyntaxError,
+	ThrowReferenceError,
+	ThrowTypeError,
+	ThrowRangeError,
 	InterruptThrowError,
 	InterruptThrowReferenceError,
 	InterruptThrowSyntaxError,
 } from "./messages";
-import { Node, ESTree } from "./nodes";
+import {
+	Node,
+	ESTree,
+	ChainExpression,
+	PrivateIdentifier,
+	ClassElement,
+	ExportAllDeclaration,
+} from "./nodes";
+import { Policy } from "../types";
 
 const version = "%VERSION%";
 
@@ -21,18 +34,161 @@ type CaseItem = {
 	bodyClosure: BaseClosure;
 };
 type SwitchCaseClosure = () => CaseItem;
-type ReturnStringClosure = () => string;
-type ECMA_VERSION = 3 | 5 | 6 | 7 | 8 | 9 | 10 | 11 | 2015 | 2016 | 2017 | 2018 | 2019 | 2020;
+type ArrowFunctionNode = ESTree.ArrowFunctionExpression & {
+	start?: number;
+	end?: number;
+	// inferred name: var f = () => {}
+	id?: ESTree.Identifier | null;
+};
+type FunctionNode =
+	| (ESTree.FunctionExpression & { start?: number; end?: number })
+	| (ESTree.FunctionDeclaration & { start?: number; end?: number })
+	| ArrowFunctionNode;
+type FunctionInvoker = (
+	runtimeScope: Scope,
+	context: any,
+	args: any[],
+	func: (...args: any[]) => any,
+	argumentsObject?: IArguments,
+	env?: FunctionEnvironment
+) => any;
+type ClassNode = (ESTree.ClassDeclaration | ESTree.ClassExpression) & {
+	start?: number;
+	end?: number;
+};
+// internal [[Construct]] of class
+type ClassConstruct = (args: any[], newTarget: Function) => any;
+// @types/estree has no rest/spread element in ObjectPattern/ObjectExpression yet
+type ObjectPatternProperty = ESTree.AssignmentProperty | ESTree.RestElement;
+type ObjectExpressionProperty = ESTree.Property | ESTree.SpreadElement;
+// a?.b a?.()
+type OptionalNode = (ESTree.MemberExpression | ESTree.SimpleCallExpression) & {
+	optional?: boolean;
+};
+type ChainReferenceClosure = () => Generator<any, any[], any>;
+// binds a destructured value, data is the target scope data of declarations
+type PatternAssigner = (value: any, data?: ScopeData) => void;
+// [a = yield b] = list, see createPatternGeneratorAssigner
+type PatternGeneratorAssigner = (value: any, data?: ScopeData) => Generator<any, void, any>;
+// placeholder of a sub expression evaluated before its parent, see slotGeneratorHandler
+interface SlotExpression {
+	type: "SlotExpression";
+	index: number;
+	start?: number;
+	end?: number;
+}
+type GeneratorClosure = (pNode?: Node) => Generator<any, any, any>;
+type GeneratorMethod = "next" | "throw" | "return";
+type GeneratorResumer = (method: GeneratorMethod, value: any) => IteratorResult<any>;
+// suspended function body
+interface ExecutionState {
+	scope: Scope;
+	context: Context;
+	callStack: string[];
+}
+// class method or constructor
+interface FunctionEnvironment {
+	func: Function;
+	// super.method()
+	homeObject: any;
+	newTarget: Function | undefined;
+	// derived class constructor: this is bound by super()
+	thisValue: any;
+}
+type ModuleStatus = "unlinked" | "linking" | "linked" | "evaluating" | "evaluated";
+// import { importName as localName } from "specifier"
+interface ModuleImportEntry {
+	specifier: string;
+	// "*" for import * as ns
+	importName: string;
+	localName: string;
+	node: Node;
+}
+interface ModuleRecord {
+	id: string;
+	status: ModuleStatus;
+	// module scope: var/function/let/const/class and imported bindings
+	scope: Scope;
+	// export name -> local binding name
+	localExports: { [name: string]: string };
+	// export { a as b } from "x": export name -> [specifier, import name], export * as ns: import name is "*"
+	indirectExports: { [name: string]: [string, string] };
+	// export * from "x"
+	starExports: string[];
+	importEntries: ModuleImportEntry[];
+	// specifiers in source order
+	requestedModules: string[];
+	loadedModules: { [specifier: string]: ModuleRecord };
+	// hoist declarations into the module scope
+	instantiate: () => void;
+	body: BaseClosure;
+	// synthetic module: export names of the host object
+	exportNames: string[] | null;
+	exports: any;
+	namespace: any;
+	evaluationError: { error: any } | null;
+}
+// exported binding: a name in the module scope, or the exported property of a synthetic module
+interface ModuleBinding {
+	module: ModuleRecord;
+	name: string;
+}
+type ECMA_VERSION =
+	| 3
+	| 5
+	| 6
+	| 7
+	| 8
+	| 9
+	| 10
+	| 11
+	| 12
+	| 13
+	| 2015
+	| 2016
+	| 2017
+	| 2018
+	| 2019
+	| 2020
+	| 2021
+	| 2022
+	| "latest";
 interface Options {
 	ecmaVersion?: ECMA_VERSION;
 	timeout?: number;
+	// the number of evaluated nodes of each execution, the same on every machine, 0 is not limited
+	maxSteps?: number;
 	rootContext?: Context | null;
 	globalContextInFunction?: any;
+	// all code is strict mode code, like "use strict" at the top
+	strict?: boolean;
+	// host Function, eval and the legacy accessors are not reachable from scripts
+	hardened?: boolean;
+	// property access, calls and constructs of scripts are denied if a hook returns false
+	policy?: Policy;
+	// isolated realm: copies of the built-in objects, true creates a new Realm
+	realm?: boolean | Realm;
+	// the built-in objects seen by scripts are frozen copies, see Realm#freeze
+	lockdown?: boolean;
+	// import "specifier" in referrer: returns the id of the module, default: specifier
+	resolveModule?: (specifier: string, referrer: string) => string;
+	// returns the source code of the module
+	loadModule?: (id: string) => string | null | undefined;
 	_initEnv?: (this: Interpreter) => void;
 }
 interface CollectDeclarations {
 	[key: string]: undefined | BaseClosure;
 }
+interface ConstDeclarations {
+	[key: string]: true;
+}
+interface CollectLexicalDeclarations {
+	// let/const/class are uninitialized(undefined), functions in block are closures
+	names: CollectDeclarations;
+	consts: ConstDeclarations;
+	// block-level: function declarations are block scoped (es6+)
+	isBlock: boolean;
+}
 type ScopeData = {
 	[prop: string]: any;
 	[prop: number]: any;
@@ -51,6 +207,20 @@ function defineFunctionName<T>(func: T, name: string) {
 	});
 }
 
+// methods, arrow and async functions are not constructors and have no prototype, like the functions of accessors
+function createFunctionWithoutPrototype(
+	call: (thisValue: any, args: any[], argumentsObject: IArguments) => any
+): (...args: any[]) => any {
+	return Object.getOwnPropertyDescriptor(
+		{
+			get func() {
+				return call(this, Array.prototype.slice.call(arguments), arguments);
+			},
+		},
+		"func"
+	)!.get!;
+}
+
 const hasOwnProperty = Object.prototype.hasOwnProperty;
 const Break = Symbol("Break");
 const Continue = Symbol("Continue");
@@ -60,17 +230,653 @@ const WithScopeName = Symbol("WithScopeName");
 const SuperScopeName = Symbol("SuperScopeName");
 const RootScopeName = Symbol("RootScopeName");
 const GlobalScopeName = Symbol("GlobalScopeName");
+const BlockScopeName = Symbol("BlockScopeName");
+const ModuleScopeName = Symbol("ModuleScopeName");
+// export default expression
+const DefaultExportName = "*default*";
+// export * as ns from "x": the binding is the namespace object of x
+const NamespaceBindingName = "*namespace*";
+// export * from "a"; export * from "b"; both export the same name
+const AmbiguousExport = Symbol("AmbiguousExport");
+// namespace objects of modules, ns.a = 1 throws in strict mode code
+const moduleNamespaces = new WeakSet<object>();
+// a?.b.c(): returned by the rest of the chain when a is null or undefined
+const OptionalChainShortCircuit = Symbol("OptionalChainShortCircuit");
+// temporal dead zone of let/const/class
+const Uninitialized = Symbol("Uninitialized");
+
+// a &&= b, a ||= b, a ??= b: b is not evaluated
+function shortCircuitsAssignment(operator: string, value: any): boolean {
+	return (
+		(operator === "&&=" && !value) ||
+		(operator === "||=" && !!value) ||
+		(operator === "??=" && !isNullish(value))
+	);
+}
+
+// not in lib es6
+declare const BigInt: (value: string | number | boolean) => any;
+
+// acorn has no option for strict scripts: the parser starts in strict mode like modules
+class StrictParser extends Parser {
+	constructor(options: ParserOptions, input: string, startPos?: number) {
+		super(options, input, startPos);
+		((this as unknown) as { strict: boolean }).strict = true;
+	}
+}
+
+// "use strict" in the directive prologue of a program or function body
+function hasUseStrictDirective(body: Node[]): boolean {
+	for (let i = 0; i < body.length; i++) {
+		const directive = (body[i] as { directive?: string }).directive;
+
+		if (typeof directive !== "string") {
+			return false;
+		}
+
+		if (directive === "use strict") {
+			return true;
+		}
+	}
+
+	return false;
+}
+
+// PutValue: a failed assignment throws in strict mode code and is ignored in sloppy mode code
+function putValue(obj: any, name: PropertyKey, value: any, strict: boolean): any {
+	if (strict || isNullish(obj) || typeof Reflect === "undefined") {
+		obj[name] = value;
+	} else {
+		Reflect.set(Object(obj), name, value, obj);
+	}
+
+	return value;
+}
+
+// delete obj[name]: a non-configurable property throws in strict mode code
+function deleteProperty(obj: any, name: PropertyKey, strict: boolean): boolean {
+	if (strict || isNullish(obj) || typeof Reflect === "undefined") {
+		return delete obj[name];
+	}
+
+	return Reflect.deleteProperty(Object(obj), name);
+}
+
+// operators throwing TypeError when a BigInt is mixed with a Number: 1n + 1
+const numericOperators = ["+", "-", "*", "/", "%", "**", "<<", ">>", ">>>", "&", "|", "^"];
+
+// ToNumeric, calls valueOf of objects once
+function toNumeric(value: any): any {
+	return typeof value === "number" || typeof value === "bigint" ? value : -(-value);
+}
+
+function isNullish(value: any): boolean {
+	return value === null || value === undefined;
+}
 
 function isFunction<T>(func: T): boolean {
 	return typeof func === "function";
 }
 
+// arrow functions and methods can not be called with new
+const nonConstructors = new WeakSet<Function>();
+const classConstructs = new WeakMap<Function, ClassConstruct>();
+// called without a receiver, this is undefined instead of globalContextInFunction
+const strictFunctions = new WeakSet<Function>();
+const strictFunctionNodes = new WeakSet<Node>();
+// fields and private methods of instances, see superConstruct
+const classInitializers = new WeakMap<Function, (instance: any) => void>();
+
+// #a of an evaluation of a class, unreachable from the host
+class PrivateName {
+	readonly name: string;
+	kind: "field" | "method" | "accessor" = "field";
+	// field values, or true for objects having the private method or accessor
+	readonly objects = new WeakMap<object, any>();
+	method: Function | undefined = undefined;
+	getter: Function | undefined = undefined;
+	setter: Function | undefined = undefined;
+	constructor(name: string) {
+		this.name = name;
+	}
+}
+
+function createArgumentsObject(args: any[]): IArguments {
+	return function (this: any) {
+		return arguments;
+	}.apply(null, args);
+}
+
+/**
+ * arguments of sloppy mode functions with simple parameters: f(a) { arguments[0] = 1; a === 1 }
+ * indices are aliases of the parameters until they are deleted or redefined as non-writable,
+ * the last one of duplicated parameter names is mapped
+ */
+function createMappedArgumentsObject(
+	args: ArrayLike<any>,
+	names: string[],
+	data: ScopeData,
+	callee: Function
+): IArguments {
+	const target: any = {};
+	// index -> parameter name
+	const map: { [index: string]: string } = Object.create(null);
+	const mappedNames: string[] = [];
+
+	for (let i = 0; i < args.length; i++) {
+		target[i] = args[i];
+	}
+
+	for (let i = names.length - 1; i >= 0; i--) {
+		if (mappedNames.indexOf(names[i]) === -1) {
+			mappedNames.push(names[i]);
+
+			if (i < args.length) {
+				map[i] = names[i];
+			}
+		}
+	}
+
+	Object.defineProperty(target, "length", {
+		value: args.length,
+		writable: true,
+		enumerable: false,
+		configurable: true,
+	});
+	Object.defineProperty(target, "callee", {
+		value: callee,
+		writable: true,
+		enumerable: false,
+		configurable: true,
+	});
+	Object.defineProperty(target, Symbol.iterator, {
+		value: Array.prototype[Symbol.iterator],
+		writable: true,
+		enumerable: false,
+		configurable: true,
+	});
+
+	const isMapped = (key: PropertyKey): key is string => typeof key === "string" && key in map;
+
+	return new Proxy(target, {
+		get(target, key, receiver) {
+			if (isMapped(key)) {
+				return data[map[key]];
+			}
+
+			// Object.prototype.toString.call(arguments) === "[object Arguments]"
+			if (key === Symbol.toStringTag && !hasOwnProperty.call(target, key)) {
+				return "Arguments";
+			}
+
+			return Reflect.get(target, key, receiver);
+		},
+		getOwnPropertyDescriptor(target, key) {
+			const descriptor = Reflect.getOwnPropertyDescriptor(target, key);
+
+			if (descriptor && isMapped(key)) {
+				descriptor.value = data[map[key]];
+			}
+
+			return descriptor;
+		},
+		// arguments[0] = 1 is defined by OrdinarySet too
+		defineProperty(target, key, descriptor) {
+			if (!isMapped(key)) {
+				return Reflect.defineProperty(target, key, descriptor);
+			}
+
+			const name = map[key];
+			const isAccessor = "get" in descriptor || "set" in descriptor;
+			const newDescriptor: PropertyDescriptor = {};
+
+			// Object.freeze(arguments) keeps the current value of the parameter
+			if (!isAccessor && !("value" in descriptor) && descriptor.writable === false) {
+				newDescriptor.value = data[name];
+			}
+
+			for (let k in descriptor) {
+				newDescriptor[k as keyof PropertyDescriptor] =
+					descriptor[k as keyof PropertyDescriptor];
+			}
+
+			if (!Reflect.defineProperty(target, key, newDescriptor)) {
+				return false;
+			}
+
+			if (!isAccessor && "value" in descriptor) {
+				data[name] = descriptor.value;
+			}
+
+			if (isAccessor || descriptor.writable === false) {
+				delete map[key];
+			}
+
+			return true;
+		},
+		deleteProperty(target, key) {
+			const result = Reflect.deleteProperty(target, key);
+
+			if (result && isMapped(key)) {
+				delete map[key];
+			}
+
+			return result;
+		},
+	});
+}
+
+// new Parent(...args), but the prototype of instance is newTarget.prototype
+function reflectConstruct(target: Function, args: any[], newTarget: Function) {
+	const construct = classConstructs.get(target);
+
+	if (construct) {
+		return construct(args, newTarget);
+	}
+
+	return Reflect.construct(target, args, newTarget);
+}
+
+// IteratorClose
+function closeIterator(iterator: Iterator<any>) {
+	if (isFunction(iterator.return)) {
+		iterator.return!();
+	}
+}
+
+function* noopGenerator(): Generator<any, any, any> {}
+
+// %IteratorPrototype%
+const IteratorPrototype = Object.getPrototypeOf(Object.getPrototypeOf([][Symbol.iterator]()));
+// generator objects created by function*
+const generatorResumers = new WeakMap<object, GeneratorResumer>();
+const GeneratorPrototype = Object.create(IteratorPrototype);
+
+(["next", "return", "throw"] as GeneratorMethod[]).forEach(method => {
+	const func = function (this: any, value?: any) {
+		const resume = generatorResumers.get(this);
+
+		if (!resume) {
+			throw new TypeError(`${method} method called on incompatible receiver ${this}`);
+		}
+
+		return resume(method, value);
+	};
+
+	defineFunctionName(func, method);
+
+	Object.defineProperty(GeneratorPrototype, method, {
+		value: func,
+		writable: true,
+		enumerable: false,
+		configurable: true,
+	});
+});
+
+Object.defineProperty(GeneratorPrototype, Symbol.toStringTag, {
+	value: "Generator",
+	configurable: true,
+});
+
+// yield and await are not part of nested functions and classes
+const suspensionCache = new WeakMap<object, boolean>();
+function containsSuspension(node: any): boolean {
+	if (!node || typeof node.type !== "string") {
+		return false;
+	}
+
+	switch (node.type) {
+		case "YieldExpression":
+		case "AwaitExpression":
+			return true;
+		case "FunctionExpression":
+		case "FunctionDeclaration":
+		case "ArrowFunctionExpression":
+			return false;
+		case "ClassExpression":
+		case "ClassDeclaration":
+			// the heritage and computed keys are evaluated by the enclosing function
+			return (
+				containsSuspension(node.superClass) ||
+				node.body.body.some(
+					(element: any) => element.computed && containsSuspension(element.key)
+				)
+			);
+	}
+
+	if (suspensionCache.has(node)) {
+		return suspensionCache.get(node)!;
+	}
+
+	let result = false;
+
+	for (const key in node) {
+		const value = node[key];
+
+		if (Array.isArray(value) ? value.some(containsSuspension) : containsSuspension(value)) {
+			result = true;
+			break;
+		}
+	}
+
+	suspensionCache.set(node, result);
+
+	return result;
+}
+
+// the first yield or await of node, see containsSuspension
+function findSuspension(node: any): Node | null {
+	if (!containsSuspension(node)) {
+		return null;
+	}
+
+	if (node.type === "YieldExpression" || node.type === "AwaitExpression") {
+		return node;
+	}
+
+	for (const key in node) {
+		const value = node[key];
+		const children: any[] = Array.isArray(value) ? value : [value];
+
+		for (let i = 0; i < children.length; i++) {
+			const found = findSuspension(children[i]);
+
+			if (found) {
+				return found;
+			}
+		}
+	}
+
+	return null;
+}
+
+// top-level await of modules: await or for await outside of functions, class computed keys included
+function findTopLevelAwait(node: any): Node | null {
+	if (!node || typeof node.type !== "string") {
+		return null;
+	}
+
+	switch (node.type) {
+		case "AwaitExpression":
+			return node;
+		case "ForOfStatement":
+			if (node.await) {
+				return node;
+			}
+			break;
+		case "FunctionExpression":
+		case "FunctionDeclaration":
+		case "ArrowFunctionExpression":
+			return null;
+	}
+
+	for (const key in node) {
+		const value = node[key];
+		const children: any[] = Array.isArray(value) ? value : [value];
+
+		for (let i = 0; i < children.length; i++) {
+			const found = findTopLevelAwait(children[i]);
+
+			if (found) {
+				return found;
+			}
+		}
+	}
+
+	return null;
+}
+
+// functions bound by Interpreter#bindCall for the policy option
+const policyCalls = new WeakSet<Function>();
+
+// obj.a or obj[a], but not obj.#a
+function isPropertyReference(node: Node): boolean {
+	return node.type === "MemberExpression" && (node.property as Node).type !== "PrivateIdentifier";
+}
+
+type NodePath = Array<string | number>;
+
+// paths of the sub expressions of node in evaluation order, see slotGeneratorHandler
+function getEvaluationPaths(node: Node): NodePath[] {
+	// obj.a or obj[a]
+	const getMemberPaths = (member: ESTree.MemberExpression, prefix: NodePath): NodePath[] => {
+		const paths: NodePath[] = member.object.type === "Super" ? [] : [prefix.concat("object")];
+
+		return member.computed ? paths.concat([prefix.concat("property")]) : paths;
+	};
+	const getListPaths = (
+		list: Array<ESTree.Expression | ESTree.SpreadElement | null>,
+		prefix: NodePath
+	): NodePath[] => {
+		const paths: NodePath[] = [];
+
+		list.forEach((item, i) => {
+			if (item) {
+				paths.push(prefix.concat(item.type === "SpreadElement" ? [i, "argument"] : [i]));
+			}
+		});
+
+		return paths;
+	};
+
+	switch (node.type) {
+		case "ExpressionStatement":
+			return [["expression"]];
+		case "ReturnStatement":
+		case "ThrowStatement":
+			return node.argument ? [["argument"]] : [];
+		case "VariableDeclaration":
+			return node.declarations
+				.map((decl, i): NodePath => (decl.init ? ["declarations", i, "init"] : []))
+				.filter(path => path.length);
+		case "BinaryExpression":
+			// #a in obj
+			return (node.left as Node).type === "PrivateIdentifier"
+				? [["right"]]
+				: [["left"], ["right"]];
+		case "AssignmentExpression":
+			return (node.left.type === "MemberExpression"
+				? getMemberPaths(node.left, ["left"])
+				: []
+			).concat([["right"]]);
+		case "UnaryExpression":
+		case "UpdateExpression":
+			if (node.argument.type === "MemberExpression") {
+				return getMemberPaths(node.argument, ["argument"]);
+			}
+
+			return node.type === "UnaryExpression" ? [["argument"]] : [];
+		case "MemberExpression":
+			return getMemberPaths(node, []);
+		case "CallExpression":
+		case "NewExpression": {
+			const callee = node.callee;
+			// super.method(), the function of the callee is read before the arguments: obj.method(await a)
+			const paths: NodePath[] =
+				callee.type === "MemberExpression" && callee.object.type === "Super"
+					? getMemberPaths(callee, ["callee"])
+					: callee.type === "Super"
+					? []
+					: [["callee"]];
+
+			return paths.concat(getListPaths(node.arguments, ["arguments"]));
+		}
+		case "SequenceExpression":
+			return node.expressions.map((_, i) => ["expressions", i]);
+		case "ArrayExpression":
+			return getListPaths(node.elements, ["elements"]);
+		case "ObjectExpression": {
+			const paths: NodePath[] = [];
+
+			(node.properties as ObjectExpressionProperty[]).forEach((property, i) => {
+				if (property.type === "SpreadElement") {
+					paths.push(["properties", i, "argument"]);
+				} else {
+					if (property.computed) {
+						paths.push(["properties", i, "key"]);
+					}
+					// methods are created with the object
+					if (property.kind === "init" && !property.method) {
+						paths.push(["properties", i, "value"]);
+					}
+				}
+			});
+
+			return paths;
+		}
+		case "TemplateLiteral":
+			return node.expressions.map((_, i) => ["expressions", i]);
+		case "TaggedTemplateExpression":
+			return [["tag"] as NodePath].concat(
+				node.quasi.expressions.map((_, i) => ["quasi", "expressions", i])
+			);
+		case "ClassDeclaration":
+		case "ClassExpression": {
+			// class extends (yield A) { [await key]() {} }
+			const paths: NodePath[] = node.superClass ? [["superClass"]] : [];
+
+			(node.body.body as ClassElement[]).forEach((element, i) => {
+				if (element.type !== "StaticBlock" && element.computed) {
+					paths.push(["body", "body", i, "key"]);
+				}
+			});
+
+			return paths;
+		}
+	}
+
+	return [];
+}
+
+function getNodeByPath(node: Node, path: NodePath): Node {
+	return path.reduce((value: any, key) => value[key], node);
+}
+
+// copy node, the nodes at paths are replaced by SlotExpression
+function replaceNodeByPaths(node: Node, paths: NodePath[]): Node {
+	const copies = new Map<any, any>();
+	const copy = (value: any) => {
+		if (!copies.has(value)) {
+			copies.set(value, Array.isArray(value) ? value.slice() : Object.assign({}, value));
+		}
+
+		return copies.get(value);
+	};
+	const root = copy(node);
+
+	paths.forEach((path, index) => {
+		let source: any = node;
+		let target: any = root;
+
+		for (let i = 0; i < path.length - 1; i++) {
+			source = source[path[i]];
+			target = target[path[i]] = copy(source);
+		}
+
+		const key = path[path.length - 1];
+		const slot: SlotExpression = {
+			type: "SlotExpression",
+			index,
+			start: source[key].start,
+			end: source[key].end,
+		};
+
+		target[key] = slot;
+	});
+
+	return root;
+}
+
+// ToPropertyKey
+function toPropertyKey(key: any): string | symbol {
+	return typeof key === "symbol" ? key : String(key);
+}
+
+// CreateDataProperty, never calls setters: { __proto__: 1 } or inherited setters
+function defineDataProperty(target: any, key: PropertyKey, value: any) {
+	Object.defineProperty(target, key, {
+		value,
+		writable: true,
+		enumerable: true,
+		configurable: true,
+	});
+}
+
+// CopyDataProperties: { ...source } and { ...rest } = source
+function copyDataProperties(
+	target: any,
+	source: any,
+	excludedKeys: PropertyKey[] = [],
+	getValue: (from: any, key: PropertyKey) => any = (from, key) => from[key as string]
+) {
+	if (source === null || source === undefined) {
+		return target;
+	}
+
+	const from = Object(source);
+	const keys: PropertyKey[] = (Object.keys(from) as PropertyKey[]).concat(
+		Object.getOwnPropertySymbols(from).filter(symbol =>
+			Object.prototype.propertyIsEnumerable.call(from, symbol)
+		)
+	);
+
+	keys.forEach(key => {
+		if (excludedKeys.indexOf(key) === -1) {
+			// define, { ...{ ["__proto__"]: null } } must not change the prototype
+			defineDataProperty(target, key, getValue(from, key));
+		}
+	});
+
+	return target;
+}
+
+// function name from property key
+// { [Symbol.iterator]() {} } -> [Symbol.iterator]
+function getPropertyKeyName(key: any): string {
+	if (typeof key === "symbol") {
+		// Symbol(desc) -> desc
+		const description = String(key).slice(7, -1);
+		return description ? `[${description}]` : "";
+	}
+
+	return String(key);
+}
+
+// var s = function(){}
+// s.name === "s"
+function setAnonymousFunctionName(node: ESTree.Expression, name: string) {
+	if (
+		(node.type === "FunctionExpression" ||
+			node.type === "ArrowFunctionExpression" ||
+			node.type === "ClassExpression") &&
+		!(node as FunctionNode | ClassNode).id
+	) {
+		(node as FunctionNode | ClassNode).id = {
+			type: "Identifier",
+			name,
+		};
+	}
+}
+
+// maxSteps: evaluated nodes of the execution
+interface StepCounter {
+	count: number;
+}
+
+// evaluate or evaluateAsync, interrupted by timeout or maxSteps
+interface Execution {
+	interrupted: boolean;
+	// the timeout of the continuations of async functions counts from the start of their execution
+	startTime: number;
+}
+
 interface GeneratorReflection {
 	getOptions(): Readonly<Options>;
 	getCurrentScope(): Scope;
 	getGlobalScope(): Scope;
 	getCurrentContext(): Context;
 	getExecStartTime(): number;
+	getSteps(): StepCounter;
 }
 
 class InternalInterpreterReflection {
@@ -86,20 +892,26 @@ class InternalInterpreterReflection {
 			return this.getCurrentScope();
 		}
 
+		// global let/const/class are visible to indirect eval and Function
 		function getGlobalScope(this: Interpreter) {
-			return this.getGlobalScope();
+			return this.getGlobalLexicalScope();
 		}
 
 		function getCurrentContext(this: Interpreter) {
 			return this.getCurrentContext();
 		}
 
+		function getSteps(this: Interpreter) {
+			return this.steps;
+		}
+
 		return {
 			getOptions: interpreter.getOptions.bind(interpreter),
 			getCurrentScope: getCurrentScope.bind(interpreter),
 			getGlobalScope: getGlobalScope.bind(interpreter),
 			getCurrentContext: getCurrentContext.bind(interpreter),
 			getExecStartTime: interpreter.getExecStartTime.bind(interpreter),
+			getSteps: getSteps.bind(interpreter),
 		};
 	}
 }
@@ -107,7 +919,8 @@ class InternalInterpreterReflection {
 function internalEval(
 	reflection: InternalInterpreterReflection,
 	code?: string,
-	useGlobalScope: boolean = true
+	useGlobalScope: boolean = true,
+	strict: boolean = false
 ): any {
 	if (!(reflection instanceof InternalInterpreterReflection)) {
 		throw new Error("Illegal call");
@@ -122,6 +935,13 @@ function internalEval(
 
 	const options: Options = {
 		timeout: opts.timeout,
+		maxSteps: opts.maxSteps,
+		// eval in strict mode code is strict mode code
+		strict: opts.strict || strict,
+		hardened: opts.hardened,
+		policy: opts.policy,
+		realm: opts.realm,
+		lockdown: opts.lockdown,
 		_initEnv: function (this: Interpreter) {
 			// set caller context
 			if (!useGlobalScope) {
@@ -130,10 +950,18 @@ function internalEval(
 			// share timeout
 			this.execStartTime = instance.getExecStartTime();
 			this.execEndTime = this.execStartTime;
+			// share the step counter
+			this.shareSteps(instance.getSteps());
 		},
 	};
 
-	const currentScope = useGlobalScope ? instance.getGlobalScope() : instance.getCurrentScope();
+	let currentScope = useGlobalScope ? instance.getGlobalScope() : instance.getCurrentScope();
+
+	// var declarations of strict eval code do not leak into the caller
+	if (options.strict) {
+		currentScope = createScope(currentScope, "EvalScope");
+	}
+
 	const interpreter = new Interpreter(currentScope, options);
 
 	return interpreter.evaluate(code);
@@ -156,14 +984,25 @@ function internalFunction(
 	const instance = reflection.generator();
 
 	const code = params.pop();
+	const opts = instance.getOptions();
+	const initEnv = opts._initEnv;
 
-	const interpreter = new Interpreter(instance.getGlobalScope(), instance.getOptions());
+	const interpreter = new Interpreter(instance.getGlobalScope(), {
+		...opts,
+		_initEnv: function (this: Interpreter) {
+			if (initEnv) {
+				initEnv.call(this);
+			}
+			// the steps of the function are counted by the caller
+			this.shareSteps(instance.getSteps());
+		},
+	});
 
-	const wrapCode = `
-		    (function anonymous(${params.join(",")}){
-		        ${code}
-		    });
-		    `;
+	// the source text of the function is the same as new Function(...).toString()
+	const wrapCode = `(function anonymous(${params.join(",")}
+) {
+${code}
+})`;
 
 	return interpreter.evaluate(wrapCode);
 }
@@ -174,19 +1013,134 @@ Object.defineProperty(internalFunction, "__IS_FUNCTION_FUNC", {
 	configurable: false,
 });
 
-class Return {
-	value: any;
-	constructor(value: any) {
-		this.value = value;
+// hardened mode: host values which run code outside of the interpreter, or the legacy accessors
+// Function and eval are replaced by the interpreter's own, the others are blocked
+const hardenedValues = new WeakMap<Function, { name: string; replacement: Function | null }>();
+// obj.__proto__, obj["__defineGetter__"] ...
+const hardenedKeys = [
+	"__proto__",
+	"__defineGetter__",
+	"__defineSetter__",
+	"__lookupGetter__",
+	"__lookupSetter__",
+];
+
+function addHardenedValue(value: any, name: string, replacement: Function | null = null) {
+	if (isFunction(value)) {
+		hardenedValues.set(value, { name, replacement });
 	}
 }
 
-class BreakLabel {
-	value: string;
-	constructor(value: string) {
-		this.value = value;
+// isolated realm: host built-in objects which are replaced by the copy of another one, see Realm
+// the function constructors are the interpreter's Function, errors of the interpreter are built-in errors
+const realmAliases = new Map<any, any>([
+	[Function, internalFunction],
+	[eval, internalEval],
+	[ThrowError, Error],
+	[ThrowError.prototype, Error.prototype],
+	[ThrowSyntaxError, SyntaxError],
+	[ThrowSyntaxError.prototype, SyntaxError.prototype],
+	[ThrowReferenceError, ReferenceError],
+	[ThrowReferenceError.prototype, ReferenceError.prototype],
+	[ThrowTypeError, TypeError],
+	[ThrowTypeError.prototype, TypeError.prototype],
+	[ThrowRangeError, RangeError],
+	[ThrowRangeError.prototype, RangeError.prototype],
+]);
+
+addHardenedValue(Function, "Function", internalFunction);
+addHardenedValue(eval, "eval", internalEval);
+
+[
+	["AsyncFunction", "async function () {}"],
+	["GeneratorFunction", "function* () {}"],
+	["AsyncGeneratorFunction", "async function* () {}"],
+].forEach(([name, source]) => {
+	try {
+		const constructor = Object.getPrototypeOf(Function(`return ${source}`)()).constructor;
+
+		addHardenedValue(constructor, name);
+		realmAliases.set(constructor, internalFunction);
+	} catch (e) {
+		// not supported by the host
 	}
-}
+});
+
+hardenedKeys.forEach(key => {
+	const descriptor = Object.getOwnPropertyDescriptor(Object.prototype, key);
+
+	if (descriptor) {
+		addHardenedValue(descriptor.value, key);
+		addHardenedValue(descriptor.get, key);
+		addHardenedValue(descriptor.set, key);
+	}
+});
+
+// source text of interpreted functions
+const functionSources = new WeakMap<Function, string>();
+const functionToString = Function.prototype.toString;
+
+// Function.prototype of interpreted functions, fn.toString() returns the source text
+const FunctionPrototype = Object.create(Function.prototype);
+
+Object.defineProperty(FunctionPrototype, "toString", {
+	value: function toString(this: Function) {
+		const source = functionSources.get(this);
+
+		return source === undefined ? functionToString.call(this) : source;
+	},
+	writable: true,
+	enumerable: false,
+	configurable: true,
+});
+
+// isolated realm: Math.max.toString() of the copy is the source text of the host function
+realmAliases.set(functionToString, FunctionPrototype.toString);
+
+// Function.prototype.toString.call(fn), fn instanceof Function
+Object.defineProperty(internalFunction, "prototype", {
+	value: FunctionPrototype,
+	writable: false,
+	enumerable: false,
+	configurable: false,
+});
+Object.defineProperty(FunctionPrototype, "constructor", {
+	value: internalFunction,
+	writable: true,
+	enumerable: false,
+	configurable: true,
+});
+Object.defineProperty(internalFunction, Symbol.hasInstance, {
+	value: (value: any) => isFunction(value),
+	writable: false,
+	enumerable: false,
+	configurable: true,
+});
+
+// ExpectedArgumentCount: parameters before the first default value or rest parameter
+function getExpectedArgumentCount(params: ESTree.Pattern[]): number {
+	for (let i = 0; i < params.length; i++) {
+		if (params[i].type === "AssignmentPattern" || params[i].type === "RestElement") {
+			return i;
+		}
+	}
+
+	return params.length;
+}
+
+class Return {
+	value: any;
+	constructor(value: any) {
+		this.value = value;
+	}
+}
+
+class BreakLabel {
+	value: string;
+	constructor(value: string) {
+		this.value = value;
+	}
+}
 
 class ContinueLabel {
 	value: string;
@@ -203,26 +1157,63 @@ class ContinueLabel {
  *     ↓
  * globalScope
  *     ↓
+ * globalLexicalScope (let/const/class)
+ *     ↓
  * functionScope
+ *     ↓
+ * blockScope
  *
  */
 class Scope {
 	readonly name: string | undefined | Symbol;
 	readonly parent: Scope | null;
 	readonly data: ScopeData;
+	// const bindings of data
+	readonly consts: ConstDeclarations | null;
+	// function scope of class method or constructor
+	env: FunctionEnvironment | null = null;
 	labelStack: string[];
-	constructor(data: ScopeData, parent: Scope | null = null, name?: string | Symbol) {
+	constructor(
+		data: ScopeData,
+		parent: Scope | null = null,
+		name?: string | Symbol,
+		consts: ConstDeclarations | null = null
+	) {
 		this.name = name;
 		this.parent = parent;
 		this.data = data;
+		this.consts = consts;
 		this.labelStack = [];
 	}
 }
 
 function noop() {}
 
-function createScope(parent: Scope | null = null, name?: string): Scope {
-	return new Scope(Object.create(null), parent, name);
+function createScope(
+	parent: Scope | null = null,
+	name?: string | Symbol,
+	consts: ConstDeclarations | null = null
+): Scope {
+	return new Scope(Object.create(null), parent, name, consts);
+}
+
+// for(let i = 0;...) each iteration has its own copy of the bindings
+function copyScope(scope: Scope): Scope {
+	const data = Object.create(null);
+
+	for (let key in scope.data) {
+		data[key] = scope.data[key];
+	}
+
+	return new Scope(data, scope.parent, scope.name, scope.consts);
+}
+
+function createLexicalDeclarations(isBlock: boolean): CollectLexicalDeclarations {
+	return {
+		names: Object.create(null),
+		consts: Object.create(null),
+		isBlock,
+	};
 }
 
 function createRootContext(data: Context): Context {
@@ -299,6 +1290,332 @@ if (typeof Reflect !== "undefined") {
 	BuildInObjects.Reflect = Reflect;
 }
 
+//ES2020 Object
+if (typeof BigInt !== "undefined") {
+	BuildInObjects.BigInt = BigInt;
+}
+
+// isolated realm: hidden built-in objects, reached by the prototypes of iterators and generators
+const realmRoots: any[] = [
+	GeneratorPrototype,
+	Object.getPrototypeOf([][Symbol.iterator]()),
+	Object.getPrototypeOf(""[Symbol.iterator]()),
+	Object.getPrototypeOf(new Map()[Symbol.iterator]()),
+	Object.getPrototypeOf(new Set()[Symbol.iterator]()),
+];
+
+// "a".matchAll(/a/g)
+const symbolMatchAll: symbol | undefined = Reflect.get(Symbol, "matchAll");
+
+if (typeof symbolMatchAll === "symbol") {
+	const matchAll: (this: RegExp, str: string) => Iterator<string[]> = Reflect.get(
+		RegExp.prototype,
+		symbolMatchAll
+	);
+
+	realmRoots.push(Object.getPrototypeOf(matchAll.call(/a/, "")));
+}
+
+// Array(3) and Error("a") are the same as new Array(3) and new Error("a")
+const realmCallAsConstructors: Function[] = [
+	Array,
+	Error,
+	EvalError,
+	RangeError,
+	ReferenceError,
+	SyntaxError,
+	TypeError,
+	URIError,
+];
+
+const functionHasInstance: (this: any, value: any) => boolean =
+	Function.prototype[Symbol.hasInstance];
+
+// new.target is a constructor
+function isConstructor(func: Function): boolean {
+	try {
+		Reflect.construct(String, [], func);
+		return true;
+	} catch (e) {
+		return false;
+	}
+}
+
+// copy of a host function: calls the host function with this, the arguments and the result imported,
+// host callbacks can not pass the host built-in objects between the copies:
+// [Object.keys({})].map(Object.getPrototypeOf).forEach(Object.assign) changes the copy of Array.prototype.
+// new creates the instance with new.target, so the prototype of the instance is the copy's prototype
+function createIntrinsicFunction(
+	target: Function,
+	constructor: boolean,
+	importValue: (value: any) => any
+): Function {
+	const importArguments = (args: IArguments) => {
+		const result: any[] = [];
+
+		for (let i = 0; i < args.length; i++) {
+			result.push(importValue(args[i]));
+		}
+
+		return result;
+	};
+
+	if (!constructor) {
+		// like most built-in functions, getters are not constructors and have no prototype
+		return Object.getOwnPropertyDescriptor(
+			{
+				get intrinsic() {
+					return importValue(
+						Reflect.apply(target, importValue(this), importArguments(arguments))
+					);
+				},
+			},
+			"intrinsic"
+		)!.get!;
+	}
+
+	const callAsConstructor = realmCallAsConstructors.indexOf(target) !== -1;
+	const func = function (this: any) {
+		const args = importArguments(arguments);
+
+		if (new.target) {
+			return Reflect.construct(target, args, new.target);
+		}
+
+		return callAsConstructor
+			? Reflect.construct(target, args, func)
+			: importValue(Reflect.apply(target, importValue(this), args));
+	};
+
+	return func;
+}
+
+// copy of a host built-in object, Array.prototype is an array and String.prototype is a String object
+function createIntrinsicObject(value: any): any {
+	if (Array.isArray(value)) {
+		return [];
+	}
+
+	switch (value) {
+		case String.prototype:
+			return Object("");
+		case Number.prototype:
+			return Object(0);
+		case Boolean.prototype:
+			return Object(false);
+	}
+
+	return {};
+}
+
+/**
+ * isolated realm: copies of the built-in objects, the copies and their prototypes are not shared with the host,
+ * so Array.prototype.map = null of a script does not change the host or the other realms.
+ * values are passed by reference, host built-in objects reached by scripts are replaced by the copies,
+ * the copies returned to the host by evaluate are replaced by the host built-in objects
+ */
+export class Realm {
+	// Object, Array, JSON ...
+	readonly globals: ScopeData = Object.create(null);
+	// lockdown: the copies are frozen
+	protected frozen: boolean = false;
+	// host built-in object -> copy
+	protected intrinsics = new Map<any, any>();
+	// copy -> host built-in object
+	protected hostIntrinsics = new Map<any, any>();
+
+	constructor() {
+		Object.keys(BuildInObjects).forEach(key => {
+			this.globals[key] = this.copyIntrinsic(BuildInObjects[key]);
+		});
+
+		realmRoots.forEach(value => this.copyIntrinsic(value));
+	}
+
+	// lockdown: scripts can not change the copies, the host is not affected
+	freeze() {
+		if (this.frozen) {
+			return;
+		}
+
+		this.frozen = true;
+		this.hostIntrinsics.forEach((value, copy) => Object.freeze(copy));
+	}
+
+	isFrozen(): boolean {
+		return this.frozen;
+	}
+
+	// Array.prototype, Math.max ...
+	isIntrinsic(value: any): boolean {
+		return this.hostIntrinsics.has(value);
+	}
+
+	// lockdown: obj.toString = f overrides the read-only property of the frozen Object.prototype
+	canOverride(obj: any, key: PropertyKey): boolean {
+		if (!this.frozen || hasOwnProperty.call(obj, key) || !Object.isExtensible(obj)) {
+			return false;
+		}
+
+		let proto = Object.getPrototypeOf(obj);
+
+		while (proto !== null) {
+			const descriptor = Object.getOwnPropertyDescriptor(proto, key);
+
+			if (descriptor) {
+				return "value" in descriptor && !descriptor.writable && this.isIntrinsic(proto);
+			}
+
+			proto = Object.getPrototypeOf(proto);
+		}
+
+		return false;
+	}
+
+	// host built-in object -> copy
+	importValue(value: any): any {
+		if (value === null || (typeof value !== "object" && !isFunction(value))) {
+			return value;
+		}
+
+		const intrinsic = this.intrinsics.get(value);
+
+		return intrinsic === undefined ? value : intrinsic;
+	}
+
+	// copy -> host built-in object
+	exportValue(value: any): any {
+		if (value === null || (typeof value !== "object" && !isFunction(value))) {
+			return value;
+		}
+
+		const intrinsic = this.hostIntrinsics.get(value);
+
+		return intrinsic === undefined ? value : intrinsic;
+	}
+
+	// objects created by scripts inherit from the copies: [] {} /a/
+	adoptObject<T>(obj: T): T {
+		const proto = this.intrinsics.get(Object.getPrototypeOf(obj));
+
+		if (proto !== undefined) {
+			Object.setPrototypeOf(obj, proto);
+		}
+
+		return obj;
+	}
+
+	// obj[key], properties inherited from host built-in prototypes are read from the copies:
+	// String.prototype.trim = ... is used by " a ".trim(), Array.prototype.last = ... by Object.keys(o).last()
+	get(obj: any, key: PropertyKey): any {
+		if (obj === null || obj === undefined) {
+			return obj[key];
+		}
+
+		const target = typeof obj === "object" || isFunction(obj) ? obj : Object(obj);
+		const proto = this.intrinsics.get(Object.getPrototypeOf(target));
+
+		if (proto === undefined || hasOwnProperty.call(target, key)) {
+			return obj[key];
+		}
+
+		return Reflect.get(proto, key, obj);
+	}
+
+	protected copyIntrinsic(value: any): any {
+		if (value === null || (typeof value !== "object" && !isFunction(value))) {
+			return value;
+		}
+
+		let copy = this.intrinsics.get(value);
+
+		if (copy !== undefined) {
+			return copy;
+		}
+
+		const alias = realmAliases.get(value);
+
+		if (alias !== undefined) {
+			copy = this.copyIntrinsic(alias);
+			this.intrinsics.set(value, copy);
+
+			return copy;
+		}
+
+		if (isFunction(value)) {
+			copy = createIntrinsicFunction(
+				value === functionHasInstance ? this.createHasInstance() : value,
+				isConstructor(value),
+				value => this.importValue(value)
+			);
+
+			functionSources.set(copy, functionToString.call(value));
+
+			// hardened mode: the copies of the legacy accessors are blocked too
+			const hardenedValue = hardenedValues.get(value);
+
+			if (hardenedValue) {
+				hardenedValues.set(copy, hardenedValue);
+			}
+		} else {
+			copy = createIntrinsicObject(value);
+		}
+
+		// set first, the properties may refer to the value
+		this.intrinsics.set(value, copy);
+		this.hostIntrinsics.set(copy, value);
+
+		Object.setPrototypeOf(copy, this.copyIntrinsic(Object.getPrototypeOf(value)));
+
+		Reflect.ownKeys(value).forEach(key => {
+			const descriptor = Object.getOwnPropertyDescriptor(value, key)!;
+
+			if ("value" in descriptor) {
+				descriptor.value = this.copyIntrinsic(descriptor.value);
+			} else {
+				descriptor.get = this.copyIntrinsic(descriptor.get);
+				descriptor.set = this.copyIntrinsic(descriptor.set);
+			}
+
+			try {
+				Object.defineProperty(copy, key, descriptor);
+			} catch (e) {
+				// a non-configurable property of the copy
+			}
+		});
+
+		return copy;
+	}
+
+	// Function.prototype[Symbol.hasInstance]: host objects are instances of the copies too,
+	// Object.keys(o) instanceof Array, and errors thrown by host functions instanceof TypeError
+	protected createHasInstance() {
+		const hostIntrinsics = this.hostIntrinsics;
+
+		return function (this: any, value: any) {
+			if (functionHasInstance.call(this, value)) {
+				return true;
+			}
+
+			const intrinsic = hostIntrinsics.get(this);
+
+			return intrinsic !== undefined && functionHasInstance.call(intrinsic, value);
+		};
+	}
+}
+
+// lockdown: the frozen copies are shared by the interpreters without a realm of their own
+let lockdownRealm: Realm | null = null;
+
+function getLockdownRealm(): Realm {
+	if (!lockdownRealm) {
+		lockdownRealm = new Realm();
+		lockdownRealm.freeze();
+	}
+
+	return lockdownRealm;
+}
+
 export class Interpreter {
 	static readonly version: string = version;
 	static readonly eval = internalEval;
@@ -321,28 +1638,71 @@ export class Interpreter {
 	protected sourceList: string[] = [];
 	protected currentScope: Scope;
 	protected globalScope: Scope;
+	protected globalLexicalScope: Scope;
 	protected currentContext: Context;
 	protected options: Options;
+	// isolated realm, see Options.realm
+	protected realm: Realm | null;
 	protected callStack: string[];
 	protected collectDeclVars: CollectDeclarations = Object.create(null);
 	protected collectDeclFuncs: CollectDeclarations = Object.create(null);
+	protected collectDeclLexicals: CollectLexicalDeclarations = createLexicalDeclarations(false);
 	protected isVarDeclMode: boolean = false;
+	// the code being compiled is strict mode code
+	protected isStrictMode: boolean = false;
+	// values of SlotExpression
+	protected slotFrames: any[][] = [];
+	// module registry: id -> module
+	protected moduleMap: { [id: string]: ModuleRecord } = Object.create(null);
 
 	protected lastExecNode: Node | null = null;
 
 	protected isRunning: boolean = false;
 	protected execStartTime: number;
 	protected execEndTime: number;
+	// eval and Function code add to the step counter of the caller
+	protected steps: StepCounter = { count: 0 };
+	protected isSharedSteps: boolean = false;
+	// the continuations of async functions are dropped once their execution is interrupted
+	protected execution: Execution = { interrupted: false, startTime: 0 };
 
 	constructor(context: Context | Scope = Interpreter.global, options: Options = {}) {
+		// hardened mode: every interpreter without a realm gets its own copies, host built-in functions
+		// only see the copies, so they can not call back the host Function:
+		// Object.defineProperty(o, Symbol.replace, Object.getOwnPropertyDescriptor(Function.prototype, "constructor"))
+		this.realm =
+			options.realm instanceof Realm
+				? options.realm
+				: options.realm
+				? new Realm()
+				: options.lockdown
+				? getLockdownRealm()
+				: options.hardened
+				? new Realm()
+				: null;
+
+		// lockdown with a realm: the copies of the realm are frozen
+		if (this.realm && options.lockdown) {
+			this.realm.freeze();
+		}
+
 		this.options = {
 			ecmaVersion: options.ecmaVersion || Interpreter.ecmaVersion,
 			timeout: options.timeout || 0,
+			maxSteps: options.maxSteps || 0,
 			rootContext: options.rootContext,
 			globalContextInFunction:
 				options.globalContextInFunction === undefined
 					? Interpreter.globalContextInFunction
 					: options.globalContextInFunction,
+			strict: !!options.strict,
+			hardened: !!options.hardened,
+			policy: options.policy,
+			// eval and Function share the realm
+			realm: this.realm || undefined,
+			lockdown: !!options.lockdown,
+			resolveModule: options.resolveModule,
+			loadModule: options.loadModule,
 			_initEnv: options._initEnv,
 		};
 
@@ -372,14 +1732,28 @@ export class Interpreter {
 			scope = new Scope(ctx, rootScope || superScope, GlobalScopeName);
 		}
 
+		// let/const/class of the program, shared by every evaluate
+		this.globalLexicalScope = new Scope(
+			Object.create(null),
+			scope,
+			BlockScopeName,
+			Object.create(null)
+		);
+
+		// eval in block: var declarations belong to the function scope
+		while (scope.name === BlockScopeName && scope.parent) {
+			scope = scope.parent;
+		}
+
 		this.globalScope = scope;
-		this.currentScope = this.globalScope;
+		this.currentScope = this.globalLexicalScope;
 		//init global context to this
 		this.globalContext = scope.data;
 		this.currentContext = scope.data;
 		// collect var/function declare
 		this.collectDeclVars = Object.create(null);
 		this.collectDeclFuncs = Object.create(null);
+		this.collectDeclLexicals = createLexicalDeclarations(false);
 
 		this.execStartTime = Date.now();
 		this.execEndTime = this.execStartTime;
@@ -402,6 +1776,22 @@ export class Interpreter {
 		this.options.timeout = timeout;
 	}
 
+	// the number of evaluated nodes of the last execution
+	getStepCount(): number {
+		return this.steps.count;
+	}
+
+	protected shareSteps(steps: StepCounter) {
+		this.steps = steps;
+		this.isSharedSteps = true;
+	}
+
+	protected resetSteps() {
+		if (!this.isSharedSteps) {
+			this.steps.count = 0;
+		}
+	}
+
 	getOptions(): Readonly<Options> {
 		return this.options;
 	}
@@ -410,6 +1800,10 @@ export class Interpreter {
 		return this.globalScope;
 	}
 
+	protected getGlobalLexicalScope() {
+		return this.globalLexicalScope;
+	}
+
 	protected getCurrentScope() {
 		return this.currentScope;
 	}
@@ -428,7 +1822,7 @@ export class Interpreter {
 
 	protected createSuperScope(ctx: Context): Scope {
 		let data: ScopeData = {
-			...BuildInObjects,
+			...(this.realm ? this.realm.globals : BuildInObjects),
 		};
 
 		const buildInObjectKeys = Object.keys(data);
@@ -455,10 +1849,10 @@ export class Interpreter {
 
 		if (!code) return;
 
-		node = parse(code, {
+		node = (this.options.strict ? StrictParser : Parser).parse(code, {
 			ranges: true,
 			locations: true,
-			ecmaVersion: this.options.ecmaVersion || Interpreter.ecmaVersion,
+			ecmaVersion: this.options.ecmaVersion!,
 		});
 
 		return this.evaluateNode(node as ESTree.Program, code);
@@ -468,6 +1862,27 @@ export class Interpreter {
 		return this.evaluate(code);
 	}
 
+	// top-level await is allowed, resolves after all awaited work finishes
+	evaluateAsync(code: string = ""): Promise<any> {
+		const HostPromise: PromiseConstructor = BuildInObjects.Promise;
+		let node: unknown;
+
+		if (!code) return HostPromise.resolve();
+
+		try {
+			node = (this.options.strict ? StrictParser : Parser).parse(code, {
+				ranges: true,
+				locations: true,
+				ecmaVersion: this.options.ecmaVersion!,
+				allowAwaitOutsideFunction: true,
+			});
+		} catch (e) {
+			return HostPromise.reject(e);
+		}
+
+		return this.evaluateNodeAsync(node as ESTree.Program, code);
+	}
+
 	protected evaluateNode(node: ESTree.Program, source: string = "") {
 		this.value = undefined;
 		this.source = source;
@@ -478,10 +1893,13 @@ export class Interpreter {
 		//reset timeout
 		this.execStartTime = Date.now();
 		this.execEndTime = this.execStartTime;
+		this.resetSteps();
 
 		// reset
 		this.collectDeclVars = Object.create(null);
 		this.collectDeclFuncs = Object.create(null);
+		this.collectDeclLexicals = createLexicalDeclarations(false);
+		this.isStrictMode = !!this.options.strict || hasUseStrictDirective(node.body);
 
 		const currentScope = this.getCurrentScope();
 		const currentContext = this.getCurrentContext();
@@ -493,20 +1911,23 @@ export class Interpreter {
 			currentScope.labelStack = labelStack; //reset label stack
 			this.callStack = callStack; //reset call stack
 		};
+		const execution: Execution = (this.execution = {
+			interrupted: false,
+			startTime: this.execStartTime,
+		});
 
 		// start run
 		try {
 			const bodyClosure = this.createClosure(node);
 
-			// add declares to data
-			this.addDeclarationsToScope(
-				this.collectDeclVars,
-				this.collectDeclFuncs,
-				this.getCurrentScope()
-			);
+			this.addProgramDeclarations();
 
 			bodyClosure();
 		} catch (e) {
+			if (this.isInterruptThrow(e)) {
+				execution.interrupted = true;
+			}
+
 			throw e;
 		} finally {
 			reset();
@@ -515,1443 +1936,5829 @@ export class Interpreter {
 
 		this.isRunning = false;
 
-		return this.getValue();
+		// isolated realm: evaluate("Array") is the host Array
+		return this.realm ? this.realm.exportValue(this.getValue()) : this.getValue();
 	}
 
-	protected createErrorMessage(
-		msg: MessageItem,
-		value: string | number,
-		node?: Node | null
-	): string {
-		let message = msg[1].replace("%0", String(value));
+	/**
+	 * the program is suspended by await like async functions,
+	 * timeout is measured from the start and checked in every resumed part,
+	 * a pending await rejects with ExecutionTimeOutError too
+	 */
+	protected evaluateNodeAsync(node: ESTree.Program, source: string = ""): Promise<any> {
+		const HostPromise: PromiseConstructor = BuildInObjects.Promise;
+		const timeout = this.options.timeout || 0;
 
-		if (node !== null) {
-			message += this.getNodePosition(node || this.lastExecNode);
-		}
+		this.value = undefined;
+		this.source = source;
+		this.sourceList.push(source);
 
-		return message;
-	}
+		this.isRunning = true;
 
-	protected createError<T>(message: string, error: { new (msg: string): T }): T {
-		return new error(message);
-	}
+		//reset timeout
+		this.execStartTime = Date.now();
+		this.execEndTime = this.execStartTime;
+		this.resetSteps();
 
-	protected createThrowError<T>(message: string, error: { new (msg: string): T }): T {
-		return this.createError(message, error);
-	}
+		// reset
+		this.collectDeclVars = Object.create(null);
+		this.collectDeclFuncs = Object.create(null);
+		this.collectDeclLexicals = createLexicalDeclarations(false);
+		this.isStrictMode = !!this.options.strict || hasUseStrictDirective(node.body);
 
-	protected createInternalThrowError<T extends MessageItem>(
-		msg: T,
-		value: string | number,
-		node?: Node | null
-	) {
-		return this.createError(this.createErrorMessage(msg, value, node), msg[2]);
-	}
+		const state: ExecutionState = {
+			scope: this.getCurrentScope(),
+			context: this.getCurrentContext(),
+			callStack: this.callStack.concat([]),
+		};
+		const execution: Execution = (this.execution = {
+			interrupted: false,
+			startTime: this.execStartTime,
+		});
+		let iterator: Generator<any, any, any>;
 
-	protected checkTimeout() {
-		if (!this.isRunning) return false;
+		try {
+			const bodyClosure = this.programGeneratorHandler(node);
 
-		const timeout = this.options.timeout || 0;
+			this.addProgramDeclarations();
 
-		const now = Date.now();
-		if (now - this.execStartTime > timeout) {
-			return true;
+			iterator = bodyClosure();
+		} catch (e) {
+			this.execEndTime = Date.now();
+			return HostPromise.reject(e);
+		}
+
+		return new HostPromise((resolve, reject) => {
+			let settled = false;
+			let timer: any = null;
+
+			const settle = (isError: boolean, value: any) => {
+				if (settled) return;
+
+				settled = true;
+				this.isRunning = false;
+				this.execEndTime = Date.now();
+
+				if (timer) {
+					clearTimeout(timer);
+				}
+
+				if (isError) {
+					// timed out: async functions of the script stop quietly instead of rejecting
+					if (this.isInterruptThrow(value)) {
+						execution.interrupted = true;
+					}
+
+					reject(value);
+				} else {
+					resolve(value);
+				}
+			};
+
+			const step = (method: GeneratorMethod, value: any) => {
+				// timed out
+				if (settled) return;
+
+				let result: IteratorResult<any>;
+
+				try {
+					result = this.resumeExecution(state, iterator, method, value);
+				} catch (e) {
+					settle(true, e);
+					return;
+				}
+
+				if (result.done) {
+					settle(
+						false,
+						this.realm ? this.realm.exportValue(this.getValue()) : this.getValue()
+					);
+					return;
+				}
+
+				// await value
+				HostPromise.resolve(result.value).then(
+					value => step("next", value),
+					error => step("throw", error)
+				);
+			};
+
+			if (timeout > 0) {
+				timer = setTimeout(() => {
+					settle(
+						true,
+						this.createInternalThrowError(Messages.ExecutionTimeOutError, timeout, null)
+					);
+				}, timeout);
+			}
+
+			step("next", undefined);
+		});
+	}
+
+	// declarations of program are added to global scope before running
+	protected addProgramDeclarations() {
+		const declLexicals = this.collectDeclLexicals;
+		const globalLexicalScope = this.getGlobalLexicalScope();
+
+		// let a = 1; then evaluate let a = 2; var a = 2; or function a() {}
+		[declLexicals.names, this.collectDeclVars, this.collectDeclFuncs].forEach(names => {
+			for (let key in names) {
+				if (hasOwnProperty.call(globalLexicalScope.data, key)) {
+					throw this.createInternalThrowError(
+						Messages.VariableRedeclarationSyntaxError,
+						key,
+						null
+					);
+				}
+			}
+		});
+
+		// add declares to data
+		this.addDeclarationsToScope(
+			this.collectDeclVars,
+			this.collectDeclFuncs,
+			this.getGlobalScope()
+		);
+
+		Object.assign(globalLexicalScope.consts, declLexicals.consts);
+		this.addLexicalDeclarationsToScope(declLexicals, globalLexicalScope);
+	}
+
+	/**
+	 * evaluates code as an ES module and returns its namespace object,
+	 * imported modules are resolved and loaded by options.resolveModule/loadModule
+	 * and cached in the module registry of the interpreter
+	 */
+	evaluateModule(code: string, specifier: string = "<anonymous>"): any {
+		if (this.moduleMap[specifier]) {
+			throw this.createInternalThrowError(Messages.ModuleRedeclarationError, specifier, null);
+		}
+
+		const node = this.parseModule(code);
+
+		return this.evaluateModuleNode(node as ESTree.Program, code, specifier);
+	}
+
+	// import { a } from "specifier" reads exports[a], the default export is exports itself if not provided
+	registerModule(specifier: string, exports: {}) {
+		if (this.moduleMap[specifier]) {
+			throw this.createInternalThrowError(Messages.ModuleRedeclarationError, specifier, null);
+		}
+
+		const exportNames = Object.keys(exports);
+
+		if (exportNames.indexOf("default") === -1) {
+			exportNames.push("default");
+		}
+
+		this.moduleMap[specifier] = {
+			id: specifier,
+			status: "evaluated",
+			scope: createScope(null, ModuleScopeName),
+			localExports: Object.create(null),
+			indirectExports: Object.create(null),
+			starExports: [],
+			importEntries: [],
+			requestedModules: [],
+			loadedModules: Object.create(null),
+			instantiate: noop,
+			body: noop,
+			exportNames,
+			exports,
+			namespace: null,
+			evaluationError: null,
+		};
+	}
+
+	protected parseModule(code: string): ESTree.Program {
+		const node = (parse(code, {
+			ranges: true,
+			locations: true,
+			ecmaVersion: this.options.ecmaVersion!,
+			sourceType: "module",
+		}) as unknown) as ESTree.Program;
+		// modules are evaluated synchronously, acorn accepts top-level await since es2022
+		const awaitNode = findTopLevelAwait(node);
+
+		if (awaitNode) {
+			throw this.createInternalThrowError(
+				Messages.TopLevelAwaitSyntaxError,
+				awaitNode.type === "ForOfStatement" ? "for await" : "await",
+				awaitNode
+			);
+		}
+
+		return node;
+	}
+
+	protected evaluateModuleNode(node: ESTree.Program, source: string, id: string) {
+		this.isRunning = true;
+
+		//reset timeout
+		this.execStartTime = Date.now();
+		this.execEndTime = this.execStartTime;
+		this.resetSteps();
+
+		const currentScope = this.getCurrentScope();
+		const currentContext = this.getCurrentContext();
+		const callStack: string[] = this.callStack.concat([]);
+		let module: ModuleRecord;
+
+		try {
+			module = this.createSourceTextModule(node, source, id);
+			this.moduleMap[id] = module;
+
+			try {
+				this.loadRequestedModules(module);
+				this.linkModule(module);
+			} catch (e) {
+				// modules failed to link can be loaded again
+				for (let key in this.moduleMap) {
+					const status = this.moduleMap[key].status;
+
+					if (status === "unlinked" || status === "linking") {
+						delete this.moduleMap[key];
+					}
+				}
+
+				throw e;
+			}
+
+			this.evaluateModuleRecord(module);
+		} finally {
+			this.setCurrentScope(currentScope);
+			this.setCurrentContext(currentContext);
+			this.callStack = callStack;
+			this.execEndTime = Date.now();
+		}
+
+		this.isRunning = false;
+
+		return this.getModuleNamespace(module);
+	}
+
+	// compiles the module body and collects import/export entries
+	protected createSourceTextModule(
+		node: ESTree.Program,
+		source: string,
+		id: string
+	): ModuleRecord {
+		this.source = source;
+		this.sourceList.push(source);
+
+		const oldDeclVars = this.collectDeclVars;
+		const oldDeclFuncs = this.collectDeclFuncs;
+		const oldDeclLexicals = this.collectDeclLexicals;
+		this.collectDeclVars = Object.create(null);
+		this.collectDeclFuncs = Object.create(null);
+		this.collectDeclLexicals = createLexicalDeclarations(false);
+		// module code is always strict mode code
+		const oldStrictMode = this.isStrictMode;
+		this.isStrictMode = true;
+
+		const body = this.programHandler(node);
+
+		const declVars = this.collectDeclVars;
+		const declFuncs = this.collectDeclFuncs;
+		const declLexicals = this.collectDeclLexicals;
+
+		this.collectDeclVars = oldDeclVars;
+		this.collectDeclFuncs = oldDeclFuncs;
+		this.collectDeclLexicals = oldDeclLexicals;
+		this.isStrictMode = oldStrictMode;
+
+		const scope = new Scope(
+			Object.create(null),
+			this.getGlobalLexicalScope(),
+			ModuleScopeName,
+			declLexicals.consts
+		);
+
+		const module: ModuleRecord = {
+			id,
+			status: "unlinked",
+			scope,
+			localExports: Object.create(null),
+			indirectExports: Object.create(null),
+			starExports: [],
+			importEntries: [],
+			requestedModules: [],
+			loadedModules: Object.create(null),
+			instantiate: () => {
+				const prevScope = this.getCurrentScope();
+				// functions are created in the module scope
+				this.setCurrentScope(scope);
+				this.addDeclarationsToScope(declVars, declFuncs, scope);
+				this.addLexicalDeclarationsToScope(declLexicals, scope);
+				this.setCurrentScope(prevScope);
+			},
+			body,
+			exportNames: null,
+			exports: null,
+			namespace: null,
+			evaluationError: null,
+		};
+
+		const addRequest = (specifier: string) => {
+			if (module.requestedModules.indexOf(specifier) === -1) {
+				module.requestedModules.push(specifier);
+			}
+		};
+
+		node.body.forEach(stmt => {
+			switch (stmt.type) {
+				// import a, { b as c } from "x"; import * as ns from "x"
+				case "ImportDeclaration": {
+					const specifier = stmt.source.value as string;
+
+					addRequest(specifier);
+
+					stmt.specifiers.forEach(spec => {
+						module.importEntries.push({
+							specifier,
+							importName:
+								spec.type === "ImportSpecifier"
+									? spec.imported.name
+									: spec.type === "ImportDefaultSpecifier"
+									? "default"
+									: "*",
+							localName: spec.local.name,
+							node: spec,
+						});
+					});
+					break;
+				}
+				// export var a; export { a as b }; export { a as b } from "x"
+				case "ExportNamedDeclaration": {
+					const decl = stmt.declaration;
+
+					if (decl) {
+						const names =
+							decl.type === "VariableDeclaration"
+								? decl.declarations.reduce<string[]>(
+										(names, d) => names.concat(this.getPatternNames(d.id)),
+										[]
+								  )
+								: [decl.id!.name];
+
+						names.forEach(name => (module.localExports[name] = name));
+					} else if (stmt.source) {
+						const specifier = stmt.source.value as string;
+
+						addRequest(specifier);
+
+						stmt.specifiers.forEach(spec => {
+							module.indirectExports[spec.exported.name] = [
+								specifier,
+								spec.local.name,
+							];
+						});
+					} else {
+						stmt.specifiers.forEach(spec => {
+							module.localExports[spec.exported.name] = spec.local.name;
+						});
+					}
+					break;
+				}
+				// export default function a(){}; export default 1
+				case "ExportDefaultDeclaration": {
+					const decl = stmt.declaration;
+
+					module.localExports.default =
+						(decl.type === "FunctionDeclaration" || decl.type === "ClassDeclaration") &&
+						decl.id
+							? decl.id.name
+							: DefaultExportName;
+					break;
+				}
+				// export * from "x"; export * as ns from "x"
+				case "ExportAllDeclaration": {
+					const specifier = stmt.source.value as string;
+					const exported = (stmt as ExportAllDeclaration).exported;
+
+					addRequest(specifier);
+
+					if (exported) {
+						module.indirectExports[exported.name] = [specifier, "*"];
+					} else {
+						module.starExports.push(specifier);
+					}
+					break;
+				}
+			}
+		});
+
+		// import { a } from "x"; export { a } re-exports the binding of x
+		Object.keys(module.localExports).forEach(exportName => {
+			const localName = module.localExports[exportName];
+
+			module.importEntries.forEach(entry => {
+				if (entry.localName === localName && entry.importName !== "*") {
+					delete module.localExports[exportName];
+					module.indirectExports[exportName] = [entry.specifier, entry.importName];
+				}
+			});
+		});
+
+		return module;
+	}
+
+	protected loadRequestedModules(module: ModuleRecord) {
+		const resolveModule = this.options.resolveModule;
+		const loadModule = this.options.loadModule;
+
+		module.requestedModules.forEach(specifier => {
+			const id = resolveModule ? resolveModule(specifier, module.id) : specifier;
+			let requested = this.moduleMap[id];
+
+			if (!requested) {
+				const source = loadModule ? loadModule(id) : null;
+
+				if (typeof source !== "string") {
+					throw this.createInternalThrowError(
+						Messages.ModuleNotFoundError,
+						specifier,
+						null
+					);
+				}
+
+				requested = this.createSourceTextModule(this.parseModule(source), source, id);
+
+				// cycles: added before loading its dependencies
+				this.moduleMap[id] = requested;
+				this.loadRequestedModules(requested);
+			}
+
+			module.loadedModules[specifier] = requested;
+		});
+	}
+
+	// creates import bindings and hoists declarations, dependencies first
+	protected linkModule(module: ModuleRecord) {
+		if (module.status !== "unlinked") return;
+
+		module.status = "linking";
+
+		module.requestedModules.forEach(specifier =>
+			this.linkModule(module.loadedModules[specifier])
+		);
+
+		for (let exportName in module.indirectExports) {
+			this.resolveImportBinding(module, exportName, null);
+		}
+
+		const scope = module.scope;
+
+		module.importEntries.forEach(entry => {
+			const requested = module.loadedModules[entry.specifier];
+
+			// import bindings are immutable
+			scope.consts![entry.localName] = true;
+
+			if (entry.importName === "*") {
+				scope.data[entry.localName] = this.getModuleNamespace(requested);
+				return;
+			}
+
+			const binding = this.resolveImportBinding(requested, entry.importName, entry.node);
+
+			// live binding, uninitialized until the exporting module evaluates it
+			Object.defineProperty(scope.data, entry.localName, {
+				get: () => this.getModuleBindingValue(binding),
+				enumerable: true,
+				configurable: false,
+			});
+		});
+
+		module.instantiate();
+		module.status = "linked";
+	}
+
+	protected resolveImportBinding(
+		module: ModuleRecord,
+		exportName: string,
+		node: Node | null
+	): ModuleBinding {
+		const binding = this.resolveModuleExport(module, exportName, []);
+
+		if (binding === AmbiguousExport) {
+			throw this.createInternalThrowError(
+				Messages.AmbiguousExportSyntaxError,
+				exportName,
+				node
+			);
+		}
+
+		if (!binding) {
+			throw this.createInternalThrowError(Messages.ModuleExportSyntaxError, exportName, node);
+		}
+
+		return binding;
+	}
+
+	// ResolveExport: null if not found or circular
+	protected resolveModuleExport(
+		module: ModuleRecord,
+		exportName: string,
+		resolveSet: ModuleBinding[]
+	): ModuleBinding | typeof AmbiguousExport | null {
+		if (module.exportNames) {
+			return module.exportNames.indexOf(exportName) !== -1
+				? { module, name: exportName }
+				: null;
+		}
+
+		for (let i = 0; i < resolveSet.length; i++) {
+			if (resolveSet[i].module === module && resolveSet[i].name === exportName) {
+				return null;
+			}
+		}
+
+		resolveSet.push({ module, name: exportName });
+
+		if (hasOwnProperty.call(module.localExports, exportName)) {
+			return { module, name: module.localExports[exportName] };
+		}
+
+		if (hasOwnProperty.call(module.indirectExports, exportName)) {
+			const [specifier, importName] = module.indirectExports[exportName];
+			const requested = module.loadedModules[specifier];
+
+			// export * as ns from "x"
+			if (importName === "*") {
+				return { module: requested, name: NamespaceBindingName };
+			}
+
+			return this.resolveModuleExport(requested, importName, resolveSet);
+		}
+
+		// export * does not export default
+		if (exportName === "default") {
+			return null;
+		}
+
+		let starResolution: ModuleBinding | null = null;
+
+		for (let i = 0; i < module.starExports.length; i++) {
+			const resolution = this.resolveModuleExport(
+				module.loadedModules[module.starExports[i]],
+				exportName,
+				resolveSet
+			);
+
+			if (resolution === AmbiguousExport) {
+				return resolution;
+			}
+
+			if (resolution) {
+				if (!starResolution) {
+					starResolution = resolution;
+				} else if (
+					starResolution.module !== resolution.module ||
+					starResolution.name !== resolution.name
+				) {
+					return AmbiguousExport;
+				}
+			}
+		}
+
+		return starResolution;
+	}
+
+	protected getModuleExportedNames(module: ModuleRecord, exportStarSet: ModuleRecord[]) {
+		if (module.exportNames) {
+			return module.exportNames;
+		}
+
+		if (exportStarSet.indexOf(module) !== -1) {
+			return [];
+		}
+
+		exportStarSet.push(module);
+
+		const names = Object.keys(module.localExports).concat(Object.keys(module.indirectExports));
+
+		module.starExports.forEach(specifier => {
+			this.getModuleExportedNames(module.loadedModules[specifier], exportStarSet).forEach(
+				name => {
+					if (name !== "default" && names.indexOf(name) === -1) {
+						names.push(name);
+					}
+				}
+			);
+		});
+
+		return names;
+	}
+
+	protected getModuleBindingValue(binding: ModuleBinding): any {
+		const module = binding.module;
+
+		if (binding.name === NamespaceBindingName) {
+			return this.getModuleNamespace(module);
+		}
+
+		if (module.exportNames) {
+			const exports = module.exports;
+
+			return binding.name === "default" && !hasOwnProperty.call(exports, "default")
+				? exports
+				: exports[binding.name];
+		}
+
+		return module.scope.data[binding.name];
+	}
+
+	// import * as ns: live exports, ambiguous names are excluded
+	protected getModuleNamespace(module: ModuleRecord): any {
+		if (module.namespace) {
+			return module.namespace;
+		}
+
+		// module namespace exotic object: the exports are writable data properties which can not be
+		// assigned, their values are read from the bindings
+		const target = Object.create(null);
+		const bindings: { [name: string]: ModuleBinding } = Object.create(null);
+
+		this.getModuleExportedNames(module, [])
+			.sort()
+			.forEach(name => {
+				const binding = this.resolveModuleExport(module, name, []);
+
+				if (!binding || binding === AmbiguousExport) return;
+
+				bindings[name] = binding;
+				Object.defineProperty(target, name, {
+					value: undefined,
+					writable: true,
+					enumerable: true,
+					configurable: false,
+				});
+			});
+
+		Object.defineProperty(target, Symbol.toStringTag, { value: "Module" });
+		Object.preventExtensions(target);
+
+		const isBinding = (key: PropertyKey): key is string =>
+			typeof key === "string" && hasOwnProperty.call(bindings, key);
+		const getBindingValue = (name: string) => {
+			const value = this.getModuleBindingValue(bindings[name]);
+
+			this.assertInitialized(value, name, null);
+
+			return value;
+		};
+		const namespace = new Proxy(target, {
+			get(target, key, receiver) {
+				return isBinding(key) ? getBindingValue(key) : Reflect.get(target, key, receiver);
+			},
+			getOwnPropertyDescriptor(target, key) {
+				const descriptor = Reflect.getOwnPropertyDescriptor(target, key);
+
+				if (descriptor && isBinding(key)) {
+					descriptor.value = getBindingValue(key);
+				}
+
+				return descriptor;
+			},
+			set() {
+				return false;
+			},
+			defineProperty() {
+				return false;
+			},
+		});
+
+		moduleNamespaces.add(namespace);
+
+		return (module.namespace = namespace);
+	}
+
+	// dependencies first, a module in a cycle is evaluated once
+	protected evaluateModuleRecord(module: ModuleRecord) {
+		if (module.evaluationError) {
+			throw module.evaluationError.error;
+		}
+
+		if (module.status !== "linked") return;
+
+		module.status = "evaluating";
+
+		try {
+			module.requestedModules.forEach(specifier =>
+				this.evaluateModuleRecord(module.loadedModules[specifier])
+			);
+
+			// this is undefined in modules
+			this.setCurrentScope(module.scope);
+			this.setCurrentContext((undefined as unknown) as Context);
+
+			module.body();
+		} catch (e) {
+			module.evaluationError = { error: e };
+			throw e;
+		} finally {
+			module.status = "evaluated";
 		}
+	}
+
+	protected createErrorMessage(
+		msg: MessageItem,
+		value: string | number,
+		node?: Node | null
+	): string {
+		let message = msg[1].replace("%0", String(value));
+
+		if (node !== null) {
+			message += this.getNodePosition(node || this.lastExecNode);
+		}
+
+		return message;
+	}
+
+	protected createError<T>(message: string, error: { new (msg: string): T }): T {
+		return new error(message);
+	}
+
+	protected createThrowError<T>(message: string, error: { new (msg: string): T }): T {
+		return this.createError(message, error);
+	}
+
+	protected createInternalThrowError<T extends MessageItem>(
+		msg: T,
+		value: string | number,
+		node?: Node | null
+	) {
+		return this.createError(this.createErrorMessage(msg, value, node), msg[2]);
+	}
+
+	protected checkTimeout() {
+		if (!this.isRunning) return false;
+
+		const timeout = this.options.timeout || 0;
+
+		const now = Date.now();
+		if (now - this.execStartTime > timeout) {
+			return true;
+		}
+
+		return false;
+	}
+
+	protected getNodePosition(node: (Node & { start?: number; end?: number }) | null) {
+		if (node) {
+			const errorCode = ""; //this.source.slice(node.start, node.end);
+			return node.loc ? ` [${node.loc.start.line}:${node.loc.start.column}]${errorCode}` : "";
+		}
+
+		return "";
+	}
+
+	protected createClosure(node: Node | SlotExpression): BaseClosure {
+		let closure: BaseClosure;
+
+		// see slotGeneratorHandler
+		if (node.type === "SlotExpression") {
+			return this.slotExpressionHandler(node);
+		}
+
+		switch (node.type) {
+			case "BinaryExpression":
+				closure = this.binaryExpressionHandler(node);
+				break;
+			case "LogicalExpression":
+				closure = this.logicalExpressionHandler(node);
+				break;
+			case "UnaryExpression":
+				closure = this.unaryExpressionHandler(node);
+				break;
+			case "UpdateExpression":
+				closure = this.updateExpressionHandler(node);
+				break;
+			case "ObjectExpression":
+				closure = this.objectExpressionHandler(node);
+				break;
+			case "ArrayExpression":
+				closure = this.arrayExpressionHandler(node);
+				break;
+			case "CallExpression":
+				closure = this.callExpressionHandler(node);
+				break;
+			case "NewExpression":
+				closure = this.newExpressionHandler(node);
+				break;
+			case "MemberExpression":
+				closure = this.memberExpressionHandler(node);
+				break;
+			case "ThisExpression":
+				closure = this.thisExpressionHandler(node);
+				break;
+			case "SequenceExpression":
+				closure = this.sequenceExpressionHandler(node);
+				break;
+			case "Literal":
+				closure = this.literalHandler(node);
+				break;
+			case "Identifier":
+				closure = this.identifierHandler(node);
+				break;
+			case "AssignmentExpression":
+				closure = this.assignmentExpressionHandler(node);
+				break;
+			case "FunctionDeclaration":
+				closure = this.functionDeclarationHandler(node);
+				break;
+			case "VariableDeclaration":
+				closure = this.variableDeclarationHandler(node);
+				break;
+			case "BlockStatement":
+				closure = this.blockStatementHandler(node);
+				break;
+			case "Program":
+				closure = this.programHandler(node);
+				break;
+			case "ExpressionStatement":
+				closure = this.expressionStatementHandler(node);
+				break;
+			case "EmptyStatement":
+				closure = this.emptyStatementHandler(node);
+				break;
+			case "ReturnStatement":
+				closure = this.returnStatementHandler(node);
+				break;
+			case "FunctionExpression":
+				closure = this.functionExpressionHandler(node);
+				break;
+			case "ArrowFunctionExpression":
+				closure = this.arrowFunctionExpressionHandler(node);
+				break;
+			case "ClassDeclaration":
+				closure = this.classDeclarationHandler(node);
+				break;
+			case "TemplateLiteral":
+				closure = this.templateLiteralHandler(node);
+				break;
+			case "TaggedTemplateExpression":
+				closure = this.taggedTemplateExpressionHandler(node);
+				break;
+			case "ClassExpression":
+				closure = this.classExpressionHandler(node);
+				break;
+			case "Super":
+				closure = this.superHandler(node);
+				break;
+			case "MetaProperty":
+				closure = this.metaPropertyHandler(node);
+				break;
+			case "IfStatement":
+				closure = this.ifStatementHandler(node);
+				break;
+			case "ConditionalExpression":
+				closure = this.conditionalExpressionHandler(node);
+				break;
+			case "ForStatement":
+				closure = this.forStatementHandler(node);
+				break;
+			case "WhileStatement":
+				closure = this.whileStatementHandler(node);
+				break;
+			case "DoWhileStatement":
+				closure = this.doWhileStatementHandler(node);
+				break;
+			case "ForInStatement":
+				closure = this.forInStatementHandler(node);
+				break;
+			case "ForOfStatement":
+				closure = this.forOfStatementHandler(node);
+				break;
+			case "WithStatement":
+				closure = this.withStatementHandler(node);
+				break;
+			case "ThrowStatement":
+				closure = this.throwStatementHandler(node);
+				break;
+			case "TryStatement":
+				closure = this.tryStatementHandler(node);
+				break;
+			case "ContinueStatement":
+				closure = this.continueStatementHandler(node);
+				break;
+			case "BreakStatement":
+				closure = this.breakStatementHandler(node);
+				break;
+			case "SwitchStatement":
+				closure = this.switchStatementHandler(node);
+				break;
+			case "LabeledStatement":
+				closure = this.labeledStatementHandler(node);
+				break;
+			case "DebuggerStatement":
+				closure = this.debuggerStatementHandler(node);
+				break;
+			case "ImportDeclaration":
+			case "ExportAllDeclaration":
+				closure = this.moduleDeclarationHandler(node);
+				break;
+			case "ExportNamedDeclaration":
+				closure = this.exportNamedDeclarationHandler(node);
+				break;
+			case "ExportDefaultDeclaration":
+				closure = this.exportDefaultDeclarationHandler(node);
+				break;
+			case "ChainExpression":
+				closure = this.chainExpressionHandler(node);
+				break;
+			// yield or await outside of the positions of createGeneratorClosure
+			case "YieldExpression":
+			case "AwaitExpression":
+				throw this.createSuspensionSyntaxError(node);
+			default:
+				throw this.createInternalThrowError(Messages.NodeTypeSyntaxError, node.type, node);
+		}
+
+		const hardened = this.options.hardened || !!this.realm;
+
+		return (...args: any[]) => {
+			const timeout = this.options.timeout;
+
+			if (timeout && timeout > 0 && this.checkTimeout()) {
+				throw this.createInternalThrowError(Messages.ExecutionTimeOutError, timeout, null);
+			}
+
+			const maxSteps = this.options.maxSteps || 0;
+
+			this.steps.count++;
+
+			if (maxSteps > 0 && this.steps.count > maxSteps) {
+				throw this.createInternalThrowError(
+					Messages.ExecutionStepLimitError,
+					maxSteps,
+					null
+				);
+			}
+
+			this.lastExecNode = node;
+
+			// hardened mode: ({}).constructor.constructor is the interpreter's Function
+			// isolated realm: ({}).constructor is the copy of Object
+			return hardened ? this.hardenValue(closure(...args), node) : closure(...args);
+		};
+	}
+
+	// a==b a/b
+	protected binaryExpressionHandler(node: ESTree.BinaryExpression): BaseClosure {
+		if ((node.left as Node).type === "PrivateIdentifier") {
+			return this.privateInExpressionHandler(node);
+		}
+
+		const leftExpression = this.createClosure(node.left);
+		const rightExpression = this.createClosure(node.right);
+		const isNumericOperator = numericOperators.indexOf(node.operator) !== -1;
+
+		return () => {
+			const leftValue = leftExpression();
+			const rightValue = rightExpression();
+
+			if (isNumericOperator) {
+				this.assertBigIntOperands(node.operator, leftValue, rightValue, node);
+			}
+
+			switch (node.operator) {
+				case "==":
+					return leftValue == rightValue;
+				case "!=":
+					return leftValue != rightValue;
+				case "===":
+					return leftValue === rightValue;
+				case "!==":
+					return leftValue !== rightValue;
+				case "<":
+					return leftValue < rightValue;
+				case "<=":
+					return leftValue <= rightValue;
+				case ">":
+					return leftValue > rightValue;
+				case ">=":
+					return leftValue >= rightValue;
+				case "<<":
+					return leftValue << rightValue;
+				case ">>":
+					return leftValue >> rightValue;
+				case ">>>":
+					return leftValue >>> rightValue;
+				case "+":
+					return leftValue + rightValue;
+				case "-":
+					return leftValue - rightValue;
+				case "*":
+					return leftValue * rightValue;
+				case "**":
+					return this.exponentiate(leftValue, rightValue, node);
+				case "/":
+					return leftValue / rightValue;
+				case "%":
+					return leftValue % rightValue;
+				case "|":
+					return leftValue | rightValue;
+				case "^":
+					return leftValue ^ rightValue;
+				case "&":
+					return leftValue & rightValue;
+				case "in":
+					return leftValue in rightValue;
+				case "instanceof":
+					return leftValue instanceof rightValue;
+				default:
+					throw this.createInternalThrowError(
+						Messages.BinaryOperatorSyntaxError,
+						node.operator,
+						node
+					);
+			}
+		};
+	}
+
+	// 1n + 1 throws, but 1n + "1" and 1n + 1n are allowed
+	protected assertBigIntOperands(
+		operator: string,
+		left: any,
+		right: any,
+		node: Node
+	): void | never {
+		const isLeftBigInt = typeof left === "bigint";
+
+		if (isLeftBigInt === (typeof right === "bigint")) {
+			if (isLeftBigInt && operator === ">>>") {
+				throw this.createInternalThrowError(
+					Messages.BigIntUnsignedRightShiftTypeError,
+					"",
+					node
+				);
+			}
+
+			return;
+		}
+
+		// objects are converted by the operator, symbols throw their own TypeError
+		const other = isLeftBigInt ? right : left;
+		const type = typeof other;
+
+		if (
+			other === null ||
+			(type !== "object" &&
+				type !== "function" &&
+				type !== "symbol" &&
+				!(operator === "+" && type === "string"))
+		) {
+			throw this.createInternalThrowError(Messages.BigIntMixTypeError, "", node);
+		}
+	}
+
+	// a ** b, Math.pow does not accept BigInt
+	protected exponentiate(base: any, exponent: any, node: Node): any {
+		base = toNumeric(base);
+		exponent = toNumeric(exponent);
+
+		this.assertBigIntOperands("**", base, exponent, node);
+
+		if (typeof base !== "bigint") {
+			return Math.pow(base, exponent);
+		}
+
+		if (exponent < 0) {
+			throw this.createInternalThrowError(
+				Messages.BigIntNegativeExponentRangeError,
+				"",
+				node
+			);
+		}
+
+		const zero = BigInt(0);
+		const one = BigInt(1);
+		let result = one;
+
+		// exponentiation by squaring
+		while (exponent > zero) {
+			if (exponent & one) {
+				result *= base;
+			}
+
+			base *= base;
+			exponent >>= one;
+		}
+
+		return result;
+	}
+
+	// a && b
+	protected logicalExpressionHandler(node: ESTree.LogicalExpression): BaseClosure {
+		const leftExpression = this.createClosure(node.left);
+		const rightExpression = this.createClosure(node.right);
+
+		return () => {
+			switch (node.operator as string) {
+				case "||":
+					return leftExpression() || rightExpression();
+				case "&&":
+					return leftExpression() && rightExpression();
+				case "??": {
+					const leftValue = leftExpression();
+
+					return isNullish(leftValue) ? rightExpression() : leftValue;
+				}
+				default:
+					throw this.createInternalThrowError(
+						Messages.LogicalOperatorSyntaxError,
+						node.operator,
+						node
+					);
+			}
+		};
+	}
+
+	// protected isRootScope(node: ESTree.Expression | ESTree.Pattern): boolean {
+	// 	if (node.type === "Identifier") {
+	// 		const scope = this.getScopeFromName(node.name, this.getCurrentScope());
+	// 		return scope.name === "rootScope";
+	// 	}
+
+	// 	return false;
+	// }
+
+	// typeof a !a()
+	protected unaryExpressionHandler(node: ESTree.UnaryExpression): BaseClosure {
+		// delete a?.b
+		if (node.operator === "delete" && (node.argument as Node).type === "ChainExpression") {
+			return this.deleteChainExpressionHandler((node.argument as unknown) as ChainExpression);
+		}
+
+		switch (node.operator) {
+			case "delete":
+				const objectGetter = this.createObjectGetter(node.argument);
+				const nameGetter = this.createNameGetter(node.argument);
+				const strict = this.isStrictMode;
+				const isProperty = isPropertyReference(node.argument);
+
+				return () => {
+					// not allowed to delete root scope property
+					// rootContext has move to prototype chai, so no judgment required
+					// if (this.isRootScope(node.argument)) {
+					// 	return false;
+					// }
+
+					let obj = objectGetter();
+					let name = nameGetter();
+
+					if (isProperty) {
+						name = this.checkPropertyPolicy("deleteProperty", obj, name, node);
+
+						return this.deleteObjectProperty(obj, name, strict, node);
+					}
+
+					return deleteProperty(obj, name, strict);
+				};
+			default:
+				let expression: BaseClosure;
+				// for typeof undefined var
+				// typeof adf9ad
+				if (node.operator === "typeof" && node.argument.type === "Identifier") {
+					const objectGetter = this.createObjectGetter(node.argument);
+					const nameGetter = this.createNameGetter(node.argument);
+
+					expression = () => {
+						const name = nameGetter();
+						const value = objectGetter()[name];
+						// typeof x; let x;
+						this.assertInitialized(value, name, node);
+						return value;
+					};
+				} else {
+					expression = this.createClosure(node.argument);
+				}
+
+				return () => {
+					const value = expression();
+
+					switch (node.operator) {
+						case "-":
+							return -value;
+						case "+":
+							// +1n
+							if (typeof value === "bigint") {
+								throw this.createInternalThrowError(
+									Messages.BigIntToNumberTypeError,
+									"",
+									node
+								);
+							}
+
+							return +value;
+						case "!":
+							return !value;
+						case "~":
+							return ~value;
+						case "void":
+							return void value;
+						case "typeof":
+							return typeof value;
+						default:
+							throw this.createInternalThrowError(
+								Messages.UnaryOperatorSyntaxError,
+								node.operator,
+								node
+							);
+					}
+				};
+		}
+	}
+
+	// ++a --a
+	protected updateExpressionHandler(node: ESTree.UpdateExpression): BaseClosure {
+		const scopeGetter = this.createScopeGetter(node.argument);
+		const objectGetter = this.createObjectGetter(node.argument);
+		const nameGetter = this.createNameGetter(node.argument);
+		const strict = this.isStrictMode;
+		const isProperty = isPropertyReference(node.argument);
+
+		return () => {
+			const scope = scopeGetter && scopeGetter();
+			const obj = scope ? scope.data : objectGetter();
+			let name = nameGetter();
+
+			this.assertVariable(obj, name, node);
+
+			if (scope) {
+				this.assertMutableBinding(scope, name, node);
+			}
+
+			if (isProperty) {
+				name = this.checkPropertyPolicy("get", obj, name, node);
+			}
+
+			let value = isProperty ? this.getProperty(obj, name) : obj[name];
+			let result: any;
+
+			switch (node.operator) {
+				case "++":
+					result = node.prefix ? ++value : value++;
+					break;
+				case "--":
+					result = node.prefix ? --value : value--;
+					break;
+				default:
+					throw this.createInternalThrowError(
+						Messages.UpdateOperatorSyntaxError,
+						node.operator,
+						node
+					);
+			}
+
+			if (isProperty) {
+				this.checkPropertyPolicy("set", obj, name, node, value);
+				this.putProperty(obj, name, value, strict, node);
+			} else {
+				putValue(obj, name, value, strict);
+			}
+
+			return result;
+		};
+	}
+
+	// var o = {a: 1, b: 's', get name(){}, set name(){}  ...}
+	// var o = { [key]: 1, a, method() {}, __proto__: proto, ...obj }
+	protected objectExpressionHandler(node: ESTree.ObjectExpression) {
+		const source = this.source;
+		const items = (node.properties as ObjectExpressionProperty[]).map(property => {
+			// { ...obj }
+			if (property.type === "SpreadElement") {
+				return {
+					kind: "spread",
+					keyGetter: noop as Getter,
+					valueGetter: this.createClosure(property.argument),
+					property: null,
+					invoke: null,
+					isAnonymousFunction: false,
+				};
+			}
+
+			const key = property.key;
+			const value = property.value as FunctionNode;
+			const isMethod = property.method || property.kind !== "init";
+			let kind: string = property.kind;
+
+			// { __proto__: proto } sets the prototype, but not { ["__proto__"]: v } or { __proto__ }
+			if (
+				kind === "init" &&
+				!property.computed &&
+				!property.shorthand &&
+				!property.method &&
+				((key.type === "Identifier" && key.name === "__proto__") ||
+					(key.type === "Literal" && key.value === "__proto__"))
+			) {
+				kind = "proto";
+			}
+
+			return {
+				kind,
+				keyGetter: property.computed
+					? this.createClosure(key)
+					: this.createObjectKeyGetter(key),
+				valueGetter: isMethod ? (noop as Getter) : this.createClosure(value),
+				property,
+				// methods and accessors have home object for super.method()
+				invoke: isMethod ? this.createFunctionInvoker(value) : null,
+				// var d = { test: function(){} }, d.test.name === "test"
+				isAnonymousFunction:
+					(value.type === "FunctionExpression" ||
+						value.type === "ArrowFunctionExpression" ||
+						(value as ESTree.Node).type === "ClassExpression") &&
+					!value.id,
+			};
+		});
+
+		return () => {
+			const result = this.adoptObject({});
+			const len = items.length;
+
+			for (let i = 0; i < len; i++) {
+				const item = items[i];
+
+				if (item.kind === "spread") {
+					this.copyDataProperties(result, item.valueGetter(), node);
+					continue;
+				}
+
+				const key = toPropertyKey(item.keyGetter());
+
+				if (item.invoke) {
+					const property = item.property!;
+					const value = property.value as FunctionNode;
+					const method = this.createMethodFunction(
+						item.invoke,
+						this.getCurrentScope(),
+						result
+					);
+					const prefix = item.kind === "init" ? "" : `${item.kind} `;
+
+					this.defineFunctionProperties(
+						method,
+						prefix + getPropertyKeyName(key),
+						getExpectedArgumentCount(value.params),
+						value,
+						source,
+						property
+					);
+
+					if (item.kind === "init") {
+						// var d = { test(){} }
+						defineDataProperty(result, key, method);
+					} else {
+						// keep the other accessor: get a(){} set a(v){}
+						const descriptor = Object.getOwnPropertyDescriptor(result, key);
+
+						Object.defineProperty(result, key, {
+							get: item.kind === "get" ? method : descriptor && descriptor.get,
+							set: item.kind === "set" ? method : descriptor && descriptor.set,
+							enumerable: true,
+							configurable: true,
+						});
+					}
+					continue;
+				}
+
+				const value = item.valueGetter();
+
+				if (item.kind === "proto") {
+					// ignored if not an object or null
+					if (value === null || typeof value === "object" || isFunction(value)) {
+						Object.setPrototypeOf(result, value);
+					}
+					continue;
+				}
+
+				// set function.name
+				// var d = { test: function(){} }
+				// var d = { [Symbol.iterator]: () => {} }
+				if (item.isAnonymousFunction) {
+					defineFunctionName(value, getPropertyKeyName(key));
+				}
+
+				defineDataProperty(result, key, value);
+			}
+
+			return result;
+		};
+	}
+
+	// [1,2,3]
+	protected arrayExpressionHandler(node: ESTree.ArrayExpression) {
+		const listGetter = this.createListGetter(node.elements);
+
+		return () => this.adoptObject(listGetter());
+	}
+
+	// [a, ...b] or fn(a, ...b)
+	protected createListGetter(
+		elements: Array<ESTree.Expression | ESTree.SpreadElement | null>
+	): () => any[] {
+		//fix: [,,,1,2]
+		const items = elements.map(element => {
+			if (!element) {
+				return null;
+			}
+
+			if (element.type === "SpreadElement") {
+				const argumentGetter = this.createClosure(element.argument);
+
+				return {
+					spread: true,
+					getter: () => this.getIterator(argumentGetter(), element),
+				};
+			}
+
+			return {
+				spread: false,
+				getter: this.createClosure(element),
+			};
+		});
+
+		return () => {
+			const len = items.length;
+			const result: any[] = [];
+			for (let i = 0; i < len; i++) {
+				const item = items[i];
+				if (!item) {
+					// keep the hole
+					result.length++;
+				} else if (item.spread) {
+					const iterator = item.getter() as Iterator<any>;
+					let step: IteratorResult<any>;
+
+					while (!(step = iterator.next()).done) {
+						result.push(this.hardenValue(step.value, null));
+					}
+				} else {
+					result.push(item.getter());
+				}
+			}
+
+			return result;
+		};
+	}
+
+	// hardened mode: host Function and eval are replaced by the interpreter's own, the other escape hatches throw
+	protected hardenValue(value: any, node: Node | null): any {
+		// isolated realm: host built-in objects are replaced by the copies of the realm
+		if (this.realm) {
+			value = this.realm.importValue(value);
+		}
+
+		if (!this.options.hardened || typeof value !== "function") {
+			return value;
+		}
+
+		const item = hardenedValues.get(value);
+
+		if (!item) {
+			return value;
+		}
+
+		if (item.replacement) {
+			return item.replacement;
+		}
+
+		throw this.createInternalThrowError(Messages.HardenedModeTypeError, item.name, node);
+	}
+
+	// hardened mode: obj.__proto__ or obj["__defineGetter__"] throws
+	protected assertHardenedKey(key: any, node: Node): any {
+		if (!this.options.hardened) {
+			return key;
+		}
+
+		// ToPropertyKey once
+		const propertyKey = typeof key === "object" && key !== null ? toPropertyKey(key) : key;
+
+		if (typeof propertyKey === "string" && hardenedKeys.indexOf(propertyKey) !== -1) {
+			throw this.createInternalThrowError(Messages.HardenedModeTypeError, propertyKey, node);
+		}
+
+		return propertyKey;
+	}
+
+	// hardened mode: host functions can not receive host Function from scripts,
+	// Reflect.construct(...Object.values(Object.getOwnPropertyDescriptor(Function.prototype, "constructor")))
+	protected assertHardenedArguments(args: any[], node: Node): void {
+		if (!this.options.hardened) {
+			return;
+		}
+
+		const seen: any[] = [];
+		const check = (list: any[]) => {
+			seen.push(list);
+
+			for (let i = 0; i < list.length; i++) {
+				const value = list[i];
+
+				if (typeof value === "function" && hardenedValues.has(value)) {
+					throw this.createInternalThrowError(
+						Messages.HardenedModeTypeError,
+						hardenedValues.get(value)!.name,
+						node
+					);
+				}
+
+				// Reflect.apply(Reflect.construct, null, [F, [code]])
+				if (Array.isArray(value) && seen.indexOf(value) === -1) {
+					check(value);
+				}
+			}
+		};
+
+		check(args);
+	}
+
+	// policy option: get, set and deleteProperty hooks, returns the property key
+	protected checkPropertyPolicy(
+		hookName: "get" | "set" | "deleteProperty",
+		obj: any,
+		key: any,
+		node: Node,
+		value?: any
+	): any {
+		const policy = this.options.policy;
+		const hook = policy && policy[hookName];
+
+		if (!hook) {
+			return key;
+		}
+
+		// ToPropertyKey once
+		const propertyKey = toPropertyKey(key);
+		const allowed =
+			hookName === "set"
+				? policy!.set!(obj, propertyKey, value)
+				: (hook as (target: any, key: PropertyKey) => boolean).call(
+						policy,
+						obj,
+						propertyKey
+				  );
+
+		if (!allowed) {
+			throw this.createInternalThrowError(
+				Messages.AccessDenied,
+				`${hookName === "deleteProperty" ? "delete" : hookName} ${String(propertyKey)}`,
+				node
+			);
+		}
+
+		return propertyKey;
+	}
+
+	// { ...source } and { ...rest } = source: the get hook is checked for every copied key
+	protected copyDataProperties(
+		target: any,
+		source: any,
+		node: Node,
+		excludedKeys: PropertyKey[] = []
+	): any {
+		return copyDataProperties(
+			target,
+			source,
+			excludedKeys,
+			(from, key) => from[this.checkPropertyPolicy("get", source, key, node)]
+		);
+	}
+
+	// policy option: call hook
+	protected checkCallPolicy(func: Function, thisArg: any, args: any[], node: Node): void {
+		const policy = this.options.policy;
+
+		if (policy && policy.call && !policy.call(func, thisArg, args)) {
+			throw this.createInternalThrowError(
+				Messages.AccessDenied,
+				`call ${func.name || "anonymous"}`,
+				node
+			);
+		}
+	}
+
+	// policy option: construct hook
+	protected checkConstructPolicy(func: Function, args: any[], node: Node): void {
+		const policy = this.options.policy;
+
+		if (policy && policy.construct && !policy.construct(func, args)) {
+			throw this.createInternalThrowError(
+				Messages.AccessDenied,
+				`construct ${func.name || "anonymous"}`,
+				node
+			);
+		}
+	}
+
+	// func.bind(thisArg), the call hook of the policy option is checked with the arguments
+	protected bindCall(func: Function, thisArg: any, node: Node): (...args: any[]) => any {
+		const policy = this.options.policy;
+
+		if (!policy || !policy.call) {
+			return func.bind(thisArg);
+		}
+
+		// obj.method(await a): the callee is bound before the arguments, see createSlotGeneratorClosure
+		if (policyCalls.has(func)) {
+			return func as (...args: any[]) => any;
+		}
+
+		const call = (...args: any[]) => {
+			this.checkCallPolicy(func, thisArg, args, node);
+
+			return func.apply(thisArg, args);
+		};
+
+		policyCalls.add(call);
+
+		return call;
+	}
+
+	protected safeObjectGet(obj: any, key: any, node: Node) {
+		return this.hardenValue(this.getProperty(obj, key), node);
+	}
+
+	// obj[key] of scripts, see Realm#get
+	protected getProperty(obj: any, key: any): any {
+		return this.realm ? this.realm.get(obj, key) : obj[key];
+	}
+
+	// obj[key] = value of scripts
+	// lockdown: writes to the frozen built-in objects throw in sloppy mode code too,
+	// obj.toString = f defines an own property instead of failing on the frozen Object.prototype
+	protected putProperty(obj: any, key: any, value: any, strict: boolean, node: Node): any {
+		const realm = this.realm;
+
+		// import * as ns from "a"; ns.a = 1 fails like the write of a read-only property
+		if (strict && typeof obj === "object" && moduleNamespaces.has(obj)) {
+			throw this.createInternalThrowError(
+				Messages.ModuleNamespaceAssignTypeError,
+				getPropertyKeyName(toPropertyKey(key)),
+				node
+			);
+		}
+
+		if (realm && realm.isFrozen() && (typeof obj === "object" || isFunction(obj)) && obj) {
+			const propertyKey = toPropertyKey(key);
+
+			if (realm.isIntrinsic(obj)) {
+				throw this.createInternalThrowError(
+					Messages.FrozenIntrinsicAssignTypeError,
+					getPropertyKeyName(propertyKey),
+					node
+				);
+			}
+
+			if (realm.canOverride(obj, propertyKey)) {
+				defineDataProperty(obj, propertyKey, value);
+
+				return value;
+			}
+
+			return putValue(obj, propertyKey, value, strict);
+		}
+
+		return putValue(obj, key, value, strict);
+	}
+
+	// delete obj[key] of scripts
+	// lockdown: deletes of the frozen built-in objects throw in sloppy mode code too
+	protected deleteObjectProperty(obj: any, key: any, strict: boolean, node: Node): boolean {
+		const realm = this.realm;
+
+		if (realm && realm.isFrozen() && realm.isIntrinsic(obj)) {
+			throw this.createInternalThrowError(
+				Messages.FrozenIntrinsicDeleteTypeError,
+				getPropertyKeyName(toPropertyKey(key)),
+				node
+			);
+		}
+
+		return deleteProperty(obj, key, strict);
+	}
+
+	// objects created by scripts: [] {} /a/, see Realm#adoptObject
+	protected adoptObject<T>(obj: T): T {
+		return this.realm ? this.realm.adoptObject(obj) : obj;
+	}
+
+	protected createCallFunctionGetter(
+		node: Node & { start?: number; end?: number },
+		optional: boolean = false
+	): Getter {
+		// (a?.b)() keeps this
+		if (node.type === "ChainExpression" && node.expression.type === "MemberExpression") {
+			const funcGetter = this.createCallFunctionGetter(node.expression, optional);
+			const source = this.source;
+
+			return () => {
+				const func = funcGetter();
+
+				if (func === OptionalChainShortCircuit && !optional) {
+					const name = source.slice(node.start, node.end);
+					return this.createNotCallableFunction(name, node);
+				}
+
+				return func;
+			};
+		}
+
+		switch (node.type) {
+			case "MemberExpression":
+				// super.method(...)
+				if (node.object.type === "Super") {
+					const superMemberGetter = this.superMemberExpressionHandler(node);
+
+					return () => {
+						const func = this.hardenValue(superMemberGetter(), node);
+
+						if (!func || !isFunction(func)) {
+							const name = this.source.slice(node.start, node.end);
+							return this.createNotCallableFunction(name, node);
+						}
+
+						// super.constructor(...) in a static method is Function
+						if (func.__IS_FUNCTION_FUNC) {
+							return (...args: string[]) => {
+								return (func as typeof internalFunction)(
+									new InternalInterpreterReflection(this),
+									...args
+								);
+							};
+						}
+
+						if (func.__IS_EVAL_FUNC) {
+							return (code?: string) => {
+								return (func as typeof internalEval)(
+									new InternalInterpreterReflection(this),
+									code,
+									true
+								);
+							};
+						}
+
+						return this.bindCall(func, this.getCurrentContext(), node);
+					};
+				}
+
+				const objectGetter = this.createClosure(node.object);
+				const keyGetter = this.createMemberKeyGetter(node);
+				const source = this.source;
+				const isOptionalObject = !!(node as OptionalNode).optional;
+				const isPrivate = (node.property as Node).type === "PrivateIdentifier";
+
+				return () => {
+					const obj = objectGetter();
+
+					// a?.b() or a?.b.c()
+					if (obj === OptionalChainShortCircuit || (isOptionalObject && isNullish(obj))) {
+						return OptionalChainShortCircuit;
+					}
+
+					const key = keyGetter();
+					const func = isPrivate
+						? this.privateGet(obj, key, node)
+						: this.safeObjectGet(
+								obj,
+								this.checkPropertyPolicy("get", obj, key, node),
+								node
+						  );
+
+					// a.b?.()
+					if (optional && isNullish(func)) {
+						return OptionalChainShortCircuit;
+					}
+
+					if (!func || !isFunction(func)) {
+						const name = source.slice(node.start, node.end);
+						return this.createNotCallableFunction(name, node);
+					}
+
+					// obj.eval = eval
+					// obj.eval(...)
+					if (func.__IS_EVAL_FUNC) {
+						return (code?: string) => {
+							return (func as typeof internalEval)(
+								new InternalInterpreterReflection(this),
+								code,
+								true
+							);
+						};
+					}
+
+					// obj.func = Function
+					// obj.func(...)
+					if (func.__IS_FUNCTION_FUNC) {
+						return (...args: string[]) => {
+							return (func as typeof internalFunction)(
+								new InternalInterpreterReflection(this),
+								...args
+							);
+						};
+					}
+
+					// method call
+					// eg：obj.say(...)
+					// eg: obj.say.call(...)
+					// eg: obj.say.apply(...)
+					// ======================
+					// obj.func(...)
+					// func = func.bind(obj)
+					// tips:
+					// func(...) -> func.bind(obj)(...)
+					// func.call(...) -> obj.func.call.bind(obj.func)(...)
+					// func.apply(...) -> obj.func.apply.bind(obj.func)(...)
+					// ...others
+					return this.bindCall(func, obj, node);
+				};
+			default:
+				// test() or (0,test)() or a[1]() ...
+				const closure = this.createClosure(node);
+				const strict = this.isStrictMode;
+
+				return () => {
+					let name: string = "";
+					if (node.type === "Identifier") {
+						name = node.name;
+					}
+					// const name: string = (<ESTree.Identifier>node).name;
+					const func = closure();
+
+					// a?.()() or a?.()
+					if (func === OptionalChainShortCircuit || (optional && isNullish(func))) {
+						return OptionalChainShortCircuit;
+					}
+
+					if (!func || !isFunction(func)) {
+						return this.createNotCallableFunction(name, node);
+					}
+
+					// https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/eval
+					// var eval = eval;
+					// function test(){
+					//    eval(...); //note: use local scope in eval5，but in Browser is use global scope
+					// }
+					if (node.type === "Identifier" && func.__IS_EVAL_FUNC && name === "eval") {
+						return (code?: string) => {
+							const scope = this.getScopeFromName(name, this.getCurrentScope());
+							const useGlobalScope =
+								scope.name === SuperScopeName ||
+								// !scope.parent || // super scope
+								scope.name === GlobalScopeName ||
+								// this.globalScope === scope ||
+								scope.name === RootScopeName;
+							// use local scope if calling eval in super scope
+							return (func as typeof internalEval)(
+								new InternalInterpreterReflection(this),
+								code,
+								!useGlobalScope,
+								strict
+							);
+						};
+					}
+					// use global scope
+					// var g_eval = eval;
+					// g_eval("a+1");
+					//(0,eval)(...) ...eval alias
+					if (func.__IS_EVAL_FUNC) {
+						return (code?: string) => {
+							return (func as typeof internalEval)(
+								new InternalInterpreterReflection(this),
+								code,
+								true
+							);
+						};
+					}
+
+					// Function('a', 'b', 'return a+b')
+					if (func.__IS_FUNCTION_FUNC) {
+						return (...args: string[]) => {
+							return (func as typeof internalFunction)(
+								new InternalInterpreterReflection(this),
+								...args
+							);
+						};
+					}
+
+					// function f() { "use strict"; this } f(): this is undefined
+					let ctx = strictFunctions.has(func)
+						? undefined
+						: this.options.globalContextInFunction;
+					// with(obj) {
+					//     test() // test.call(obj, ...)
+					// }
+					if (node.type === "Identifier") {
+						const scope = this.getIdentifierScope(node);
+						if (scope.name === WithScopeName) {
+							ctx = scope.data;
+						}
+					}
+
+					// function call
+					// this = undefined
+					// tips:
+					// test(...) === test.call(undefined, ...)
+					// fix: alert.call({}, ...) Illegal invocation
+					return this.bindCall(func, ctx, node);
+				};
+		}
+	}
+
+	// the arguments are evaluated before the callee is checked: a(b()) calls b if a is not a function
+	protected createNotCallableFunction(name: string, node: Node): (...args: any[]) => never {
+		return () => {
+			throw this.createInternalThrowError(
+				Messages.FunctionUndefinedReferenceError,
+				name,
+				node
+			);
+		};
+	}
+
+	// func()
+	protected callExpressionHandler(node: ESTree.CallExpression): BaseClosure {
+		if (node.callee.type === "Super") {
+			return this.superCallExpressionHandler(node);
+		}
+
+		const funcGetter = this.createCallFunctionGetter(
+			node.callee,
+			!!(node as OptionalNode).optional
+		);
+		const argsGetter = this.createListGetter(node.arguments);
+		return () => {
+			const func = funcGetter();
+
+			// arguments are not evaluated: a?.b(c())
+			if (func === OptionalChainShortCircuit) {
+				return func;
+			}
+
+			const args = argsGetter();
+
+			this.assertHardenedArguments(args, node);
+
+			return func(...args);
+		};
+	}
+
+	// `Hello ${name}`
+	protected templateLiteralHandler(node: ESTree.TemplateLiteral): BaseClosure {
+		const quasis = node.quasis.map(quasi => quasi.value.cooked);
+		const expressions = node.expressions.map(expression => this.createClosure(expression));
+
+		return () => {
+			let result = quasis[0];
+
+			for (let i = 0; i < expressions.length; i++) {
+				// ToString, a symbol throws
+				result = result.concat(expressions[i](), quasis[i + 1]);
+			}
+
+			return result;
+		};
+	}
+
+	// html`<div>${name}</div>`
+	protected taggedTemplateExpressionHandler(node: ESTree.TaggedTemplateExpression): BaseClosure {
+		const tagGetter = this.createCallFunctionGetter(node.tag);
+		const expressions = node.quasi.expressions.map(expression =>
+			this.createClosure(expression)
+		);
+		// the strings array is created once per call site
+		let strings: TemplateStringsArray | null = null;
+
+		return () => {
+			const tag = tagGetter();
+
+			if (!strings) {
+				const quasis = node.quasi.quasis;
+				// cooked is null for invalid escapes in tagged templates
+				const cooked: any = quasis.map(quasi =>
+					quasi.value.cooked === null ? undefined : quasi.value.cooked
+				);
+
+				Object.defineProperty(cooked, "raw", {
+					value: Object.freeze(quasis.map(quasi => quasi.value.raw)),
+					writable: false,
+					enumerable: false,
+					configurable: false,
+				});
+
+				strings = Object.freeze(cooked) as TemplateStringsArray;
+			}
+
+			return tag(strings, ...expressions.map(expression => expression()));
+		};
+	}
+
+	// var f = function() {...}
+	protected functionExpressionHandler(
+		node:
+			| (ESTree.FunctionExpression & { start?: number; end?: number })
+			| (ESTree.FunctionDeclaration & { start?: number; end?: number })
+	): BaseClosure {
+		const self = this;
+		const source = this.source;
+		const invoke = this.createFunctionInvoker(node);
+
+		return () => {
+			// bind current scope
+			const runtimeScope = self.getCurrentScope();
+
+			// async function () {}: not a constructor
+			const func = node.async
+				? createFunctionWithoutPrototype((thisValue, args, argumentsObject) =>
+						invoke(runtimeScope, thisValue, args, func, argumentsObject, {
+							func,
+							homeObject: undefined,
+							newTarget: undefined,
+							thisValue,
+						})
+				  )
+				: function (this: any, ...args: any[]) {
+						return invoke(runtimeScope, this, args, func, arguments, {
+							func,
+							homeObject: undefined,
+							// new f() or Reflect.construct(f, args, newTarget)
+							newTarget: new.target,
+							thisValue: this,
+						});
+				  };
+
+			this.defineFunctionProperties(
+				func,
+				node.id ? node.id.name : "",
+				getExpectedArgumentCount(node.params),
+				node,
+				source
+			);
+
+			return func;
+		};
+	}
+
+	// var f = () => {...}
+	protected arrowFunctionExpressionHandler(node: ArrowFunctionNode): BaseClosure {
+		const self = this;
+		const source = this.source;
+		const invoke = this.createFunctionInvoker(node);
+
+		return () => {
+			// bind current scope and this
+			const runtimeScope = self.getCurrentScope();
+			const context = self.getCurrentContext();
+
+			const func = createFunctionWithoutPrototype((thisValue, args) =>
+				invoke(runtimeScope, context, args, func)
+			);
+
+			nonConstructors.add(func);
+
+			this.defineFunctionProperties(
+				func,
+				node.id ? node.id.name : "",
+				getExpectedArgumentCount(node.params),
+				node,
+				source
+			);
+
+			return func;
+		};
+	}
+
+	// compile params and body, return a closure that runs the body with given this and args
+	protected createFunctionInvoker(node: FunctionNode): FunctionInvoker {
+		const self = this;
+		const oldDeclVars = this.collectDeclVars;
+		const oldDeclFuncs = this.collectDeclFuncs;
+		const oldDeclLexicals = this.collectDeclLexicals;
+		this.collectDeclVars = Object.create(null);
+		this.collectDeclFuncs = Object.create(null);
+		this.collectDeclLexicals = createLexicalDeclarations(false);
+		const name = node.id ? node.id.name : ""; /**anonymous*/
+		const isArrow = node.type === "ArrowFunctionExpression";
+		let generatorBodyClosure: GeneratorClosure | null = null;
+		// function () { "use strict" } or any function in strict mode code
+		const oldStrictMode = this.isStrictMode;
+		const strict = (this.isStrictMode =
+			oldStrictMode ||
+			(node.body.type === "BlockStatement" && hasUseStrictDirective(node.body.body)));
+		// sloppy mode, simple parameter list and the body may use arguments
+		const mappedNames =
+			!strict &&
+			!isArrow &&
+			typeof Proxy !== "undefined" &&
+			node.params.every(param => param.type === "Identifier") &&
+			/\b(arguments|eval)\b/.test(this.source.slice(node.start, node.end))
+				? node.params.map(param => (param as ESTree.Identifier).name)
+				: null;
+
+		if (strict) {
+			strictFunctionNodes.add(node);
+		}
+
+		const paramsBinder = this.createParamsBinder(node.params);
+		// set scope
+		// let/const/class of function body are added to the function scope
+		let bodyClosure: BaseClosure = noop;
+		if (node.async && node.generator) {
+			throw this.createInternalThrowError(
+				Messages.NodeTypeSyntaxError,
+				"AsyncGeneratorFunction",
+				node
+			);
+		} else if (node.body.type === "BlockStatement" && (node.generator || node.async)) {
+			// function* () {} or async function () {}
+			generatorBodyClosure = this.programGeneratorHandler(node.body);
+		} else if (node.async) {
+			// async () => await a
+			const expressionClosure = this.createGeneratorClosure(node.body);
+			generatorBodyClosure = function* () {
+				return new Return(yield* expressionClosure());
+			};
+		} else if (node.body.type === "BlockStatement") {
+			bodyClosure = this.programHandler(node.body);
+		} else {
+			// () => a + b
+			const expressionClosure = this.createClosure(node.body);
+			bodyClosure = () => new Return(expressionClosure());
+		}
+
+		const declVars = this.collectDeclVars;
+		const declFuncs = this.collectDeclFuncs;
+		const declLexicals = this.collectDeclLexicals;
+
+		this.collectDeclVars = oldDeclVars;
+		this.collectDeclFuncs = oldDeclFuncs;
+		this.collectDeclLexicals = oldDeclLexicals;
+		this.isStrictMode = oldStrictMode;
+
+		const hardened = this.options.hardened || !!this.realm;
+		const hasArgumentsDeclaration =
+			hasOwnProperty.call(declFuncs, "arguments") ||
+			hasOwnProperty.call(declLexicals.names, "arguments");
+
+		return (runtimeScope, context, args, func, argumentsObject, env) => {
+			self.callStack.push(`${name}`);
+
+			const prevScope = self.getCurrentScope();
+			const currentScope = createScope(
+				runtimeScope,
+				`FunctionScope(${name})`,
+				declLexicals.consts
+			);
+			if (env) {
+				currentScope.env = env;
+			}
+			self.setCurrentScope(currentScope);
+
+			self.addDeclarationsToScope(declVars, declFuncs, currentScope);
+
+			// arrow function has no own name binding and arguments
+			if (!isArrow) {
+				// var t = function(){ typeof t } // function
+				// t = function(){ typeof t } // function
+				// z = function tx(){ typeof tx } // function
+				// but
+				// d = { say: function(){ typeof say } } // undefined
+				if (name) {
+					currentScope.data[name] = func;
+				}
+
+				// init arguments var, unless function arguments() {} or let arguments is declared
+				if (!hasArgumentsDeclaration) {
+					currentScope.data["arguments"] =
+						mappedNames && argumentsObject
+							? createMappedArgumentsObject(
+									argumentsObject,
+									mappedNames,
+									currentScope.data,
+									func
+							  )
+							: argumentsObject;
+				}
+			}
+
+			// sloppy mode: this is globalContextInFunction if null or undefined, primitives are boxed
+			if (!strict && !isArrow) {
+				context = isNullish(context)
+					? self.options.globalContextInFunction
+					: Object(context);
+			}
+
+			// hardened mode: callbacks called by the host, [Function].forEach(F => F(code))
+			// isolated realm: [Object.prototype].forEach(proto => proto.a = 1)
+			if (hardened) {
+				context = self.hardenValue(context, node);
+				args = args.map(arg => self.hardenValue(arg, node));
+			}
+
+			// init this
+			const prevContext = self.getCurrentContext();
+			//for ThisExpression, default params may use this
+			self.setCurrentContext(context);
+
+			paramsBinder(args, currentScope.data);
+
+			self.addLexicalDeclarationsToScope(declLexicals, currentScope);
+
+			// function* () {}: params are bound now, the body runs on next()
+			// async function () {}: the body runs now until the first await
+			if (generatorBodyClosure) {
+				const state: ExecutionState = {
+					scope: currentScope,
+					context,
+					callStack: self.callStack.concat([]),
+				};
+				const result = node.async
+					? self.runAsyncFunction(generatorBodyClosure, state)
+					: self.createGenerator(generatorBodyClosure, state, func.prototype);
+
+				self.setCurrentContext(prevContext);
+				self.setCurrentScope(prevScope);
+				self.callStack.pop();
+
+				return result;
+			}
+
+			const result = bodyClosure();
+
+			//reset
+			self.setCurrentContext(prevContext);
+			self.setCurrentScope(prevScope);
+
+			self.callStack.pop();
+
+			if (result instanceof Return) {
+				return result.value;
+			}
+		};
+	}
+
+	protected defineFunctionProperties(
+		func: (...args: any[]) => any,
+		name: string,
+		length: number,
+		node: Node & { start?: number; end?: number },
+		source: string,
+		// { method() {} } starts with the key
+		sourceNode: Node & { start?: number; end?: number } = node
+	) {
+		defineFunctionName(func, name);
+
+		let sourceText = source.slice(sourceNode.start, sourceNode.end);
+
+		// class A { static method() {} }: static is not part of the method
+		if (sourceNode.type === "MethodDefinition" && sourceNode.static) {
+			sourceText = sourceText.replace(/^static\s*/, "");
+		}
+
+		functionSources.set(func, sourceText);
+		Object.setPrototypeOf(
+			func,
+			this.realm ? this.realm.importValue(FunctionPrototype) : FunctionPrototype
+		);
+
+		if (strictFunctionNodes.has(node)) {
+			strictFunctions.add(func);
+		}
+
+		// function* () {}: prototype of generator objects, not a constructor
+		if ((node as FunctionNode).generator) {
+			Object.defineProperty(func, "prototype", {
+				value: Object.create(
+					this.realm ? this.realm.importValue(GeneratorPrototype) : GeneratorPrototype
+				),
+				writable: true,
+				enumerable: false,
+				configurable: false,
+			});
+
+			nonConstructors.add(func);
+		} else if (hasOwnProperty.call(func, "prototype") && func.prototype) {
+			// new F() inherits from Object.prototype of the realm
+			this.adoptObject(func.prototype);
+		}
+
+		if ((node as FunctionNode).async) {
+			nonConstructors.add(func);
+		}
+
+		Object.defineProperty(func, "length", {
+			value: length,
+			writable: false,
+			enumerable: false,
+			configurable: true,
+		});
+	}
+
+	// new Ctrl()
+	protected newExpressionHandler(node: ESTree.NewExpression): BaseClosure {
+		const source = this.source;
+		const expression = this.createClosure(node.callee);
+		const argsGetter = this.createListGetter(node.arguments);
+
+		return () => {
+			const construct = expression();
+			// new a(b()) calls b if a is not a constructor
+			const args = argsGetter();
+
+			this.assertHardenedArguments(args, node);
+
+			if (
+				!isFunction(construct) ||
+				construct.__IS_EVAL_FUNC ||
+				nonConstructors.has(construct)
+			) {
+				const callee = <ESTree.Expression & { start?: number; end?: number }>node.callee;
+				const name = source.slice(callee.start, callee.end);
+
+				throw this.createInternalThrowError(Messages.IsNotConstructor, name, node);
+			}
+
+			this.checkConstructPolicy(construct, args, node);
+
+			// new A(), A is class
+			const classConstruct = classConstructs.get(construct);
+			if (classConstruct) {
+				return classConstruct(args, construct);
+			}
+
+			// new Function(...)
+			if (construct.__IS_FUNCTION_FUNC) {
+				return (construct as typeof internalFunction)(
+					new InternalInterpreterReflection(this),
+					...args
+				);
+			}
+
+			return new construct(...args);
+		};
+	}
+
+	// a.b a['b']
+	protected memberExpressionHandler(node: ESTree.MemberExpression): BaseClosure {
+		if (node.object.type === "Super") {
+			return this.superMemberExpressionHandler(node);
+		}
+
+		const objectGetter = this.createClosure(node.object);
+		const keyGetter = this.createMemberKeyGetter(node);
+		const isOptional = !!(node as OptionalNode).optional;
+		const isPrivate = (node.property as Node).type === "PrivateIdentifier";
+
+		return () => {
+			const obj = objectGetter();
+
+			// a?.b.c
+			if (obj === OptionalChainShortCircuit || (isOptional && isNullish(obj))) {
+				return OptionalChainShortCircuit;
+			}
+
+			let key = keyGetter();
+
+			// this.#a
+			if (isPrivate) {
+				return this.privateGet(obj, key, node);
+			}
+
+			return this.getProperty(obj, this.checkPropertyPolicy("get", obj, key, node));
+		};
+	}
+
+	// #a in obj
+	protected privateInExpressionHandler(node: ESTree.BinaryExpression): BaseClosure {
+		const privateIdentifier = (node.left as Node) as PrivateIdentifier;
+		const rightExpression = this.createClosure(node.right);
+
+		return () => {
+			const privateName = this.getPrivateName(privateIdentifier);
+			const obj = rightExpression();
+
+			if (obj === null || (typeof obj !== "object" && !isFunction(obj))) {
+				throw this.createInternalThrowError(
+					Messages.PrivateInOperatorTypeError,
+					String(obj),
+					node
+				);
+			}
+
+			return privateName.objects.has(obj);
+		};
+	}
+
+	// a?.b a?.() a?.[b]
+	protected chainExpressionHandler(node: ChainExpression): BaseClosure {
+		const expression = this.createClosure(node.expression);
+
+		return () => {
+			const value = expression();
+
+			return value === OptionalChainShortCircuit ? undefined : value;
+		};
+	}
+
+	// delete a?.b is true if a is null or undefined
+	protected deleteChainExpressionHandler(node: ChainExpression): BaseClosure {
+		const expression = node.expression;
+
+		if (expression.type !== "MemberExpression") {
+			const closure = this.chainExpressionHandler(node);
+
+			return () => {
+				closure();
+				return true;
+			};
+		}
+
+		const objectGetter = this.createClosure(expression.object);
+		const keyGetter = this.createMemberKeyGetter(expression);
+		const isOptional = !!(expression as OptionalNode).optional;
+
+		return () => {
+			const obj = objectGetter();
+
+			if (obj === OptionalChainShortCircuit || (isOptional && isNullish(obj))) {
+				return true;
+			}
+
+			return delete obj[this.checkPropertyPolicy("deleteProperty", obj, keyGetter(), node)];
+		};
+	}
+
+	//this
+	protected thisExpressionHandler(node: ESTree.ThisExpression): BaseClosure {
+		return () => {
+			const context: unknown = this.getCurrentContext();
+
+			// derived class constructor before super()
+			if (context === Uninitialized) {
+				throw this.createInternalThrowError(
+					Messages.SuperNotCalledReferenceError,
+					"",
+					node
+				);
+			}
+
+			return context;
+		};
+	}
+
+	// class A {...}
+	protected classDeclarationHandler(node: ESTree.ClassDeclaration): BaseClosure {
+		const name = node.id!.name;
+		const classClosure = this.createClassClosure(node);
+
+		this.lexicalDeclaration(name, "class");
+
+		return () => {
+			// declarations are always in the current block
+			this.getCurrentScope().data[name] = classClosure();
+
+			return EmptyStatementReturn;
+		};
+	}
+
+	// var A = class {...}
+	protected classExpressionHandler(node: ESTree.ClassExpression): BaseClosure {
+		return this.createClassClosure(node);
+	}
+
+	protected createClassClosure(node: ClassNode): BaseClosure {
+		const self = this;
+		const source = this.source;
+		const name = node.id ? node.id.name : "";
+		const isDerived = !!node.superClass;
+		// class A {} has an inner const binding A
+		const classConsts: ConstDeclarations = Object.create(null);
+		let constructorInvoker: FunctionInvoker | null = null;
+		let constructorLength = 0;
+		// #a -> "#a", private names are created for every evaluation of the class
+		const privateNames: string[] = [];
+		const elements: {
+			type: "method" | "field" | "block";
+			keyGetter: Getter;
+			// "#a" of private methods and fields
+			privateName: string | null;
+			kind: "method" | "get" | "set" | "field" | "block";
+			isStatic: boolean;
+			// method, field initializer or static block
+			invoke: FunctionInvoker | null;
+			node: FunctionNode | null;
+			// source text of methods
+			definition: Node | null;
+			isAnonymousFunction: boolean;
+		}[] = [];
+
+		if (name) {
+			classConsts[name] = true;
+		}
+
+		// all parts of a class are strict mode code
+		const oldStrictMode = this.isStrictMode;
+		this.isStrictMode = true;
+
+		const superClassClosure = node.superClass ? this.createClosure(node.superClass) : null;
+
+		(node.body.body as ClassElement[]).forEach(element => {
+			// static { ... } runs like a method
+			if (element.type === "StaticBlock") {
+				elements.push({
+					type: "block",
+					keyGetter: noop,
+					privateName: null,
+					kind: "block",
+					isStatic: true,
+					invoke: this.createFunctionInvoker({
+						type: "FunctionExpression",
+						id: null,
+						params: [],
+						body: { type: "BlockStatement", body: element.body },
+						generator: false,
+						async: false,
+					}),
+					node: null,
+					definition: null,
+					isAnonymousFunction: false,
+				});
+				return;
+			}
+
+			if (element.type === "MethodDefinition" && element.kind === "constructor") {
+				constructorInvoker = this.createFunctionInvoker(element.value);
+				constructorLength = getExpectedArgumentCount(element.value.params);
+				return;
+			}
+
+			const key = element.key as Node;
+			const privateName = key.type === "PrivateIdentifier" ? `#${key.name}` : null;
+
+			if (privateName && privateNames.indexOf(privateName) === -1) {
+				privateNames.push(privateName);
+			}
+
+			const keyGetter =
+				privateName !== null
+					? noop
+					: element.computed
+					? this.createClosure(key)
+					: this.createObjectKeyGetter(key as ESTree.Expression);
+
+			if (element.type === "MethodDefinition") {
+				elements.push({
+					type: "method",
+					keyGetter,
+					privateName,
+					kind: element.kind as "method" | "get" | "set",
+					isStatic: element.static,
+					invoke: this.createFunctionInvoker(element.value),
+					node: element.value,
+					definition: element,
+					isAnonymousFunction: false,
+				});
+				return;
+			}
+
+			// a = 1, the initializer runs like a method with this of the instance
+			const value = element.value;
+
+			elements.push({
+				type: "field",
+				keyGetter,
+				privateName,
+				kind: "field",
+				isStatic: element.static,
+				invoke: value
+					? this.createFunctionInvoker({
+							type: "ArrowFunctionExpression",
+							id: null,
+							params: [],
+							body: value,
+							expression: true,
+							generator: false,
+							async: false,
+					  })
+					: null,
+				node: null,
+				definition: null,
+				isAnonymousFunction:
+					!!value &&
+					(value.type === "FunctionExpression" ||
+						value.type === "ArrowFunctionExpression" ||
+						value.type === "ClassExpression") &&
+					!(value as ESTree.FunctionExpression).id,
+			});
+		});
+
+		this.isStrictMode = oldStrictMode;
+
+		return () => {
+			const currentScope = self.getCurrentScope();
+			const classScope = createScope(currentScope, BlockScopeName, classConsts);
+
+			if (name) {
+				classScope.data[name] = Uninitialized;
+			}
+
+			for (let i = 0; i < privateNames.length; i++) {
+				classScope.data[privateNames[i]] = new PrivateName(privateNames[i]);
+			}
+
+			self.setCurrentScope(classScope);
+
+			let superClass: any;
+			let protoParent: any = self.realm
+				? self.realm.importValue(Object.prototype)
+				: Object.prototype;
+
+			if (superClassClosure) {
+				superClass = superClassClosure();
+
+				if (superClass === null) {
+					protoParent = null;
+				} else if (!isFunction(superClass) || nonConstructors.has(superClass)) {
+					throw self.createInternalThrowError(
+						Messages.ClassExtendsTypeError,
+						String(superClass),
+						node.superClass
+					);
+				} else {
+					protoParent = superClass.prototype;
+				}
+			}
+
+			const proto = Object.create(protoParent);
+
+			const construct: ClassConstruct = (args, newTarget) => {
+				const env: FunctionEnvironment = {
+					func: klass,
+					homeObject: proto,
+					newTarget,
+					// derived class: this is created by super()
+					thisValue: isDerived ? Uninitialized : Object.create(newTarget.prototype),
+				};
+				let result: any;
+
+				// fields of base class are initialized before the constructor, see superConstruct
+				if (!isDerived && initializeInstance) {
+					initializeInstance(env.thisValue);
+				}
+
+				if (constructorInvoker) {
+					result = constructorInvoker(
+						classScope,
+						env.thisValue,
+						args,
+						klass,
+						createArgumentsObject(args),
+						env
+					);
+				} else if (isDerived) {
+					// constructor(...args) { super(...args) }
+					self.superConstruct(env, args, node);
+				}
+
+				if ((typeof result === "object" && result !== null) || isFunction(result)) {
+					return result;
+				}
+
+				if (isDerived) {
+					if (result !== undefined) {
+						throw self.createInternalThrowError(
+							Messages.DerivedConstructorReturnTypeError,
+							"",
+							node
+						);
+					}
+
+					if (env.thisValue === Uninitialized) {
+						throw self.createInternalThrowError(
+							Messages.SuperNotCalledReferenceError,
+							"",
+							node
+						);
+					}
+				}
+
+				return env.thisValue;
+			};
+
+			const klass = function (this: any, ...args: any[]) {
+				// A() or A.call(obj)
+				if (!(this instanceof klass)) {
+					throw self.createInternalThrowError(
+						Messages.ClassConstructorCallTypeError,
+						name,
+						node
+					);
+				}
+
+				// new A() in host, or host class extends A
+				return construct(args, isFunction(this.constructor) ? this.constructor : klass);
+			};
+
+			classConstructs.set(klass, construct);
+
+			self.defineFunctionProperties(klass, name, constructorLength, node, source);
+
+			if (superClass) {
+				Object.setPrototypeOf(klass, superClass);
+			}
+
+			Object.defineProperty(proto, "constructor", {
+				value: klass,
+				writable: true,
+				enumerable: false,
+				configurable: true,
+			});
+
+			Object.defineProperty(klass, "prototype", {
+				value: proto,
+				writable: false,
+			});
+
+			const instanceFields: { key: PropertyKey | PrivateName; index: number }[] = [];
+			const staticElements: { key: PropertyKey | PrivateName; index: number }[] = [];
+			const instancePrivateMethods: PrivateName[] = [];
+			const staticPrivateMethods: PrivateName[] = [];
+
+			// the receiver of field initializers and static blocks is this
+			const runInitializer = (index: number, receiver: any) => {
+				const item = elements[index];
+				const env: FunctionEnvironment = {
+					func: klass,
+					homeObject: item.isStatic ? klass : proto,
+					newTarget: undefined,
+					thisValue: receiver,
+				};
+
+				return item.invoke
+					? item.invoke(classScope, receiver, [], klass, createArgumentsObject([]), env)
+					: undefined;
+			};
+
+			// DefineField
+			const defineField = (
+				receiver: any,
+				field: { key: PropertyKey | PrivateName; index: number }
+			) => {
+				const value = runInitializer(field.index, receiver);
+				const key = field.key;
+
+				// a = function(){}, a.name === "a"
+				if (elements[field.index].isAnonymousFunction) {
+					defineFunctionName(
+						value,
+						key instanceof PrivateName ? key.name : getPropertyKeyName(key)
+					);
+				}
+
+				if (key instanceof PrivateName) {
+					self.privateAdd(receiver, key, value, node);
+				} else {
+					defineDataProperty(receiver, key, value);
+				}
+			};
+
+			// methods and computed keys are evaluated in order
+			for (let i = 0; i < elements.length; i++) {
+				const item = elements[i];
+				const privateName: PrivateName | null = item.privateName
+					? classScope.data[item.privateName]
+					: null;
+
+				if (item.type === "block") {
+					staticElements.push({ key: "", index: i });
+					continue;
+				}
+
+				if (item.type === "field") {
+					(item.isStatic ? staticElements : instanceFields).push({
+						key: privateName || toPropertyKey(item.keyGetter()),
+						index: i,
+					});
+					continue;
+				}
+
+				const homeObject = item.isStatic ? klass : proto;
+				const key = privateName ? privateName.name : toPropertyKey(item.keyGetter());
+				const method = self.createMethodFunction(item.invoke!, classScope, homeObject);
+				const prefix = item.kind === "method" ? "" : `${item.kind} `;
+
+				self.defineFunctionProperties(
+					method,
+					prefix + getPropertyKeyName(key),
+					getExpectedArgumentCount(item.node!.params),
+					item.node!,
+					source,
+					item.definition!
+				);
+
+				// #a() {} or get #a() {}, shared by all instances
+				if (privateName) {
+					const privateMethods = item.isStatic
+						? staticPrivateMethods
+						: instancePrivateMethods;
+
+					if (item.kind === "method") {
+						privateName.kind = "method";
+						privateName.method = method;
+					} else {
+						privateName.kind = "accessor";
+						privateName[item.kind === "get" ? "getter" : "setter"] = method;
+					}
+
+					if (privateMethods.indexOf(privateName) === -1) {
+						privateMethods.push(privateName);
+					}
+				} else if (item.kind === "method") {
+					Object.defineProperty(homeObject, key, {
+						value: method,
+						writable: true,
+						enumerable: false,
+						configurable: true,
+					});
+				} else {
+					// keep the other accessor: get a(){} set a(v){}
+					const descriptor = Object.getOwnPropertyDescriptor(homeObject, key);
+
+					Object.defineProperty(homeObject, key, {
+						get: item.kind === "get" ? method : descriptor && descriptor.get,
+						set: item.kind === "set" ? method : descriptor && descriptor.set,
+						enumerable: false,
+						configurable: true,
+					});
+				}
+			}
+
+			// InitializeInstanceElements: private methods, then fields in order
+			const initializeInstance =
+				instanceFields.length || instancePrivateMethods.length
+					? (instance: any) => {
+							for (let i = 0; i < instancePrivateMethods.length; i++) {
+								self.privateAdd(instance, instancePrivateMethods[i], true, node);
+							}
+
+							for (let i = 0; i < instanceFields.length; i++) {
+								defineField(instance, instanceFields[i]);
+							}
+					  }
+					: null;
+
+			if (initializeInstance) {
+				classInitializers.set(klass, initializeInstance);
+			}
+
+			if (name) {
+				classScope.data[name] = klass;
+			}
+
+			for (let i = 0; i < staticPrivateMethods.length; i++) {
+				self.privateAdd(klass, staticPrivateMethods[i], true, node);
+			}
+
+			// static fields and static blocks
+			for (let i = 0; i < staticElements.length; i++) {
+				const element = staticElements[i];
+
+				if (elements[element.index].type === "block") {
+					runInitializer(element.index, klass);
+				} else {
+					defineField(klass, element);
+				}
+			}
+
+			self.setCurrentScope(currentScope);
+
+			return klass;
+		};
+	}
+
+	// method of class, this is dynamic and super is bound to homeObject
+	protected createMethodFunction(
+		invoke: FunctionInvoker,
+		runtimeScope: Scope,
+		homeObject: any
+	): (...args: any[]) => any {
+		const method = createFunctionWithoutPrototype((thisValue, args, argumentsObject) =>
+			invoke(runtimeScope, thisValue, args, method, argumentsObject, {
+				func: method,
+				homeObject,
+				newTarget: undefined,
+				thisValue,
+			})
+		);
+
+		nonConstructors.add(method);
+
+		return method;
+	}
+
+	// class method or constructor
+	protected getFunctionEnvironment(): FunctionEnvironment {
+		let scope: Scope | null = this.getCurrentScope();
+
+		do {
+			if (scope.env) {
+				return scope.env;
+			}
+		} while ((scope = scope.parent));
+
+		// never: super is not allowed outside methods
+		throw this.createInternalThrowError(Messages.NodeTypeSyntaxError, "Super", null);
+	}
+
+	protected superConstruct(env: FunctionEnvironment, args: any[], node: Node): any {
+		if (env.thisValue !== Uninitialized) {
+			throw this.createInternalThrowError(Messages.SuperCalledReferenceError, "", node);
+		}
+
+		const superClass = Object.getPrototypeOf(env.func);
+
+		if (!isFunction(superClass) || nonConstructors.has(superClass)) {
+			throw this.createInternalThrowError(
+				Messages.IsNotConstructor,
+				"Super constructor",
+				node
+			);
+		}
+
+		// class A extends F {}: F is constructed by super()
+		this.checkConstructPolicy(superClass, args, node);
+
+		env.thisValue = reflectConstruct(superClass, args, env.newTarget!);
+
+		// fields of derived class are initialized after super() returns
+		const initializeInstance = classInitializers.get(env.func);
+
+		if (initializeInstance) {
+			initializeInstance(env.thisValue);
+		}
+
+		return env.thisValue;
+	}
+
+	// super(...)
+	protected superCallExpressionHandler(node: ESTree.CallExpression): BaseClosure {
+		const argsGetter = this.createListGetter(node.arguments);
+
+		return () => {
+			const env = this.getFunctionEnvironment();
+			const result = this.superConstruct(env, argsGetter(), node);
+
+			// bind this
+			this.setCurrentContext(result);
+
+			return result;
+		};
+	}
+
+	// super.a super['a']
+	protected superMemberExpressionHandler(node: ESTree.MemberExpression): BaseClosure {
+		const keyGetter = this.createMemberKeyGetter(node);
+
+		return () => {
+			const env = this.getFunctionEnvironment();
+			const proto = Object.getPrototypeOf(env.homeObject);
+			const key = this.checkPropertyPolicy("get", proto, keyGetter(), node);
+
+			if (typeof Reflect !== "undefined") {
+				// getter of super uses current this
+				return Reflect.get(proto, key, this.getCurrentContext());
+			}
+
+			return proto[key];
+		};
+	}
+
+	// new.target
+	protected metaPropertyHandler(node: ESTree.MetaProperty): BaseClosure {
+		if (node.meta.name !== "new" || node.property.name !== "target") {
+			throw this.createInternalThrowError(
+				Messages.NodeTypeSyntaxError,
+				`${node.meta.name}.${node.property.name}`,
+				node
+			);
+		}
+
+		return () => this.getFunctionEnvironment().newTarget;
+	}
+
+	// super.a = 1 assigns to this
+	protected superHandler(node: ESTree.Super): BaseClosure {
+		return () => this.getCurrentContext();
+	}
+
+	// var1,var2,...
+	protected sequenceExpressionHandler(node: ESTree.SequenceExpression): BaseClosure {
+		const expressions = node.expressions.map(item => this.createClosure(item));
+
+		return () => {
+			let result: any;
+			const len = expressions.length;
+
+			for (let i = 0; i < len; i++) {
+				const expression = expressions[i];
+				result = expression();
+			}
+
+			return result;
+		};
+	}
+
+	// 1 'name'
+	protected literalHandler(
+		node: ESTree.Literal & { regex?: { pattern: string; flags: string }; bigint?: string }
+	): BaseClosure {
+		// 10n: acorn sets value to null if the host does not support BigInt
+		if (node.bigint !== undefined) {
+			if (typeof BigInt === "undefined") {
+				throw this.createInternalThrowError(
+					Messages.BigIntUnsupportedSyntaxError,
+					`${node.bigint}n`,
+					node
+				);
+			}
+
+			const value = BigInt(node.bigint);
+
+			return () => value;
+		}
+
+		return () => {
+			if (node.regex) {
+				return this.adoptObject(new RegExp(node.regex.pattern, node.regex.flags));
+			}
+
+			return node.value;
+		};
+	}
+
+	// var1 ...
+	protected identifierHandler(node: ESTree.Identifier): BaseClosure {
+		return () => {
+			const currentScope = this.getCurrentScope();
+			const data = this.getScopeDataFromName(node.name, currentScope);
+
+			this.assertVariable(data, node.name, node);
+
+			const value = data[node.name];
+
+			this.assertInitialized(value, node.name, node);
+
+			return value;
+		};
+	}
+
+	protected getIdentifierScope(node: ESTree.Identifier) {
+		const currentScope = this.getCurrentScope();
+
+		const scope = this.getScopeFromName(node.name, currentScope);
+
+		return scope;
+	}
+
+	// a=1 a+=2
+	protected assignmentExpressionHandler(node: ESTree.AssignmentExpression): BaseClosure {
+		// [a, b] = [b, a]
+		if (node.left.type === "ObjectPattern" || node.left.type === "ArrayPattern") {
+			const patternAssigner = this.createPatternAssigner(node.left, false);
+			const rightValueGetter = this.createClosure(node.right);
+
+			return () => {
+				const rightValue = rightValueGetter();
+
+				patternAssigner(rightValue);
+
+				return rightValue;
+			};
+		}
+
+		// var s = function(){}
+		// s.name === s
+		if (node.left.type === "Identifier") {
+			setAnonymousFunctionName(node.right, node.left.name);
+		}
+
+		const scopeGetter = this.createScopeGetter(node.left);
+		const dataGetter = this.createObjectGetter(node.left);
+		const nameGetter = this.createNameGetter(node.left);
+		const rightValueGetter = this.createClosure(node.right);
+		const operator = node.operator as string;
+		const strict = this.isStrictMode;
+		const isProperty = isPropertyReference(node.left);
+
+		return () => {
+			const scope = scopeGetter && scopeGetter();
+			const data = scope ? scope.data : dataGetter();
+			let name = nameGetter();
+
+			if (operator === "=") {
+				const rightValue = rightValueGetter();
+
+				if (scope) {
+					// "use strict"; undeclared = 1
+					if (strict) {
+						this.assertVariable(data, name, node);
+					}
+
+					// const a = 1; a = 2;
+					this.assertMutableBinding(scope, name, node);
+				}
+
+				if (isProperty) {
+					name = this.checkPropertyPolicy("set", data, name, node, rightValue);
+
+					return this.putProperty(data, name, rightValue, strict, node);
+				}
+
+				return putValue(data, name, rightValue, strict);
+			}
+
+			// if a is undefined
+			// a += 1
+			this.assertVariable(data, name, node);
+
+			if (isProperty) {
+				name = this.checkPropertyPolicy("get", data, name, node);
+			}
+
+			// the reference is read once, before the right side: getters are called once
+			const value = isProperty ? this.getProperty(data, name) : data[name];
+
+			if (scope) {
+				this.assertInitialized(value, name, node);
+			}
+
+			// a ||= b: b is not evaluated and a is not assigned
+			if (shortCircuitsAssignment(operator, value)) {
+				return value;
+			}
+
+			const rightValue = rightValueGetter();
+
+			// const a = 1; a += 2;
+			if (scope) {
+				this.assertMutableBinding(scope, name, node);
+			}
+
+			const result = this.applyAssignmentOperator(node, value, rightValue);
+
+			if (isProperty) {
+				this.checkPropertyPolicy("set", data, name, node, result);
+
+				return this.putProperty(data, name, result, strict, node);
+			}
+
+			return putValue(data, name, result, strict);
+		};
+	}
+
+	// value of a op= b
+	protected applyAssignmentOperator(
+		node: ESTree.AssignmentExpression,
+		value: any,
+		rightValue: any
+	): any {
+		// a += b is a = a + b
+		const operator = (node.operator as string).slice(0, -1);
+
+		if (numericOperators.indexOf(operator) !== -1) {
+			this.assertBigIntOperands(operator, value, rightValue, node);
+		}
+
+		switch (node.operator as string) {
+			case "&&=":
+			case "||=":
+			case "??=":
+				return rightValue;
+			case "+=":
+				return value + rightValue;
+			case "-=":
+				return value - rightValue;
+			case "*=":
+				return value * rightValue;
+			case "**=":
+				return this.exponentiate(value, rightValue, node);
+			case "/=":
+				return value / rightValue;
+			case "%=":
+				return value % rightValue;
+			case "<<=":
+				return value << rightValue;
+			case ">>=":
+				return value >> rightValue;
+			case ">>>=":
+				return value >>> rightValue;
+			case "&=":
+				return value & rightValue;
+			case "^=":
+				return value ^ rightValue;
+			case "|=":
+				return value | rightValue;
+			default:
+				throw this.createInternalThrowError(
+					Messages.AssignmentExpressionSyntaxError,
+					node.type,
+					node
+				);
+		}
+	}
+
+	// function test(){}
+	protected functionDeclarationHandler(node: ESTree.FunctionDeclaration): BaseClosure {
+		if (node.id) {
+			const name = node.id.name;
+			const functionClosure = this.functionExpressionHandler(node);
+			Object.defineProperty(functionClosure, "isFunctionDeclareClosure", {
+				value: true,
+				writable: false,
+				configurable: false,
+				enumerable: false,
+			});
+
+			// es6: { function test(){} } test is block scoped
+			if (
+				this.collectDeclLexicals.isBlock &&
+				(this.options.ecmaVersion === "latest" || this.options.ecmaVersion! >= 6)
+			) {
+				this.lexicalDeclaration(name, "function", functionClosure);
+				// web compat: test is also a var, assigned when the declaration is evaluated
+				this.varDeclaration(name);
+
+				return () => {
+					const currentScope = this.getCurrentScope();
+					const scope = this.getScopeFromName(name, currentScope.parent!);
+					// skip if shadowed by let/const/class
+					if (scope.name !== BlockScopeName) {
+						scope.data[name] = currentScope.data[name];
+					}
+
+					return EmptyStatementReturn;
+				};
+			}
+
+			this.funcDeclaration(name, functionClosure);
+		}
+		return () => {
+			return EmptyStatementReturn;
+		};
+	}
+
+	// var { a, b: [c] } -> ["a", "c"]
+	protected getPatternNames(node: ESTree.Pattern): never | string[] {
+		switch (node.type) {
+			case "Identifier":
+				return [node.name];
+			case "ObjectPattern":
+				return (node.properties as ObjectPatternProperty[]).reduce<string[]>(
+					(names, prop) =>
+						names.concat(
+							this.getPatternNames(
+								prop.type === "RestElement" ? prop.argument : prop.value
+							)
+						),
+					[]
+				);
+			case "ArrayPattern":
+				return node.elements.reduce<string[]>(
+					(names, element) =>
+						element ? names.concat(this.getPatternNames(element)) : names,
+					[]
+				);
+			case "AssignmentPattern":
+				return this.getPatternNames(node.left);
+			case "RestElement":
+				return this.getPatternNames(node.argument);
+			default:
+				throw this.createInternalThrowError(
+					Messages.VariableTypeSyntaxError,
+					node.type,
+					node
+				);
+		}
+	}
+
+	// var i;
+	// var i=1;
+	protected variableDeclarationHandler(node: ESTree.VariableDeclaration): BaseClosure {
+		if (node.kind !== "var") {
+			return this.lexicalDeclarationHandler(node);
+		}
+
+		let assignmentsClosure: BaseClosure;
+		const assignments: Array<ESTree.AssignmentExpression> = [];
+		for (let i = 0; i < node.declarations.length; i++) {
+			const decl = node.declarations[i];
+			this.getPatternNames(decl.id).forEach(name => this.varDeclaration(name));
+			if (decl.init) {
+				assignments.push({
+					type: "AssignmentExpression",
+					operator: "=",
+					left: decl.id,
+					right: decl.init,
+				});
+			}
+		}
+
+		if (assignments.length) {
+			assignmentsClosure = this.createClosure({
+				type: "BlockStatement",
+				body: (assignments as unknown) as ESTree.Statement[],
+			});
+		}
+
+		return () => {
+			if (assignmentsClosure) {
+				const oldValue = this.isVarDeclMode;
+				this.isVarDeclMode = true;
+				assignmentsClosure();
+				this.isVarDeclMode = oldValue;
+			}
+
+			return EmptyStatementReturn;
+		};
+	}
+
+	// let i;
+	// const i = 1;
+	protected lexicalDeclarationHandler(node: ESTree.VariableDeclaration): BaseClosure {
+		const declarations = node.declarations.map(decl => {
+			this.getPatternNames(decl.id).forEach(name => this.lexicalDeclaration(name, node.kind));
+
+			// let s = function(){}
+			// s.name === s
+			if (decl.init && decl.id.type === "Identifier") {
+				setAnonymousFunctionName(decl.init, decl.id.name);
+			}
+
+			return {
+				patternAssigner: this.createPatternAssigner(decl.id, true),
+				initClosure: decl.init ? this.createClosure(decl.init) : noop,
+			};
+		});
+
+		return () => {
+			// declarations are always in the current block
+			const data = this.getCurrentScope().data;
+
+			for (let i = 0; i < declarations.length; i++) {
+				const { patternAssigner, initClosure } = declarations[i];
+				patternAssigner(initClosure(), data);
+			}
+
+			return EmptyStatementReturn;
+		};
+	}
+
+	protected assertInitialized(value: any, name: string, node: Node | null): void | never {
+		if (value === Uninitialized) {
+			throw this.createInternalThrowError(
+				Messages.VariableUninitializedReferenceError,
+				name,
+				node
+			);
+		}
+	}
+
+	protected assertMutableBinding(scope: Scope, name: string, node: Node): void | never {
+		// only function and block scopes have let/const
+		if (!scope.consts) return;
+
+		this.assertInitialized(scope.data[name], name, node);
+
+		if (scope.consts[name]) {
+			throw this.createInternalThrowError(Messages.ConstantAssignmentTypeError, name, node);
+		}
+	}
+
+	protected assertVariable(data: ScopeData, name: string, node: Node): void | never {
+		if (data === this.globalScope.data && !(name in data)) {
+			throw this.createInternalThrowError(
+				Messages.VariableUndefinedReferenceError,
+				name,
+				node
+			);
+		}
+	}
+
+	// {...}
+	protected blockStatementHandler(node: ESTree.BlockStatement): BaseClosure {
+		const oldDeclLexicals = this.collectDeclLexicals;
+		const declLexicals = (this.collectDeclLexicals = createLexicalDeclarations(true));
+
+		const bodyClosure = this.programHandler(node);
+
+		this.collectDeclLexicals = oldDeclLexicals;
+
+		return this.createBlockScopeClosure(declLexicals, bodyClosure);
+	}
+
+	// run closure in a new block scope if there are let/const/class declarations
+	protected createBlockScopeClosure<T extends (...args: any[]) => any>(
+		declLexicals: CollectLexicalDeclarations,
+		closure: T
+	): T {
+		if (!Object.keys(declLexicals.names).length) {
+			return closure;
+		}
+
+		return ((...args: any[]) => {
+			const currentScope = this.getCurrentScope();
+			const blockScope = createScope(currentScope, BlockScopeName, declLexicals.consts);
+
+			this.setCurrentScope(blockScope);
+			this.addLexicalDeclarationsToScope(declLexicals, blockScope);
+
+			const result = closure(...args);
+
+			this.setCurrentScope(currentScope);
+
+			return result;
+		}) as T;
+	}
+
+	// program or function body
+	protected programHandler(node: ESTree.Program | ESTree.BlockStatement): BaseClosure {
+		// const currentScope = this.getCurrentScope();
+		const stmtClosures: Array<BaseClosure> = (node.body as Node[]).map((stmt: Node) => {
+			// if (stmt.type === "EmptyStatement") return null;
+			return this.createClosure(stmt);
+		});
+
+		return () => {
+			let result: any = EmptyStatementReturn;
+			for (let i = 0; i < stmtClosures.length; i++) {
+				const stmtClosure = stmtClosures[i];
+
+				// save last value
+				const ret = this.setValue(stmtClosure());
+
+				// if (!stmtClosure) continue;
+				// EmptyStatement
+				if (ret === EmptyStatementReturn) continue;
+
+				result = ret;
+
+				// BlockStatement: break label;  continue label; for(){ break ... }
+				// ReturnStatement: return xx;
+				if (
+					result instanceof Return ||
+					result instanceof BreakLabel ||
+					result instanceof ContinueLabel ||
+					result === Break ||
+					result === Continue
+				) {
+					break;
+				}
+			}
+
+			// save last value
+			return result;
+		};
+	}
+	// import bindings and export entries are created when the module is linked
+	protected moduleDeclarationHandler(node: Node): BaseClosure {
+		return () => EmptyStatementReturn;
+	}
+
+	// export var a = 1; export function f(){}; export { a }
+	protected exportNamedDeclarationHandler(node: ESTree.ExportNamedDeclaration): BaseClosure {
+		return node.declaration
+			? this.createClosure(node.declaration)
+			: this.moduleDeclarationHandler(node);
+	}
+
+	// export default function(){}; export default class A {}; export default a + 1
+	protected exportDefaultDeclarationHandler(node: ESTree.ExportDefaultDeclaration): BaseClosure {
+		const decl = node.declaration;
+
+		if ((decl.type === "FunctionDeclaration" || decl.type === "ClassDeclaration") && decl.id) {
+			return this.createClosure(decl);
+		}
+
+		// the declaration is evaluated as an expression named "default"
+		const expression: ESTree.Expression =
+			decl.type === "FunctionDeclaration"
+				? { ...decl, type: "FunctionExpression" }
+				: decl.type === "ClassDeclaration"
+				? { ...decl, type: "ClassExpression" }
+				: (decl as ESTree.Expression);
+
+		setAnonymousFunctionName(expression, "default");
+
+		const valueClosure = this.createClosure(expression);
+
+		// export default function(){} is hoisted
+		if (decl.type === "FunctionDeclaration") {
+			this.funcDeclaration(DefaultExportName, valueClosure);
+
+			return () => EmptyStatementReturn;
+		}
+
+		this.lexicalDeclaration(DefaultExportName, "const");
+
+		return () => {
+			this.getCurrentScope().data[DefaultExportName] = valueClosure();
+
+			return EmptyStatementReturn;
+		};
+	}
+
+	// all expression: a+1 a&&b a() a.b ...
+	protected expressionStatementHandler(node: ESTree.ExpressionStatement): BaseClosure {
+		return this.createClosure(node.expression);
+	}
+	protected emptyStatementHandler(node: Node): BaseClosure {
+		return () => EmptyStatementReturn;
+	}
+
+	// return xx;
+	protected returnStatementHandler(node: ESTree.ReturnStatement): BaseClosure {
+		const argumentClosure = node.argument ? this.createClosure(node.argument) : noop;
+
+		return () => new Return(argumentClosure());
+	}
+
+	// if else
+	protected ifStatementHandler(
+		node: ESTree.IfStatement | ESTree.ConditionalExpression
+	): BaseClosure {
+		const testClosure = this.createClosure(node.test);
+		const consequentClosure = this.createClosure(node.consequent);
+		const alternateClosure = node.alternate
+			? this.createClosure(node.alternate)
+			: /*!important*/ () => EmptyStatementReturn;
+		return () => {
+			return testClosure() ? consequentClosure() : alternateClosure();
+		};
+	}
+	// test() ? true : false
+	protected conditionalExpressionHandler(node: ESTree.ConditionalExpression): BaseClosure {
+		return this.ifStatementHandler(node);
+	}
+	// for(var i = 0; i < 10; i++) {...}
+	protected forStatementHandler(
+		node: ESTree.ForStatement | ESTree.WhileStatement | ESTree.DoWhileStatement
+	): BaseClosure {
+		let initClosure = noop;
+		let testClosure = node.test ? this.createClosure(node.test) : () => true;
+		let updateClosure = noop;
+		let declLexicals: CollectLexicalDeclarations | null = null;
+		const bodyClosure = this.createClosure(node.body);
+
+		if (node.type === "ForStatement") {
+			const init = node.init;
+			// for(let i = 0;;)
+			if (init && init.type === "VariableDeclaration" && init.kind !== "var") {
+				const oldDeclLexicals = this.collectDeclLexicals;
+				declLexicals = this.collectDeclLexicals = createLexicalDeclarations(true);
+				initClosure = this.createClosure(init);
+				this.collectDeclLexicals = oldDeclLexicals;
+			} else {
+				initClosure = init ? this.createClosure(init) : initClosure;
+			}
+			updateClosure = node.update ? this.createClosure(node.update) : noop;
+		}
+
+		return pNode => {
+			let labelName: string | undefined;
+			let result: any = EmptyStatementReturn;
+			let shouldInitExec = node.type === "DoWhileStatement";
+			const currentScope = this.getCurrentScope();
+			let copyIterationScope = noop;
+
+			if (pNode && pNode.type === "LabeledStatement") {
+				labelName = pNode.label.name;
+			}
+
+			if (declLexicals) {
+				const loopScope = createScope(currentScope, BlockScopeName, declLexicals.consts);
+				this.setCurrentScope(loopScope);
+				this.addLexicalDeclarationsToScope(declLexicals, loopScope);
+				// closures in body capture the binding of each iteration
+				copyIterationScope = () => this.setCurrentScope(copyScope(this.getCurrentScope()));
+			}
+
+			for (
+				initClosure(), copyIterationScope();
+				shouldInitExec || testClosure();
+				copyIterationScope(), updateClosure()
+			) {
+				shouldInitExec = false;
+
+				// save last value
+				const ret = this.setValue(bodyClosure());
+
+				// notice: never return Break or Continue!
+				if (ret === EmptyStatementReturn || ret === Continue) continue;
+				if (ret === Break) {
+					break;
+				}
+
+				result = ret;
+
+				// stop continue label
+				if (result instanceof ContinueLabel && result.value === labelName) {
+					result = EmptyStatementReturn;
+					continue;
+				}
+
+				if (
+					result instanceof Return ||
+					result instanceof BreakLabel ||
+					result instanceof ContinueLabel
+				) {
+					break;
+				}
+			}
+
+			if (declLexicals) {
+				this.setCurrentScope(currentScope);
+			}
+
+			return result;
+		};
+	}
+
+	// while(1) {...}
+	protected whileStatementHandler(node: ESTree.WhileStatement): BaseClosure {
+		return this.forStatementHandler(node);
+	}
+	protected doWhileStatementHandler(node: ESTree.DoWhileStatement): BaseClosure {
+		return this.forStatementHandler(node);
+	}
+	protected forInStatementHandler(node: ESTree.ForInStatement): BaseClosure {
+		// for( k in obj) or for(o.k in obj) ...
+		let left = node.left;
+		let declLexicals: CollectLexicalDeclarations | null = null;
+		let leftAssigner: PatternAssigner | null = null;
+		const rightClosure = this.createClosure(node.right);
+		const bodyClosure = this.createClosure(node.body);
+		// for(let k in obj) {...}
+		if (node.left.type === "VariableDeclaration" && node.left.kind !== "var") {
+			const oldDeclLexicals = this.collectDeclLexicals;
+			declLexicals = this.collectDeclLexicals = createLexicalDeclarations(true);
+			this.createClosure(node.left);
+			this.collectDeclLexicals = oldDeclLexicals;
+			left = node.left.declarations[0].id;
+			leftAssigner = this.createPatternAssigner(left, true);
+		} else if (node.left.type === "VariableDeclaration") {
+			// for(var k in obj) {...}
+			// init var k
+			this.createClosure(node.left)();
+			// reset left
+			// for( k in obj)
+			left = node.left.declarations[0].id;
+		}
+
+		return pNode => {
+			let labelName: string | undefined;
+			let result: any = EmptyStatementReturn;
+			let x: string;
+			const currentScope = this.getCurrentScope();
+
+			if (pNode && pNode.type === "LabeledStatement") {
+				labelName = pNode.label.name;
+			}
+
+			const data = rightClosure();
+
+			for (x in data) {
+				if (declLexicals) {
+					// each iteration has its own binding
+					const iterationScope = createScope(
+						currentScope,
+						BlockScopeName,
+						declLexicals.consts
+					);
+					leftAssigner!(x, iterationScope.data);
+					this.setCurrentScope(iterationScope);
+				} else {
+					// assign left to scope
+					// k = x
+					// o.k = x
+					this.assignmentExpressionHandler({
+						type: "AssignmentExpression",
+						operator: "=",
+						left: left as ESTree.Pattern,
+						right: {
+							type: "Literal",
+							value: x,
+						},
+					})();
+				}
+
+				// save last value
+				const ret = this.setValue(bodyClosure());
+
+				// notice: never return Break or Continue!
+				if (ret === EmptyStatementReturn || ret === Continue) continue;
+				if (ret === Break) {
+					break;
+				}
+
+				result = ret;
+
+				// stop continue label
+				if (result instanceof ContinueLabel && result.value === labelName) {
+					result = EmptyStatementReturn;
+					continue;
+				}
+
+				if (
+					result instanceof Return ||
+					result instanceof BreakLabel ||
+					result instanceof ContinueLabel
+				) {
+					break;
+				}
+			}
+
+			if (declLexicals) {
+				this.setCurrentScope(currentScope);
+			}
+
+			return result;
+		};
+	}
+	protected forOfStatementHandler(node: ESTree.ForOfStatement): BaseClosure {
+		const rightClosure = this.createClosure(node.right);
+		const bodyClosure = this.createClosure(node.body);
+		const { declLexicals, leftAssigner } = this.createForInOfLeftAssigner(node);
+
+		return pNode => {
+			let labelName: string | undefined;
+			let result: any = EmptyStatementReturn;
+			let step: IteratorResult<any>;
+			const currentScope = this.getCurrentScope();
+
+			if (pNode && pNode.type === "LabeledStatement") {
+				labelName = pNode.label.name;
+			}
+
+			const iterator = this.getIterator(rightClosure(), node.right);
+
+			while (!(step = iterator.next()).done) {
+				let ret: any;
+
+				try {
+					if (declLexicals) {
+						// each iteration has its own binding
+						const iterationScope = createScope(
+							currentScope,
+							BlockScopeName,
+							declLexicals.consts
+						);
+						this.setCurrentScope(iterationScope);
+						leftAssigner(step.value, iterationScope.data);
+					} else {
+						// x = value
+						// o.x = value
+						leftAssigner(step.value);
+					}
+
+					// save last value
+					ret = this.setValue(bodyClosure());
+				} catch (e) {
+					// close the iterator on throw, the original error wins
+					try {
+						closeIterator(iterator);
+					} catch (_) {}
+
+					throw e;
+				}
+
+				// notice: never return Break or Continue!
+				if (ret === EmptyStatementReturn || ret === Continue) continue;
+				if (ret === Break) {
+					break;
+				}
+
+				result = ret;
+
+				// stop continue label
+				if (result instanceof ContinueLabel && result.value === labelName) {
+					result = EmptyStatementReturn;
+					continue;
+				}
+
+				if (
+					result instanceof Return ||
+					result instanceof BreakLabel ||
+					result instanceof ContinueLabel
+				) {
+					break;
+				}
+			}
+
+			// break or return before the end
+			if (!step.done) {
+				closeIterator(iterator);
+			}
+
+			if (declLexicals) {
+				this.setCurrentScope(currentScope);
+			}
+
+			return result;
+		};
+	}
+	protected withStatementHandler(node: ESTree.WithStatement): BaseClosure {
+		const objectClosure = this.createClosure(node.object);
+		const bodyClosure = this.createClosure(node.body);
+
+		return () => {
+			const data = objectClosure() as ScopeData;
+			const currentScope = this.getCurrentScope();
+			const newScope = new Scope(data, currentScope, WithScopeName);
+
+			// const data = objectClosure();
+			// copy all properties
+			// for (let k in data) {
+			// 	newScope.data[k] = data[k];
+			// }
+
+			this.setCurrentScope(newScope);
+
+			// save last value
+			const result = this.setValue(bodyClosure());
+
+			this.setCurrentScope(currentScope);
+
+			return result;
+		};
+	}
+
+	protected throwStatementHandler(node: ESTree.ThrowStatement): BaseClosure {
+		const argumentClosure = this.createClosure(node.argument);
+
+		return () => {
+			this.setValue(undefined);
+			throw argumentClosure();
+		};
+	}
+
+	// try{...}catch(e){...}finally{}
+	protected tryStatementHandler(node: ESTree.TryStatement): BaseClosure {
+		const blockClosure = this.createClosure(node.block);
+		const handlerClosure = node.handler ? this.catchClauseHandler(node.handler) : null;
+		const finalizerClosure = node.finalizer ? this.createClosure(node.finalizer) : null;
+
+		return () => {
+			const currentScope = this.getCurrentScope();
+			const currentContext = this.getCurrentContext();
+			const labelStack = currentScope.labelStack.concat([]);
+			const callStack: string[] = this.callStack.concat([]);
+			let result: any = EmptyStatementReturn;
+			let finalReturn: any;
+			let throwError: any;
+
+			const reset = () => {
+				this.setCurrentScope(currentScope); //reset scope
+				this.setCurrentContext(currentContext); //reset context
+				currentScope.labelStack = labelStack; //reset label stack
+				this.callStack = callStack; //reset call stack
+			};
+
+			/**
+			 * try{...}catch(e){...}finally{...} execution sequence:
+			 * try stmt
+			 * try throw
+			 * catch stmt (if)
+			 * finally stmt
+			 * finally throw or finally return
+			 * catch throw or catch return
+			 * try return
+			 */
+
+			try {
+				result = this.setValue(blockClosure());
+				if (result instanceof Return) {
+					finalReturn = result;
+				}
+			} catch (err) {
+				reset();
+
+				if (this.isInterruptThrow(err)) {
+					throw err;
+				}
+
+				if (handlerClosure) {
+					try {
+						result = this.setValue(handlerClosure(err));
+						if (result instanceof Return) {
+							finalReturn = result;
+						}
+					} catch (err) {
+						reset();
+
+						if (this.isInterruptThrow(err)) {
+							throw err;
+						}
+
+						// save catch throw error
+						throwError = err;
+					}
+				}
+			}
+			// finally {
+			if (finalizerClosure) {
+				try {
+					//do not save finally result
+					result = finalizerClosure();
+					if (result instanceof Return) {
+						finalReturn = result;
+					}
+					// finalReturn = finalizerClosure();
+				} catch (err) {
+					reset();
+
+					if (this.isInterruptThrow(err)) {
+						throw err;
+					}
+
+					// save finally throw error
+					throwError = err;
+				}
+
+				// if (finalReturn instanceof Return) {
+				// 	result = finalReturn;
+				// }
+			}
+			// }
+
+			if (throwError) throw throwError;
+
+			if (finalReturn) {
+				return finalReturn;
+			}
+
+			return result;
+		};
+	}
+	// ... catch(e){...}
+	protected catchClauseHandler(node: ESTree.CatchClause): (e: Error) => any {
+		// catch {...}
+		const paramNames = node.param ? this.getPatternNames(node.param) : [];
+		const paramAssigner = node.param ? this.createPatternAssigner(node.param, true) : noop;
+		const bodyClosure = this.createClosure(node.body);
+
+		return (e: Error) => {
+			let result: any;
+			const currentScope = this.getCurrentScope();
+			const scopeData = currentScope.data;
+			// save "e" or names of catch({ message })
+			const saved = paramNames.map(paramName => ({
+				paramName,
+				isInScope: hasOwnProperty.call(scopeData, paramName) as boolean, //paramName in scopeData;
+				oldValue: scopeData[paramName],
+			}));
+			// add "e" to scope
+			paramAssigner(this.hardenValue(e, node), scopeData);
+			// run
+			result = bodyClosure();
+
+			// reset "e"
+			saved.forEach(({ paramName, isInScope, oldValue }) => {
+				if (isInScope) {
+					scopeData[paramName] = oldValue;
+				} else {
+					//unset
+					delete scopeData[paramName];
+				}
+			});
+
+			return result;
+		};
+	}
+	protected continueStatementHandler(node: ESTree.ContinueStatement): BaseClosure {
+		return () => (node.label ? new ContinueLabel(node.label.name) : Continue);
+	}
+	protected breakStatementHandler(node: ESTree.BreakStatement): BaseClosure {
+		return () => (node.label ? new BreakLabel(node.label.name) : Break);
+	}
+	protected switchStatementHandler(node: ESTree.SwitchStatement): BaseClosure {
+		const discriminantClosure = this.createClosure(node.discriminant);
+		// all cases share one block scope
+		const oldDeclLexicals = this.collectDeclLexicals;
+		const declLexicals = (this.collectDeclLexicals = createLexicalDeclarations(true));
+		const caseClosures = node.cases.map(item => this.switchCaseHandler(item));
+		this.collectDeclLexicals = oldDeclLexicals;
+
+		const casesClosure = this.createBlockScopeClosure(declLexicals, (value: any) => {
+			let match = false;
+			let result: any;
+			let ret: any, defaultCase: CaseItem | undefined;
 
-		return false;
+			for (let i = 0; i < caseClosures.length; i++) {
+				const item = caseClosures[i]();
+				const test = item.testClosure();
+
+				if (test === DefaultCase) {
+					defaultCase = item;
+					continue;
+				}
+
+				if (match || test === value) {
+					match = true;
+					ret = this.setValue(item.bodyClosure());
+
+					// notice: never return Break!
+					if (ret === EmptyStatementReturn) continue;
+					if (ret === Break) {
+						break;
+					}
+
+					result = ret;
+
+					if (
+						result instanceof Return ||
+						result instanceof BreakLabel ||
+						result instanceof ContinueLabel ||
+						result === Continue
+					) {
+						break;
+					}
+				}
+			}
+
+			if (!match && defaultCase) {
+				ret = this.setValue(defaultCase.bodyClosure());
+
+				const isEBC = ret === EmptyStatementReturn || ret === Break || ret === Continue;
+				// notice: never return Break or Continue!
+				if (!isEBC) {
+					result = ret;
+				}
+			}
+
+			return result;
+		});
+
+		return () => casesClosure(discriminantClosure());
 	}
 
-	protected getNodePosition(node: (Node & { start?: number; end?: number }) | null) {
-		if (node) {
-			const errorCode = ""; //this.source.slice(node.start, node.end);
-			return node.loc ? ` [${node.loc.start.line}:${node.loc.start.column}]${errorCode}` : "";
+	protected switchCaseHandler(node: ESTree.SwitchCase): SwitchCaseClosure {
+		const testClosure = node.test ? this.createClosure(node.test) : () => DefaultCase;
+		const bodyClosure = this.programHandler({
+			type: "BlockStatement",
+			body: node.consequent,
+		});
+
+		return () => ({
+			testClosure,
+			bodyClosure,
+		});
+	}
+
+	// label: xxx
+	protected labeledStatementHandler(node: ESTree.LabeledStatement): BaseClosure {
+		const labelName = node.label.name;
+		const bodyClosure = this.createClosure(node.body);
+
+		return () => {
+			let result: any;
+			const currentScope = this.getCurrentScope();
+			currentScope.labelStack.push(labelName);
+
+			result = bodyClosure(node);
+
+			// stop break label
+			if (result instanceof BreakLabel && result.value === labelName) {
+				result = EmptyStatementReturn;
+			}
+
+			currentScope.labelStack.pop();
+
+			return result;
+		};
+	}
+
+	// for(x of list) or for(o.x of list) or for(const [a, b] of list) ...
+	protected createForInOfLeftAssigner(
+		node: ESTree.ForInStatement | ESTree.ForOfStatement
+	): { declLexicals: CollectLexicalDeclarations | null; leftAssigner: PatternAssigner } {
+		const { declLexicals, left } = this.createForInOfLeftDeclarations(node);
+		const assigner = this.createPatternAssigner(left, !!declLexicals);
+
+		return {
+			declLexicals,
+			leftAssigner: (value, data) => assigner(this.hardenValue(value, node), data),
+		};
+	}
+
+	// declares the names of the left side, the pattern is compiled by the caller
+	protected createForInOfLeftDeclarations(
+		node: ESTree.ForInStatement | ESTree.ForOfStatement
+	): { declLexicals: CollectLexicalDeclarations | null; left: ESTree.Pattern } {
+		if (node.left.type !== "VariableDeclaration") {
+			return { declLexicals: null, left: node.left };
 		}
 
-		return "";
+		const { kind, declarations } = node.left;
+		const decl = declarations[0];
+		const names = this.getPatternNames(decl.id);
+
+		if (kind !== "var") {
+			// for(const x of list) {...}
+			const oldDeclLexicals = this.collectDeclLexicals;
+			const declLexicals = (this.collectDeclLexicals = createLexicalDeclarations(true));
+			names.forEach(name => this.lexicalDeclaration(name, kind));
+			this.collectDeclLexicals = oldDeclLexicals;
+
+			return { declLexicals, left: decl.id };
+		}
+
+		// for(var x of list) {...}
+		if (decl.init) {
+			// for(var x = 1 in obj): init var x
+			this.createClosure(node.left)();
+		} else {
+			names.forEach(name => this.varDeclaration(name));
+		}
+
+		return { declLexicals: null, left: decl.id };
 	}
 
-	protected createClosure(node: Node): BaseClosure {
-		let closure: BaseClosure;
+	/**
+	 * generator and async functions
+	 * the body of function* and async function is compiled to host generators,
+	 * so it can be suspended by yield and await.
+	 * only statements and expressions containing yield or await are compiled by generator handlers,
+	 * others reuse the closures of createClosure.
+	 */
+	protected createGeneratorClosure(node: Node): GeneratorClosure {
+		if (!containsSuspension(node)) {
+			const closure = this.createClosure(node);
+
+			return function* (pNode?: Node) {
+				return closure(pNode);
+			};
+		}
 
 		switch (node.type) {
-			case "BinaryExpression":
-				closure = this.binaryExpressionHandler(node);
-				break;
+			case "YieldExpression":
+				return this.yieldExpressionGeneratorHandler(node);
+			case "AwaitExpression":
+				return this.awaitExpressionGeneratorHandler(node);
 			case "LogicalExpression":
-				closure = this.logicalExpressionHandler(node);
-				break;
-			case "UnaryExpression":
-				closure = this.unaryExpressionHandler(node);
-				break;
-			case "UpdateExpression":
-				closure = this.updateExpressionHandler(node);
-				break;
-			case "ObjectExpression":
-				closure = this.objectExpressionHandler(node);
-				break;
-			case "ArrayExpression":
-				closure = this.arrayExpressionHandler(node);
-				break;
-			case "CallExpression":
-				closure = this.callExpressionHandler(node);
-				break;
-			case "NewExpression":
-				closure = this.newExpressionHandler(node);
-				break;
-			case "MemberExpression":
-				closure = this.memberExpressionHandler(node);
-				break;
-			case "ThisExpression":
-				closure = this.thisExpressionHandler(node);
-				break;
-			case "SequenceExpression":
-				closure = this.sequenceExpressionHandler(node);
-				break;
-			case "Literal":
-				closure = this.literalHandler(node);
-				break;
-			case "Identifier":
-				closure = this.identifierHandler(node);
-				break;
-			case "AssignmentExpression":
-				closure = this.assignmentExpressionHandler(node);
-				break;
-			case "FunctionDeclaration":
-				closure = this.functionDeclarationHandler(node);
-				break;
-			case "VariableDeclaration":
-				closure = this.variableDeclarationHandler(node);
-				break;
-			case "BlockStatement":
-			case "Program":
-				closure = this.programHandler(node);
-				break;
-			case "ExpressionStatement":
-				closure = this.expressionStatementHandler(node);
-				break;
-			case "EmptyStatement":
-				closure = this.emptyStatementHandler(node);
-				break;
-			case "ReturnStatement":
-				closure = this.returnStatementHandler(node);
-				break;
-			case "FunctionExpression":
-				closure = this.functionExpressionHandler(node);
-				break;
-			case "IfStatement":
-				closure = this.ifStatementHandler(node);
-				break;
+				return this.logicalExpressionGeneratorHandler(node);
 			case "ConditionalExpression":
-				closure = this.conditionalExpressionHandler(node);
-				break;
+			case "IfStatement":
+				return this.ifStatementGeneratorHandler(node);
+			case "BlockStatement":
+				return this.blockStatementGeneratorHandler(node);
 			case "ForStatement":
-				closure = this.forStatementHandler(node);
-				break;
 			case "WhileStatement":
-				closure = this.whileStatementHandler(node);
-				break;
 			case "DoWhileStatement":
-				closure = this.doWhileStatementHandler(node);
-				break;
+				return this.forStatementGeneratorHandler(node);
 			case "ForInStatement":
-				closure = this.forInStatementHandler(node);
-				break;
-			case "WithStatement":
-				closure = this.withStatementHandler(node);
-				break;
-			case "ThrowStatement":
-				closure = this.throwStatementHandler(node);
-				break;
+			case "ForOfStatement":
+				return this.forInOfStatementGeneratorHandler(node);
 			case "TryStatement":
-				closure = this.tryStatementHandler(node);
-				break;
-			case "ContinueStatement":
-				closure = this.continueStatementHandler(node);
-				break;
-			case "BreakStatement":
-				closure = this.breakStatementHandler(node);
-				break;
+				return this.tryStatementGeneratorHandler(node);
 			case "SwitchStatement":
-				closure = this.switchStatementHandler(node);
-				break;
+				return this.switchStatementGeneratorHandler(node);
 			case "LabeledStatement":
-				closure = this.labeledStatementHandler(node);
-				break;
-			case "DebuggerStatement":
-				closure = this.debuggerStatementHandler(node);
-				break;
+				return this.labeledStatementGeneratorHandler(node);
+			case "WithStatement":
+				return this.withStatementGeneratorHandler(node);
+			case "ChainExpression":
+				return this.chainExpressionGeneratorHandler(node);
+			case "AssignmentExpression":
+				return this.assignmentExpressionGeneratorHandler(node);
+			case "VariableDeclaration":
+				return this.variableDeclarationGeneratorHandler(node);
 			default:
-				throw this.createInternalThrowError(Messages.NodeTypeSyntaxError, node.type, node);
+				return this.slotGeneratorHandler(node);
+		}
+	}
+
+	// yield a or yield* list
+	protected yieldExpressionGeneratorHandler(node: ESTree.YieldExpression): GeneratorClosure {
+		const self = this;
+		const argumentClosure = node.argument ? this.createGeneratorClosure(node.argument) : null;
+
+		return function* () {
+			const value = argumentClosure ? yield* argumentClosure() : undefined;
+
+			if (node.delegate) {
+				const iterator = self.getIterator(value, node);
+				// next, throw and return are forwarded to the iterator
+				const delegate: Iterator<any> = {
+					next: (received?: any) => iterator.next(received),
+				};
+
+				if (isFunction(iterator.throw)) {
+					delegate.throw = (error?: any) => iterator.throw!(error);
+				}
+
+				// return(value) of the generator is a Return, see createGenerator,
+				// the iterator gets the value and the generator returns the value of the iterator,
+				// the Return is updated as transpiled generators keep returning the received one
+				if (isFunction(iterator.return)) {
+					delegate.return = (completion?: any) => {
+						const isReturn = completion instanceof Return;
+						const result = iterator.return!(isReturn ? completion.value : completion);
+
+						if (isReturn && result.done) {
+							completion.value = result.value;
+
+							return { value: completion, done: true };
+						}
+
+						return result;
+					};
+				}
+
+				return yield* {
+					[Symbol.iterator]: () => delegate,
+				};
+			}
+
+			// the value of next(value)
+			return yield value;
+		};
+	}
+
+	// await a
+	protected awaitExpressionGeneratorHandler(node: ESTree.AwaitExpression): GeneratorClosure {
+		const argumentClosure = this.createGeneratorClosure(node.argument);
+
+		return function* () {
+			// suspended until the value is settled, see runAsyncFunction
+			return yield yield* argumentClosure();
+		};
+	}
+
+	// a || (yield b)
+	protected logicalExpressionGeneratorHandler(node: ESTree.LogicalExpression): GeneratorClosure {
+		const self = this;
+		const leftExpression = this.createGeneratorClosure(node.left);
+		const rightExpression = this.createGeneratorClosure(node.right);
+
+		return function* () {
+			const leftValue = yield* leftExpression();
+
+			switch (node.operator as string) {
+				case "||":
+					return leftValue || (yield* rightExpression());
+				case "&&":
+					return leftValue && (yield* rightExpression());
+				case "??":
+					return isNullish(leftValue) ? yield* rightExpression() : leftValue;
+				default:
+					throw self.createInternalThrowError(
+						Messages.LogicalOperatorSyntaxError,
+						node.operator,
+						node
+					);
+			}
+		};
+	}
+
+	// a ||= await b or a.b += await c: the reference is read before the right side
+	protected assignmentExpressionGeneratorHandler(
+		node: ESTree.AssignmentExpression
+	): GeneratorClosure {
+		const left = node.left;
+
+		// [a = yield b] = list
+		if (
+			(left.type === "ObjectPattern" || left.type === "ArrayPattern") &&
+			containsSuspension(left)
+		) {
+			const patternAssigner = this.createPatternGeneratorAssigner(left, false);
+			const rightClosure = this.createGeneratorClosure(node.right);
+
+			return function* () {
+				const rightValue = yield* rightClosure();
+
+				yield* patternAssigner(rightValue);
+
+				return rightValue;
+			};
+		}
+
+		if (
+			node.operator === "=" ||
+			(left.type !== "Identifier" && left.type !== "MemberExpression")
+		) {
+			return this.slotGeneratorHandler(node);
 		}
 
-		return (...args: any[]) => {
-			const timeout = this.options.timeout;
+		const self = this;
+		const operator = node.operator as string;
+		const scopeGetter = this.createScopeGetter(left);
+		const objectClosure =
+			left.type === "MemberExpression" ? this.createGeneratorClosure(left.object) : null;
+		const keyClosure: GeneratorClosure =
+			left.type === "MemberExpression" && left.computed
+				? this.createGeneratorClosure(left.property)
+				: function* () {
+						return left.type === "Identifier"
+							? left.name
+							: (left.property as ESTree.Identifier).name;
+				  };
+		const rightClosure = this.createGeneratorClosure(node.right);
+		const isPrivate =
+			left.type === "MemberExpression" &&
+			(left.property as Node).type === "PrivateIdentifier";
+		const strict = this.isStrictMode;
+
+		return function* () {
+			const scope = scopeGetter && scopeGetter();
+			let data = scope ? scope.data : yield* objectClosure!();
+			let name = yield* keyClosure();
+
+			// this.#a += await b
+			if (isPrivate) {
+				const privateName = self.getPrivateName(
+					((left as ESTree.MemberExpression).property as Node) as PrivateIdentifier
+				);
+				data = self.createPrivateReference(data, privateName, node);
+				name = "value";
+			} else if (!scope) {
+				// obj[await key] += 1
+				name = self.checkPropertyPolicy(
+					"get",
+					data,
+					self.assertHardenedKey(name, node),
+					node
+				);
+			}
 
-			if (timeout && timeout > 0 && this.checkTimeout()) {
-				throw this.createInternalThrowError(Messages.ExecutionTimeOutError, timeout, null);
+			self.assertVariable(data, name, node);
+
+			const value = scope ? data[name] : self.getProperty(data, name);
+
+			if (scope) {
+				self.assertInitialized(value, name, node);
 			}
 
-			this.lastExecNode = node;
+			if (shortCircuitsAssignment(operator, value)) {
+				return value;
+			}
 
-			return closure(...args);
+			const rightValue = yield* rightClosure();
+
+			if (scope) {
+				self.assertMutableBinding(scope, name, node);
+			}
+
+			const result = self.applyAssignmentOperator(node, value, rightValue);
+
+			if (!scope && !isPrivate) {
+				self.checkPropertyPolicy("set", data, name, node, result);
+
+				return self.putProperty(data, name, result, strict, node);
+			}
+
+			return putValue(data, name, result, strict);
 		};
 	}
 
-	// a==b a/b
-	protected binaryExpressionHandler(node: ESTree.BinaryExpression): BaseClosure {
-		const leftExpression = this.createClosure(node.left);
-		const rightExpression = this.createClosure(node.right);
+	// const a = await f(), b = await g(a): each declarator is bound before the next one is evaluated
+	protected variableDeclarationGeneratorHandler(
+		node: ESTree.VariableDeclaration
+	): GeneratorClosure {
+		if (node.declarations.length > 1) {
+			const declarationClosures = node.declarations.map(decl =>
+				this.createGeneratorClosure({ ...node, declarations: [decl] })
+			);
 
-		return () => {
-			const leftValue = leftExpression();
-			const rightValue = rightExpression();
+			return function* () {
+				for (let i = 0; i < declarationClosures.length; i++) {
+					yield* declarationClosures[i]();
+				}
 
-			switch (node.operator) {
-				case "==":
-					return leftValue == rightValue;
-				case "!=":
-					return leftValue != rightValue;
-				case "===":
-					return leftValue === rightValue;
-				case "!==":
-					return leftValue !== rightValue;
-				case "<":
-					return leftValue < rightValue;
-				case "<=":
-					return leftValue <= rightValue;
-				case ">":
-					return leftValue > rightValue;
-				case ">=":
-					return leftValue >= rightValue;
-				case "<<":
-					return leftValue << rightValue;
-				case ">>":
-					return leftValue >> rightValue;
-				case ">>>":
-					return leftValue >>> rightValue;
-				case "+":
-					return leftValue + rightValue;
-				case "-":
-					return leftValue - rightValue;
-				case "*":
-					return leftValue * rightValue;
-				case "**":
-					return Math.pow(leftValue, rightValue);
-				case "/":
-					return leftValue / rightValue;
-				case "%":
-					return leftValue % rightValue;
-				case "|":
-					return leftValue | rightValue;
-				case "^":
-					return leftValue ^ rightValue;
-				case "&":
-					return leftValue & rightValue;
-				case "in":
-					return leftValue in rightValue;
-				case "instanceof":
-					return leftValue instanceof rightValue;
-				default:
-					throw this.createInternalThrowError(
-						Messages.BinaryOperatorSyntaxError,
-						node.operator,
-						node
-					);
-			}
+				return EmptyStatementReturn;
+			};
+		}
+
+		const decl = node.declarations[0];
+
+		if (!containsSuspension(decl.id)) {
+			return this.slotGeneratorHandler(node);
+		}
+
+		// const [a = yield b] = list
+		const self = this;
+		const isVar = node.kind === "var";
+
+		this.getPatternNames(decl.id).forEach(name =>
+			isVar ? this.varDeclaration(name) : this.lexicalDeclaration(name, node.kind)
+		);
+
+		// var declarations assign like var [a = yield b] = list, see variableDeclarationHandler
+		const patternAssigner = this.createPatternGeneratorAssigner(decl.id, !isVar);
+		const initClosure = decl.init ? this.createGeneratorClosure(decl.init) : noopGenerator;
+
+		return function* () {
+			// declarations are always in the current block
+			const data = isVar ? undefined : self.getCurrentScope().data;
+
+			yield* patternAssigner(yield* initClosure(), data);
+
+			return EmptyStatementReturn;
 		};
 	}
 
-	// a && b
-	protected logicalExpressionHandler(node: ESTree.LogicalExpression): BaseClosure {
-		const leftExpression = this.createClosure(node.left);
-		const rightExpression = this.createClosure(node.right);
+	// a?.b(await c): the rest of the chain is not evaluated if a is null or undefined
+	protected chainExpressionGeneratorHandler(node: ChainExpression): GeneratorClosure {
+		const referenceClosure = this.createChainReferenceGeneratorClosure(node.expression);
 
-		return () => {
-			switch (node.operator) {
-				case "||":
-					return leftExpression() || rightExpression();
-				case "&&":
-					return leftExpression() && rightExpression();
-				default:
-					throw this.createInternalThrowError(
-						Messages.LogicalOperatorSyntaxError,
-						node.operator,
+		return function* () {
+			const [, value] = yield* referenceClosure();
+
+			return value === OptionalChainShortCircuit ? undefined : value;
+		};
+	}
+
+	// [this value, value] of an element of the chain
+	protected createChainReferenceGeneratorClosure(
+		node: Node & { start?: number; end?: number }
+	): ChainReferenceClosure {
+		const self = this;
+		const source = this.source;
+
+		// a?.b a?.[await b]
+		if (node.type === "MemberExpression" && node.object.type !== "Super") {
+			const isOptional = !!(node as OptionalNode).optional;
+			const objectClosure = this.createChainReferenceGeneratorClosure(node.object);
+			const property = node.property;
+			const keyClosure: GeneratorClosure = node.computed
+				? this.createGeneratorClosure(property)
+				: function* () {
+						return (property as ESTree.Identifier).name;
+				  };
+
+			return function* () {
+				const [, obj] = yield* objectClosure();
+
+				if (obj === OptionalChainShortCircuit || (isOptional && isNullish(obj))) {
+					return [undefined, OptionalChainShortCircuit];
+				}
+
+				const key = self.options.hardened
+					? self.assertHardenedKey(yield* keyClosure(), node)
+					: yield* keyClosure();
+
+				// a?.#b
+				if ((property as Node).type === "PrivateIdentifier") {
+					const privateName = self.getPrivateName(
+						(property as Node) as PrivateIdentifier
+					);
+
+					return [obj, self.privateGet(obj, privateName, node)];
+				}
+
+				return [
+					obj,
+					self.hardenValue(
+						self.getProperty(obj, self.checkPropertyPolicy("get", obj, key, node)),
+						node
+					),
+				];
+			};
+		}
+
+		// a.b?.(await c)
+		if (node.type === "CallExpression" && node.callee.type !== "Super") {
+			const isOptional = !!(node as OptionalNode).optional;
+			const callee = node.callee as Node & { start?: number; end?: number };
+			const calleeClosure = this.createChainReferenceGeneratorClosure(callee);
+			const argsClosure = this.createGeneratorClosure({
+				type: "ArrayExpression",
+				elements: node.arguments,
+			});
+
+			return function* () {
+				const [thisValue, func] = yield* calleeClosure();
+
+				if (func === OptionalChainShortCircuit || (isOptional && isNullish(func))) {
+					return [undefined, OptionalChainShortCircuit];
+				}
+
+				const args = yield* argsClosure();
+
+				self.assertHardenedArguments(args, node);
+
+				if (!isFunction(func)) {
+					throw self.createInternalThrowError(
+						Messages.FunctionUndefinedReferenceError,
+						source.slice(callee.start, callee.end),
 						node
 					);
+				}
+
+				self.checkCallPolicy(func, thisValue, args, node);
+
+				return [undefined, func.apply(thisValue, args)];
+			};
+		}
+
+		const closure = this.createGeneratorClosure(node);
+		// super.method?.()
+		const isSuperMember = node.type === "MemberExpression";
+
+		return function* () {
+			const value = yield* closure();
+
+			return [
+				isSuperMember
+					? self.getCurrentContext()
+					: strictFunctions.has(value)
+					? undefined
+					: self.options.globalContextInFunction,
+				value,
+			];
+		};
+	}
+
+	// if ((yield a)) {...} or (yield a) ? b : c
+	protected ifStatementGeneratorHandler(
+		node: ESTree.IfStatement | ESTree.ConditionalExpression
+	): GeneratorClosure {
+		const testClosure = this.createGeneratorClosure(node.test);
+		const consequentClosure = this.createGeneratorClosure(node.consequent);
+		const alternateClosure = node.alternate
+			? this.createGeneratorClosure(node.alternate)
+			: function* () {
+					return EmptyStatementReturn;
+			  };
+
+		return function* () {
+			if (yield* testClosure()) {
+				return yield* consequentClosure();
 			}
+
+			return yield* alternateClosure();
 		};
 	}
 
-	// protected isRootScope(node: ESTree.Expression | ESTree.Pattern): boolean {
-	// 	if (node.type === "Identifier") {
-	// 		const scope = this.getScopeFromName(node.name, this.getCurrentScope());
-	// 		return scope.name === "rootScope";
-	// 	}
+	// {...}
+	protected blockStatementGeneratorHandler(node: ESTree.BlockStatement): GeneratorClosure {
+		const oldDeclLexicals = this.collectDeclLexicals;
+		const declLexicals = (this.collectDeclLexicals = createLexicalDeclarations(true));
 
-	// 	return false;
-	// }
+		const bodyClosure = this.programGeneratorHandler(node);
 
-	// typeof a !a()
-	protected unaryExpressionHandler(node: ESTree.UnaryExpression): BaseClosure {
-		switch (node.operator) {
-			case "delete":
-				const objectGetter = this.createObjectGetter(node.argument);
-				const nameGetter = this.createNameGetter(node.argument);
+		this.collectDeclLexicals = oldDeclLexicals;
 
-				return () => {
-					// not allowed to delete root scope property
-					// rootContext has move to prototype chai, so no judgment required
-					// if (this.isRootScope(node.argument)) {
-					// 	return false;
-					// }
+		return this.createBlockScopeGeneratorClosure(declLexicals, bodyClosure);
+	}
 
-					let obj = objectGetter();
-					const name = nameGetter();
+	protected createBlockScopeGeneratorClosure(
+		declLexicals: CollectLexicalDeclarations,
+		closure: (...args: any[]) => Generator<any, any, any>
+	): (...args: any[]) => Generator<any, any, any> {
+		const self = this;
 
-					return delete obj[name];
-				};
-			default:
-				let expression: BaseClosure;
-				// for typeof undefined var
-				// typeof adf9ad
-				if (node.operator === "typeof" && node.argument.type === "Identifier") {
-					const objectGetter = this.createObjectGetter(node.argument);
-					const nameGetter = this.createNameGetter(node.argument);
+		if (!Object.keys(declLexicals.names).length) {
+			return closure;
+		}
 
-					expression = () => objectGetter()[nameGetter()];
-				} else {
-					expression = this.createClosure(node.argument);
-				}
+		return function* (...args: any[]) {
+			const currentScope = self.getCurrentScope();
+			const blockScope = createScope(currentScope, BlockScopeName, declLexicals.consts);
 
-				return () => {
-					const value = expression();
+			self.setCurrentScope(blockScope);
+			self.addLexicalDeclarationsToScope(declLexicals, blockScope);
 
-					switch (node.operator) {
-						case "-":
-							return -value;
-						case "+":
-							return +value;
-						case "!":
-							return !value;
-						case "~":
-							return ~value;
-						case "void":
-							return void value;
-						case "typeof":
-							return typeof value;
-						default:
-							throw this.createInternalThrowError(
-								Messages.UnaryOperatorSyntaxError,
-								node.operator,
-								node
-							);
-					}
-				};
-		}
+			const result = yield* closure(...args);
+
+			self.setCurrentScope(currentScope);
+
+			return result;
+		};
 	}
 
-	// ++a --a
-	protected updateExpressionHandler(node: ESTree.UpdateExpression): BaseClosure {
-		const objectGetter = this.createObjectGetter(node.argument);
-		const nameGetter = this.createNameGetter(node.argument);
-		return () => {
-			const obj = objectGetter();
-			const name = nameGetter();
+	// with (obj) { yield a }
+	protected withStatementGeneratorHandler(node: ESTree.WithStatement): GeneratorClosure {
+		const self = this;
+		const objectClosure = this.createGeneratorClosure(node.object);
+		const bodyClosure = this.createGeneratorClosure(node.body);
 
-			this.assertVariable(obj, name, node);
+		return function* () {
+			const data = (yield* objectClosure()) as ScopeData;
+			const currentScope = self.getCurrentScope();
 
-			switch (node.operator) {
-				case "++":
-					return node.prefix ? ++obj[name] : obj[name]++;
-				case "--":
-					return node.prefix ? --obj[name] : obj[name]--;
-				default:
-					throw this.createInternalThrowError(
-						Messages.UpdateOperatorSyntaxError,
-						node.operator,
-						node
-					);
+			self.setCurrentScope(new Scope(data, currentScope, WithScopeName));
+
+			// save last value
+			const result = self.setValue(yield* bodyClosure());
+
+			self.setCurrentScope(currentScope);
+
+			return result;
+		};
+	}
+
+	// body of function* or program of evaluateAsync
+	protected programGeneratorHandler(
+		node: ESTree.Program | ESTree.BlockStatement
+	): GeneratorClosure {
+		const self = this;
+		const stmtClosures = (node.body as Node[]).map(stmt => this.createGeneratorClosure(stmt));
+
+		return function* () {
+			let result: any = EmptyStatementReturn;
+			for (let i = 0; i < stmtClosures.length; i++) {
+				// save last value
+				const ret = self.setValue(yield* stmtClosures[i]());
+
+				if (ret === EmptyStatementReturn) continue;
+
+				result = ret;
+
+				if (
+					result instanceof Return ||
+					result instanceof BreakLabel ||
+					result instanceof ContinueLabel ||
+					result === Break ||
+					result === Continue
+				) {
+					break;
+				}
 			}
+
+			return result;
 		};
 	}
 
-	// var o = {a: 1, b: 's', get name(){}, set name(){}  ...}
-	protected objectExpressionHandler(node: ESTree.ObjectExpression) {
-		const items: {
-			key: string;
-			property: ESTree.Property;
-		}[] = [];
+	// for(;;) {... yield ...}
+	protected forStatementGeneratorHandler(
+		node: ESTree.ForStatement | ESTree.WhileStatement | ESTree.DoWhileStatement
+	): GeneratorClosure {
+		const self = this;
+		let initClosure: GeneratorClosure = noopGenerator;
+		let testClosure: GeneratorClosure = node.test
+			? this.createGeneratorClosure(node.test)
+			: function* () {
+					return true;
+			  };
+		let updateClosure: GeneratorClosure = noopGenerator;
+		let declLexicals: CollectLexicalDeclarations | null = null;
+		const bodyClosure = this.createGeneratorClosure(node.body);
 
-		function getKey(keyNode: ESTree.Expression): string {
-			if (keyNode.type === "Identifier") {
-				// var o = {a:1}
-				return keyNode.name;
-			} else if (keyNode.type === "Literal") {
-				// var o = {"a":1}
-				return keyNode.value as string;
-			} else {
-				return this.throwError(Messages.ObjectStructureSyntaxError, keyNode.type, keyNode);
+		if (node.type === "ForStatement") {
+			const init = node.init;
+			// for(let i = 0;;)
+			if (init && init.type === "VariableDeclaration" && init.kind !== "var") {
+				const oldDeclLexicals = this.collectDeclLexicals;
+				declLexicals = this.collectDeclLexicals = createLexicalDeclarations(true);
+				initClosure = this.createGeneratorClosure(init);
+				this.collectDeclLexicals = oldDeclLexicals;
+			} else if (init) {
+				initClosure = this.createGeneratorClosure(init);
 			}
+			updateClosure = node.update ? this.createGeneratorClosure(node.update) : noopGenerator;
 		}
-		// collect value, getter, and/or setter.
-		const properties: {
-			[prop: string]: {
-				init?: BaseClosure;
-				get?: BaseClosure;
-				set?: BaseClosure;
-			};
-		} = Object.create(null);
 
-		node.properties.forEach(property => {
-			const kind = property.kind;
-			const key = getKey(property.key);
+		return function* (pNode?: Node) {
+			let labelName: string | undefined;
+			let result: any = EmptyStatementReturn;
+			let shouldInitExec = node.type === "DoWhileStatement";
+			const currentScope = self.getCurrentScope();
 
-			if (!properties[key] || kind === "init") {
-				properties[key] = {};
+			if (pNode && pNode.type === "LabeledStatement") {
+				labelName = pNode.label.name;
 			}
 
-			properties[key][kind] = this.createClosure(property.value);
+			const copyIterationScope = () => {
+				// closures in body capture the binding of each iteration
+				if (declLexicals) {
+					self.setCurrentScope(copyScope(self.getCurrentScope()));
+				}
+			};
 
-			items.push({
-				key,
-				property,
-			});
-		});
+			if (declLexicals) {
+				const loopScope = createScope(currentScope, BlockScopeName, declLexicals.consts);
+				self.setCurrentScope(loopScope);
+				self.addLexicalDeclarationsToScope(declLexicals, loopScope);
+			}
 
-		return () => {
-			const result = {};
-			const len = items.length;
+			yield* initClosure();
+			copyIterationScope();
 
-			for (let i = 0; i < len; i++) {
-				const item = items[i];
-				const key = item.key;
-				const kinds = properties[key];
-				const value = kinds.init ? kinds.init() : undefined;
-				const getter = kinds.get ? kinds.get() : function () {};
-				const setter = kinds.set ? kinds.set() : function (a: any) {};
-
-				if ("set" in kinds || "get" in kinds) {
-					const descriptor = {
-						configurable: true,
-						enumerable: true,
-						get: getter,
-						set: setter,
-					};
-					Object.defineProperty(result, key, descriptor);
-				} else {
-					const property = item.property;
-					const kind = property.kind;
-					// set function.name
-					// var d = { test(){} }
-					// var d = { test: function(){} }
-					if (
-						property.key.type === "Identifier" &&
-						property.value.type === "FunctionExpression" &&
-						kind === "init" &&
-						!property.value.id
-					) {
-						defineFunctionName(value, property.key.name);
-					}
+			while (shouldInitExec || (yield* testClosure())) {
+				shouldInitExec = false;
 
-					result[key] = value;
-				}
-			}
+				// save last value
+				const ret = self.setValue(yield* bodyClosure());
 
-			return result;
-		};
-	}
+				if (ret === Break) {
+					break;
+				}
 
-	// [1,2,3]
-	protected arrayExpressionHandler(node: ESTree.ArrayExpression) {
-		//fix: [,,,1,2]
-		const items: Array<BaseClosure> = node.elements.map(element =>
-			element ? this.createClosure(element) : element
-		);
+				if (ret !== EmptyStatementReturn && ret !== Continue) {
+					result = ret;
 
-		return () => {
-			const len = items.length;
-			const result = Array(len);
-			for (let i = 0; i < len; i++) {
-				const item = items[i];
-				if (item) {
-					result[i] = item();
+					// stop continue label
+					if (result instanceof ContinueLabel && result.value === labelName) {
+						result = EmptyStatementReturn;
+					} else if (
+						result instanceof Return ||
+						result instanceof BreakLabel ||
+						result instanceof ContinueLabel
+					) {
+						break;
+					}
 				}
+
+				copyIterationScope();
+				yield* updateClosure();
+			}
+
+			if (declLexicals) {
+				self.setCurrentScope(currentScope);
 			}
 
 			return result;
 		};
 	}
 
-	protected safeObjectGet(obj: any, key: any, node: Node) {
-		return obj[key];
-	}
-
-	protected createCallFunctionGetter(node: Node & { start?: number; end?: number }) {
-		switch (node.type) {
-			case "MemberExpression":
-				const objectGetter = this.createClosure(node.object);
-				const keyGetter = this.createMemberKeyGetter(node);
-				const source = this.source;
-
-				return () => {
-					const obj = objectGetter();
-					const key = keyGetter();
-					const func = this.safeObjectGet(obj, key, node);
+	// for(k in (yield obj)) {...} or for(x of list) {... yield ...}
+	protected forInOfStatementGeneratorHandler(
+		node: ESTree.ForInStatement | ESTree.ForOfStatement
+	): GeneratorClosure {
+		const self = this;
+		const rightClosure = this.createGeneratorClosure(node.right);
+		const bodyClosure = this.createGeneratorClosure(node.body);
+		// for(const [a = yield b] of list) {...}
+		const { declLexicals, left } = this.createForInOfLeftDeclarations(node);
+		const leftAssigner = this.createPatternGeneratorAssigner(left, !!declLexicals);
 
-					if (!func || !isFunction(func)) {
-						const name = source.slice(node.start, node.end);
-						throw this.createInternalThrowError(
-							Messages.FunctionUndefinedReferenceError,
-							name,
-							node
-						);
-					}
+		return function* (pNode?: Node) {
+			let labelName: string | undefined;
+			let result: any = EmptyStatementReturn;
+			// the iterator is closed if the loop is left before the end
+			let shouldClose = false;
+			const currentScope = self.getCurrentScope();
 
-					// obj.eval = eval
-					// obj.eval(...)
-					if (func.__IS_EVAL_FUNC) {
-						return (code?: string) => {
-							return (func as typeof internalEval)(
-								new InternalInterpreterReflection(this),
-								code,
-								true
-							);
-						};
-					}
+			if (pNode && pNode.type === "LabeledStatement") {
+				labelName = pNode.label.name;
+			}
 
-					// obj.func = Function
-					// obj.func(...)
-					if (func.__IS_FUNCTION_FUNC) {
-						return (...args: string[]) => {
-							return (func as typeof internalFunction)(
-								new InternalInterpreterReflection(this),
-								...args
-							);
-						};
-					}
+			const right = yield* rightClosure();
+			let iterator: Iterator<any>;
 
-					// method call
-					// eg：obj.say(...)
-					// eg: obj.say.call(...)
-					// eg: obj.say.apply(...)
-					// ======================
-					// obj.func(...)
-					// func = func.bind(obj)
-					// tips:
-					// func(...) -> func.bind(obj)(...)
-					// func.call(...) -> obj.func.call.bind(obj.func)(...)
-					// func.apply(...) -> obj.func.apply.bind(obj.func)(...)
-					// ...others
-					return func.bind(obj);
-				};
-			default:
-				// test() or (0,test)() or a[1]() ...
-				const closure = this.createClosure(node);
-				return () => {
-					let name: string = "";
-					if (node.type === "Identifier") {
-						name = node.name;
-					}
-					// const name: string = (<ESTree.Identifier>node).name;
-					const func = closure();
+			if (node.type === "ForOfStatement") {
+				iterator = self.getIterator(right, node.right);
+			} else {
+				const keys: string[] = [];
+				for (const key in right) {
+					keys.push(key);
+				}
+				iterator = self.getIterator(keys, node.right);
+			}
 
-					if (!func || !isFunction(func)) {
-						throw this.createInternalThrowError(
-							Messages.FunctionUndefinedReferenceError,
-							name,
-							node
+			try {
+				while (true) {
+					shouldClose = false;
+					const step = iterator.next();
+					if (step.done) break;
+					shouldClose = node.type === "ForOfStatement";
+
+					if (declLexicals) {
+						// each iteration has its own binding
+						const iterationScope = createScope(
+							currentScope,
+							BlockScopeName,
+							declLexicals.consts
+						);
+						self.setCurrentScope(iterationScope);
+						yield* leftAssigner(
+							self.hardenValue(step.value, node),
+							iterationScope.data
 						);
+					} else {
+						yield* leftAssigner(self.hardenValue(step.value, node));
 					}
 
-					// https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/eval
-					// var eval = eval;
-					// function test(){
-					//    eval(...); //note: use local scope in eval5，but in Browser is use global scope
-					// }
-					if (node.type === "Identifier" && func.__IS_EVAL_FUNC && name === "eval") {
-						return (code?: string) => {
-							const scope = this.getScopeFromName(name, this.getCurrentScope());
-							const useGlobalScope =
-								scope.name === SuperScopeName ||
-								// !scope.parent || // super scope
-								scope.name === GlobalScopeName ||
-								// this.globalScope === scope ||
-								scope.name === RootScopeName;
-							// use local scope if calling eval in super scope
-							return (func as typeof internalEval)(
-								new InternalInterpreterReflection(this),
-								code,
-								!useGlobalScope
-							);
-						};
-					}
-					// use global scope
-					// var g_eval = eval;
-					// g_eval("a+1");
-					//(0,eval)(...) ...eval alias
-					if (func.__IS_EVAL_FUNC) {
-						return (code?: string) => {
-							return (func as typeof internalEval)(
-								new InternalInterpreterReflection(this),
-								code,
-								true
-							);
-						};
-					}
+					// save last value
+					const ret = self.setValue(yield* bodyClosure());
 
-					// Function('a', 'b', 'return a+b')
-					if (func.__IS_FUNCTION_FUNC) {
-						return (...args: string[]) => {
-							return (func as typeof internalFunction)(
-								new InternalInterpreterReflection(this),
-								...args
-							);
-						};
+					if (ret === Break) {
+						break;
 					}
 
-					let ctx = this.options.globalContextInFunction;
-					// with(obj) {
-					//     test() // test.call(obj, ...)
-					// }
-					if (node.type === "Identifier") {
-						const scope = this.getIdentifierScope(node);
-						if (scope.name === WithScopeName) {
-							ctx = scope.data;
+					if (ret !== EmptyStatementReturn && ret !== Continue) {
+						result = ret;
+
+						// stop continue label
+						if (result instanceof ContinueLabel && result.value === labelName) {
+							result = EmptyStatementReturn;
+						} else if (
+							result instanceof Return ||
+							result instanceof BreakLabel ||
+							result instanceof ContinueLabel
+						) {
+							break;
 						}
 					}
+				}
+			} catch (e) {
+				// close the iterator on throw, the original error wins
+				if (shouldClose) {
+					shouldClose = false;
+					try {
+						closeIterator(iterator);
+					} catch (_) {}
+				}
 
-					// function call
-					// this = undefined
-					// tips:
-					// test(...) === test.call(undefined, ...)
-					// fix: alert.call({}, ...) Illegal invocation
-					return func.bind(ctx);
-				};
-		}
-	}
+				throw e;
+			} finally {
+				// break, return or generator.return()
+				if (shouldClose) {
+					closeIterator(iterator);
+				}
+			}
 
-	// func()
-	protected callExpressionHandler(node: ESTree.CallExpression): BaseClosure {
-		const funcGetter = this.createCallFunctionGetter(node.callee);
-		const argsGetter = node.arguments.map(arg => this.createClosure(arg));
-		return () => {
-			return funcGetter()(...argsGetter.map(arg => arg()));
+			if (declLexicals) {
+				self.setCurrentScope(currentScope);
+			}
+
+			return result;
 		};
 	}
 
-	// var f = function() {...}
-	protected functionExpressionHandler(
-		node:
-			| (ESTree.FunctionExpression & { start?: number; end?: number })
-			| (ESTree.FunctionDeclaration & { start?: number; end?: number })
-	): BaseClosure {
+	// try{... yield ...}catch(e){...}finally{...}
+	protected tryStatementGeneratorHandler(node: ESTree.TryStatement): GeneratorClosure {
 		const self = this;
-		const source = this.source;
-		const oldDeclVars = this.collectDeclVars;
-		const oldDeclFuncs = this.collectDeclFuncs;
-		this.collectDeclVars = Object.create(null);
-		this.collectDeclFuncs = Object.create(null);
-		const name = node.id ? node.id.name : ""; /**anonymous*/
-		const paramLength = node.params.length;
-
-		const paramsGetter = node.params.map(param => this.createParamNameGetter(param));
-		// set scope
-		const bodyClosure = this.createClosure(node.body);
-
-		const declVars = this.collectDeclVars;
-		const declFuncs = this.collectDeclFuncs;
-
-		this.collectDeclVars = oldDeclVars;
-		this.collectDeclFuncs = oldDeclFuncs;
-
-		return () => {
-			// bind current scope
-			const runtimeScope = self.getCurrentScope();
+		const blockClosure = this.createGeneratorClosure(node.block);
+		const handlerClosure = node.handler ? this.catchClauseGeneratorHandler(node.handler) : null;
+		const finalizerClosure = node.finalizer
+			? this.createGeneratorClosure(node.finalizer)
+			: null;
+
+		return function* () {
+			const currentScope = self.getCurrentScope();
+			const currentContext = self.getCurrentContext();
+			const labelStack = currentScope.labelStack.concat([]);
+			const callStack: string[] = self.callStack.concat([]);
+			let result: any = EmptyStatementReturn;
+			let finalReturn: any;
+			let throwError: any;
+			let hasThrowError = false;
+			// false if the generator is closed by return() while suspended in try or catch
+			let completed = false;
+			let interrupted = false;
 
-			const func = function (...args: any[]) {
-				self.callStack.push(`${name}`);
+			const reset = () => {
+				self.setCurrentScope(currentScope); //reset scope
+				self.setCurrentContext(currentContext); //reset context
+				currentScope.labelStack = labelStack; //reset label stack
+				self.callStack = callStack; //reset call stack
+			};
 
-				const prevScope = self.getCurrentScope();
-				const currentScope = createScope(runtimeScope, `FunctionScope(${name})`);
-				self.setCurrentScope(currentScope);
+			try {
+				try {
+					result = self.setValue(yield* blockClosure());
+					if (result instanceof Return) {
+						finalReturn = result;
+					}
+				} catch (err) {
+					reset();
 
-				self.addDeclarationsToScope(declVars, declFuncs, currentScope);
+					if (self.isInterruptThrow(err)) {
+						interrupted = true;
+						throw err;
+					}
 
-				// var t = function(){ typeof t } // function
-				// t = function(){ typeof t } // function
-				// z = function tx(){ typeof tx } // function
-				// but
-				// d = { say: function(){ typeof say } } // undefined
-				if (name) {
-					currentScope.data[name] = func;
+					if (handlerClosure) {
+						try {
+							result = self.setValue(yield* handlerClosure(err));
+							if (result instanceof Return) {
+								finalReturn = result;
+							}
+						} catch (err) {
+							reset();
+
+							if (self.isInterruptThrow(err)) {
+								interrupted = true;
+								throw err;
+							}
+
+							// save catch throw error
+							throwError = err;
+							hasThrowError = true;
+						}
+					} else {
+						throwError = err;
+						hasThrowError = true;
+					}
 				}
 
-				// init arguments var
-				currentScope.data["arguments"] = arguments;
-				paramsGetter.forEach((getter, i) => {
-					currentScope.data[getter()] = args[i];
-				});
+				completed = true;
+			} finally {
+				// generator.return(): finally still runs and may override the return value
+				if (!completed && !interrupted && finalizerClosure) {
+					reset();
+
+					const ret = yield* finalizerClosure();
 
-				// init this
-				const prevContext = self.getCurrentContext();
-				//for ThisExpression
-				self.setCurrentContext(this);
+					if (ret instanceof Return) {
+						return ret;
+					}
+				}
+			}
 
-				const result = bodyClosure();
+			if (finalizerClosure) {
+				try {
+					//do not save finally result
+					const ret = yield* finalizerClosure();
 
-				//reset
-				self.setCurrentContext(prevContext);
-				self.setCurrentScope(prevScope);
+					// return in finally overrides the completion of try and catch
+					if (ret instanceof Return) {
+						return ret;
+					}
+				} catch (err) {
+					reset();
 
-				self.callStack.pop();
+					if (self.isInterruptThrow(err)) {
+						throw err;
+					}
 
-				if (result instanceof Return) {
-					return result.value;
+					// save finally throw error
+					throwError = err;
+					hasThrowError = true;
 				}
-			};
+			}
 
-			defineFunctionName(func, name);
+			if (hasThrowError) throw throwError;
 
-			Object.defineProperty(func, "length", {
-				value: paramLength,
-				writable: false,
-				enumerable: false,
-				configurable: true,
-			});
+			if (finalReturn) {
+				return finalReturn;
+			}
 
-			Object.defineProperty(func, "toString", {
-				value: () => {
-					return source.slice(node.start, node.end);
-				},
-				writable: true,
-				configurable: true,
-				enumerable: false,
-			});
-			Object.defineProperty(func, "valueOf", {
-				value: () => {
-					return source.slice(node.start, node.end);
-				},
-				writable: true,
-				configurable: true,
-				enumerable: false,
+			return result;
+		};
+	}
+
+	// ... catch(e){... yield ...}
+	protected catchClauseGeneratorHandler(
+		node: ESTree.CatchClause
+	): (e: Error) => Generator<any, any, any> {
+		const self = this;
+		const paramNames = node.param ? this.getPatternNames(node.param) : [];
+		const paramAssigner = node.param
+			? this.createPatternGeneratorAssigner(node.param, true)
+			: noopGenerator;
+		const bodyClosure = this.createGeneratorClosure(node.body);
+
+		return function* (e: Error) {
+			const scopeData = self.getCurrentScope().data;
+			const saved = paramNames.map(paramName => ({
+				paramName,
+				isInScope: hasOwnProperty.call(scopeData, paramName) as boolean,
+				oldValue: scopeData[paramName],
+			}));
+
+			yield* paramAssigner(self.hardenValue(e, node), scopeData);
+
+			const result = yield* bodyClosure();
+
+			saved.forEach(({ paramName, isInScope, oldValue }) => {
+				if (isInScope) {
+					scopeData[paramName] = oldValue;
+				} else {
+					delete scopeData[paramName];
+				}
 			});
 
-			return func;
+			return result;
 		};
 	}
 
-	// new Ctrl()
-	protected newExpressionHandler(node: ESTree.NewExpression): BaseClosure {
-		const source = this.source;
-		const expression = this.createClosure(node.callee);
-		const args = node.arguments.map(arg => this.createClosure(arg));
+	// switch((yield a)) { case (yield b): ... }
+	protected switchStatementGeneratorHandler(node: ESTree.SwitchStatement): GeneratorClosure {
+		const self = this;
+		const discriminantClosure = this.createGeneratorClosure(node.discriminant);
+		// all cases share one block scope
+		const oldDeclLexicals = this.collectDeclLexicals;
+		const declLexicals = (this.collectDeclLexicals = createLexicalDeclarations(true));
+		const caseClosures = node.cases.map(item => ({
+			testClosure: item.test ? this.createGeneratorClosure(item.test) : null,
+			bodyClosure: this.programGeneratorHandler({
+				type: "BlockStatement",
+				body: item.consequent,
+			}),
+		}));
+		this.collectDeclLexicals = oldDeclLexicals;
 
-		return () => {
-			const construct = expression();
+		const casesClosure = this.createBlockScopeGeneratorClosure(declLexicals, function* (
+			value: any
+		) {
+			let match = false;
+			let result: any;
+			let ret: any;
+			let defaultCase: typeof caseClosures[0] | undefined;
 
-			if (!isFunction(construct) || construct.__IS_EVAL_FUNC) {
-				const callee = <ESTree.Expression & { start?: number; end?: number }>node.callee;
-				const name = source.slice(callee.start, callee.end);
+			for (let i = 0; i < caseClosures.length; i++) {
+				const item = caseClosures[i];
 
-				throw this.createInternalThrowError(Messages.IsNotConstructor, name, node);
-			}
+				if (!match) {
+					if (!item.testClosure) {
+						defaultCase = item;
+						continue;
+					}
 
-			// new Function(...)
-			if (construct.__IS_FUNCTION_FUNC) {
-				return (construct as typeof internalFunction)(
-					new InternalInterpreterReflection(this),
-					...args.map(arg => arg())
-				);
-			}
+					match = (yield* item.testClosure()) === value;
+				}
 
-			return new construct(...args.map(arg => arg()));
-		};
-	}
+				if (match) {
+					ret = self.setValue(yield* item.bodyClosure());
 
-	// a.b a['b']
-	protected memberExpressionHandler(node: ESTree.MemberExpression): BaseClosure {
-		const objectGetter = this.createClosure(node.object);
-		const keyGetter = this.createMemberKeyGetter(node);
-		return () => {
-			const obj = objectGetter();
-			let key = keyGetter();
+					// notice: never return Break!
+					if (ret === EmptyStatementReturn) continue;
+					if (ret === Break) {
+						break;
+					}
 
-			return obj[key];
-		};
-	}
+					result = ret;
 
-	//this
-	protected thisExpressionHandler(node: ESTree.ThisExpression): BaseClosure {
-		return () => this.getCurrentContext();
-	}
+					if (
+						result instanceof Return ||
+						result instanceof BreakLabel ||
+						result instanceof ContinueLabel ||
+						result === Continue
+					) {
+						break;
+					}
+				}
+			}
 
-	// var1,var2,...
-	protected sequenceExpressionHandler(node: ESTree.SequenceExpression): BaseClosure {
-		const expressions = node.expressions.map(item => this.createClosure(item));
+			if (!match && defaultCase) {
+				// fall through from default to the following cases
+				for (let i = caseClosures.indexOf(defaultCase); i < caseClosures.length; i++) {
+					ret = self.setValue(yield* caseClosures[i].bodyClosure());
 
-		return () => {
-			let result: any;
-			const len = expressions.length;
+					if (ret === EmptyStatementReturn) continue;
+					if (ret === Break) {
+						break;
+					}
 
-			for (let i = 0; i < len; i++) {
-				const expression = expressions[i];
-				result = expression();
+					result = ret;
+
+					if (
+						result instanceof Return ||
+						result instanceof BreakLabel ||
+						result instanceof ContinueLabel ||
+						result === Continue
+					) {
+						break;
+					}
+				}
 			}
 
 			return result;
+		});
+
+		return function* () {
+			return yield* casesClosure(yield* discriminantClosure());
 		};
 	}
 
-	// 1 'name'
-	protected literalHandler(
-		node: ESTree.Literal & { regex?: { pattern: string; flags: string } }
-	): BaseClosure {
-		return () => {
-			if (node.regex) {
-				return new RegExp(node.regex.pattern, node.regex.flags);
-			}
+	// label: ... yield ...
+	protected labeledStatementGeneratorHandler(node: ESTree.LabeledStatement): GeneratorClosure {
+		const self = this;
+		const labelName = node.label.name;
+		const bodyClosure = this.createGeneratorClosure(node.body);
 
-			return node.value;
-		};
-	}
+		return function* () {
+			const currentScope = self.getCurrentScope();
+			currentScope.labelStack.push(labelName);
 
-	// var1 ...
-	protected identifierHandler(node: ESTree.Identifier): BaseClosure {
-		return () => {
-			const currentScope = this.getCurrentScope();
-			const data = this.getScopeDataFromName(node.name, currentScope);
+			let result = yield* bodyClosure(node);
 
-			this.assertVariable(data, node.name, node);
+			// stop break label
+			if (result instanceof BreakLabel && result.value === labelName) {
+				result = EmptyStatementReturn;
+			}
+
+			currentScope.labelStack.pop();
 
-			return data[node.name];
+			return result;
 		};
 	}
 
-	protected getIdentifierScope(node: ESTree.Identifier) {
-		const currentScope = this.getCurrentScope();
+	// yield or await in a position that is not evaluated by a generator closure
+	protected createSuspensionSyntaxError(node: Node) {
+		return this.createInternalThrowError(
+			Messages.SuspensionSyntaxError,
+			node.type === "YieldExpression" ? "yield" : "await",
+			node
+		);
+	}
 
-		const scope = this.getScopeFromName(node.name, currentScope);
+	/**
+	 * a + (yield b) or f(a, yield b) or var c = yield d ...
+	 * sub expressions up to the last one containing yield are evaluated by generator closures,
+	 * then the rest of the node is run by the closure of a copy,
+	 * in which those sub expressions are replaced by slots holding their values.
+	 */
+	protected slotGeneratorHandler(
+		node: Node,
+		compile: (node: Node) => BaseClosure = node => this.createClosure(node)
+	): GeneratorClosure {
+		const self = this;
+		const paths = getEvaluationPaths(node);
+		let last = -1;
 
-		return scope;
-	}
+		paths.forEach((path, i) => {
+			if (containsSuspension(getNodeByPath(node, path))) {
+				last = i;
+			}
+		});
 
-	// a=1 a+=2
-	protected assignmentExpressionHandler(node: ESTree.AssignmentExpression): BaseClosure {
-		// var s = function(){}
-		// s.name === s
-		if (
-			node.left.type === "Identifier" &&
-			node.right.type === "FunctionExpression" &&
-			!node.right.id
-		) {
-			node.right.id = {
-				type: "Identifier",
-				name: node.left.name,
-			};
+		if (last === -1) {
+			throw this.createSuspensionSyntaxError(findSuspension(node) || node);
 		}
 
-		const dataGetter = this.createObjectGetter(node.left);
-		const nameGetter = this.createNameGetter(node.left);
-		const rightValueGetter = this.createClosure(node.right);
+		const slotPaths = paths.slice(0, last + 1);
+		const slotClosures = slotPaths.map(path => this.createSlotGeneratorClosure(node, path));
+		const closure = compile(replaceNodeByPaths(node, slotPaths));
 
-		return () => {
-			const data = dataGetter();
-			const name = nameGetter();
-			const rightValue = rightValueGetter();
+		return function* (pNode?: Node) {
+			const values: any[] = [];
 
-			if (node.operator !== "=") {
-				// if a is undefined
-				// a += 1
-				this.assertVariable(data, name, node);
+			for (let i = 0; i < slotClosures.length; i++) {
+				values.push(yield* slotClosures[i]());
 			}
 
-			switch (node.operator) {
-				case "=":
-					return (data[name] = rightValue);
-				case "+=":
-					return (data[name] += rightValue);
-				case "-=":
-					return (data[name] -= rightValue);
-				case "*=":
-					return (data[name] *= rightValue);
-				// case "**=":
-				// data[name]: Getter may be triggered
-				// 	return (data[name] = Math.pow(data[name], rightValue));
-				case "/=":
-					return (data[name] /= rightValue);
-				case "%=":
-					return (data[name] %= rightValue);
-				case "<<=":
-					return (data[name] <<= rightValue);
-				case ">>=":
-					return (data[name] >>= rightValue);
-				case ">>>=":
-					return (data[name] >>>= rightValue);
-				case "&=":
-					return (data[name] &= rightValue);
-				case "^=":
-					return (data[name] ^= rightValue);
-				case "|=":
-					return (data[name] |= rightValue);
-				default:
-					throw this.createInternalThrowError(
-						Messages.AssignmentExpressionSyntaxError,
-						node.type,
-						node
-					);
+			self.slotFrames.push(values);
+
+			try {
+				return closure(pNode);
+			} finally {
+				self.slotFrames.pop();
 			}
 		};
 	}
 
-	// function test(){}
-	protected functionDeclarationHandler(node: ESTree.FunctionDeclaration): BaseClosure {
-		if (node.id) {
-			const functionClosure = this.functionExpressionHandler(node);
-			Object.defineProperty(functionClosure, "isFunctionDeclareClosure", {
-				value: true,
-				writable: false,
-				configurable: false,
-				enumerable: false,
-			});
-			this.funcDeclaration(node.id.name, functionClosure);
-		}
-		return () => {
-			return EmptyStatementReturn;
-		};
-	}
+	// value of the sub expression of node at path, in the order of the spec
+	protected createSlotGeneratorClosure(node: Node, path: NodePath): GeneratorClosure {
+		const subNode = getNodeByPath(node, path);
+		const key = path[path.length - 1];
 
-	protected getVariableName(node: ESTree.Pattern): never | string {
-		if (node.type === "Identifier") {
-			return node.name;
-		} else {
-			throw this.createInternalThrowError(Messages.VariableTypeSyntaxError, node.type, node);
-		}
-	}
+		// obj.method(await a): the function and this are read before the arguments
+		if (
+			(node.type === "CallExpression" && key === "callee") ||
+			(node.type === "TaggedTemplateExpression" && key === "tag")
+		) {
+			if (
+				subNode.type === "Identifier" ||
+				(subNode.type === "MemberExpression" && subNode.object.type !== "Super")
+			) {
+				if (!containsSuspension(subNode)) {
+					const funcGetter = this.createCallFunctionGetter(subNode);
+
+					return function* () {
+						return funcGetter();
+					};
+				}
 
-	// var i;
-	// var i=1;
-	protected variableDeclarationHandler(node: ESTree.VariableDeclaration): BaseClosure {
-		let assignmentsClosure: BaseClosure;
-		const assignments: Array<ESTree.AssignmentExpression> = [];
-		for (let i = 0; i < node.declarations.length; i++) {
-			const decl = node.declarations[i];
-			this.varDeclaration(this.getVariableName(decl.id));
-			if (decl.init) {
-				assignments.push({
-					type: "AssignmentExpression",
-					operator: "=",
-					left: decl.id,
-					right: decl.init,
-				});
+				// obj[await key](a)
+				return this.slotGeneratorHandler(subNode, callee =>
+					this.createCallFunctionGetter(callee)
+				);
 			}
 		}
 
-		if (assignments.length) {
-			assignmentsClosure = this.createClosure({
-				type: "BlockStatement",
-				body: (assignments as unknown) as ESTree.Statement[],
-			});
+		const closure = this.createGeneratorClosure(subNode);
+
+		// { [await a]: b } or class { [await a]() {} }: ToPropertyKey before b
+		if (key === "key") {
+			return function* () {
+				return toPropertyKey(yield* closure());
+			};
 		}
 
-		return () => {
-			if (assignmentsClosure) {
-				const oldValue = this.isVarDeclMode;
-				this.isVarDeclMode = true;
-				assignmentsClosure();
-				this.isVarDeclMode = oldValue;
-			}
+		return closure;
+	}
 
-			return EmptyStatementReturn;
-		};
+	// value of a sub expression evaluated by slotGeneratorHandler
+	protected slotExpressionHandler(node: SlotExpression): BaseClosure {
+		const index = node.index;
+
+		// const F = await promiseOfFunction
+		return () => this.hardenValue(this.slotFrames[this.slotFrames.length - 1][index], null);
 	}
 
-	protected assertVariable(data: ScopeData, name: string, node: Node): void | never {
-		if (data === this.globalScope.data && !(name in data)) {
-			throw this.createInternalThrowError(
-				Messages.VariableUndefinedReferenceError,
-				name,
-				node
+	// generator object of function*, the body starts on the first next()
+	protected createGenerator(
+		bodyClosure: GeneratorClosure,
+		state: ExecutionState,
+		proto: any
+	): Generator {
+		const iterator = bodyClosure();
+		const generator = Object.create(
+			proto !== null && (typeof proto === "object" || isFunction(proto))
+				? proto
+				: GeneratorPrototype
+		);
+
+		generatorResumers.set(generator, (method, value) => {
+			const step = this.resumeExecution(
+				state,
+				iterator,
+				method,
+				// return(value) completes the body like a return statement
+				method === "return" ? new Return(value) : value
 			);
-		}
-	}
 
-	// {...}
-	protected programHandler(node: ESTree.Program | ESTree.BlockStatement): BaseClosure {
-		// const currentScope = this.getCurrentScope();
-		const stmtClosures: Array<BaseClosure> = (node.body as Node[]).map((stmt: Node) => {
-			// if (stmt.type === "EmptyStatement") return null;
-			return this.createClosure(stmt);
-		});
+			if (step.done) {
+				return {
+					value: step.value instanceof Return ? step.value.value : undefined,
+					done: true,
+				};
+			}
 
-		return () => {
-			let result: any = EmptyStatementReturn;
-			for (let i = 0; i < stmtClosures.length; i++) {
-				const stmtClosure = stmtClosures[i];
+			return {
+				value: step.value,
+				done: false,
+			};
+		});
 
-				// save last value
-				const ret = this.setValue(stmtClosure());
+		return generator;
+	}
 
-				// if (!stmtClosure) continue;
-				// EmptyStatement
-				if (ret === EmptyStatementReturn) continue;
+	// promise of async function, the body runs until the first await
+	protected runAsyncFunction(bodyClosure: GeneratorClosure, state: ExecutionState): Promise<any> {
+		const HostPromise: PromiseConstructor = BuildInObjects.Promise;
+		// isolated realm: the promise is an instance of the copy of Promise
+		const PromiseConstructor: PromiseConstructor = this.realm
+			? this.realm.globals.Promise
+			: HostPromise;
+		const iterator = bodyClosure();
+		const execution = this.execution;
+
+		return new PromiseConstructor((resolve, reject) => {
+			const step = (method: GeneratorMethod, value: any) => {
+				// the execution is interrupted, the promise stays pending
+				if (execution.interrupted) return;
+
+				// resumed after evaluate or evaluateAsync returned: the timeout of the execution still applies
+				const prevExecution = this.execution;
+				const prevRunning = this.isRunning;
+				const prevStartTime = this.execStartTime;
+				let result: IteratorResult<any>;
+
+				this.execution = execution;
+				this.isRunning = true;
+				this.execStartTime = execution.startTime;
 
-				result = ret;
+				try {
+					result = this.resumeExecution(state, iterator, method, value);
+				} catch (e) {
+					// timed out: the execution stops quietly like after the timeout of evaluateAsync
+					if (this.isInterruptThrow(e)) {
+						execution.interrupted = true;
+					} else {
+						reject(e);
+					}
+					return;
+				} finally {
+					this.execution = prevExecution;
+					this.isRunning = prevRunning;
+					this.execStartTime = prevStartTime;
+				}
 
-				// BlockStatement: break label;  continue label; for(){ break ... }
-				// ReturnStatement: return xx;
-				if (
-					result instanceof Return ||
-					result instanceof BreakLabel ||
-					result instanceof ContinueLabel ||
-					result === Break ||
-					result === Continue
-				) {
-					break;
+				if (result.done) {
+					resolve(result.value instanceof Return ? result.value.value : undefined);
+					return;
 				}
-			}
 
-			// save last value
-			return result;
-		};
-	}
-	// all expression: a+1 a&&b a() a.b ...
-	protected expressionStatementHandler(node: ESTree.ExpressionStatement): BaseClosure {
-		return this.createClosure(node.expression);
-	}
-	protected emptyStatementHandler(node: Node): BaseClosure {
-		return () => EmptyStatementReturn;
+				// await value
+				HostPromise.resolve(result.value).then(
+					value => step("next", value),
+					error => step("throw", error)
+				);
+			};
+
+			step("next", undefined);
+		});
 	}
 
-	// return xx;
-	protected returnStatementHandler(node: ESTree.ReturnStatement): BaseClosure {
-		const argumentClosure = node.argument ? this.createClosure(node.argument) : noop;
+	// run a suspended body with its own scope, context and call stack
+	protected resumeExecution(
+		state: ExecutionState,
+		iterator: Generator<any, any, any>,
+		method: GeneratorMethod,
+		value: any
+	): IteratorResult<any> {
+		const prevScope = this.getCurrentScope();
+		const prevContext = this.getCurrentContext();
+		const prevCallStack = this.callStack;
+
+		this.setCurrentScope(state.scope);
+		this.setCurrentContext(state.context);
+		this.callStack = state.callStack;
 
-		return () => new Return(argumentClosure());
+		try {
+			return iterator[method](value);
+		} finally {
+			// save for the next resume
+			state.scope = this.getCurrentScope();
+			state.context = this.getCurrentContext();
+			state.callStack = this.callStack;
+
+			this.setCurrentScope(prevScope);
+			this.setCurrentContext(prevContext);
+			this.callStack = prevCallStack;
+		}
 	}
 
-	// if else
-	protected ifStatementHandler(
-		node: ESTree.IfStatement | ESTree.ConditionalExpression
-	): BaseClosure {
-		const testClosure = this.createClosure(node.test);
-		const consequentClosure = this.createClosure(node.consequent);
-		const alternateClosure = node.alternate
-			? this.createClosure(node.alternate)
-			: /*!important*/ () => EmptyStatementReturn;
+	protected debuggerStatementHandler(node: ESTree.DebuggerStatement): BaseClosure {
 		return () => {
-			return testClosure() ? consequentClosure() : alternateClosure();
+			debugger;
+			return EmptyStatementReturn;
 		};
 	}
-	// test() ? true : false
-	protected conditionalExpressionHandler(node: ESTree.ConditionalExpression): BaseClosure {
-		return this.ifStatementHandler(node);
-	}
-	// for(var i = 0; i < 10; i++) {...}
-	protected forStatementHandler(
-		node: ESTree.ForStatement | ESTree.WhileStatement | ESTree.DoWhileStatement
-	): BaseClosure {
-		let initClosure = noop;
-		let testClosure = node.test ? this.createClosure(node.test) : () => true;
-		let updateClosure = noop;
-		const bodyClosure = this.createClosure(node.body);
-
-		if (node.type === "ForStatement") {
-			initClosure = node.init ? this.createClosure(node.init) : initClosure;
-			updateClosure = node.update ? this.createClosure(node.update) : noop;
-		}
 
-		return pNode => {
-			let labelName: string | undefined;
-			let result: any = EmptyStatementReturn;
-			let shouldInitExec = node.type === "DoWhileStatement";
+	// function (a, { b }, c = 1, ...d) {}
+	protected createParamsBinder(params: ESTree.Pattern[]): (args: any[], data: ScopeData) => void {
+		const binders = params.map((param, i) => {
+			if (param.type === "RestElement") {
+				const restAssigner = this.createPatternAssigner(param.argument, true);
 
-			if (pNode && pNode.type === "LabeledStatement") {
-				labelName = pNode.label.name;
+				return (args: any[], data: ScopeData) =>
+					restAssigner(this.adoptObject(args.slice(i)), data);
 			}
 
-			for (initClosure(); shouldInitExec || testClosure(); updateClosure()) {
-				shouldInitExec = false;
-
-				// save last value
-				const ret = this.setValue(bodyClosure());
+			// es3/5 param
+			if (param.type === "Identifier") {
+				const name = param.name;
 
-				// notice: never return Break or Continue!
-				if (ret === EmptyStatementReturn || ret === Continue) continue;
-				if (ret === Break) {
-					break;
-				}
+				return (args: any[], data: ScopeData) => {
+					data[name] = args[i];
+				};
+			}
 
-				result = ret;
+			const paramAssigner = this.createPatternAssigner(param, true);
 
-				// stop continue label
-				if (result instanceof ContinueLabel && result.value === labelName) {
-					result = EmptyStatementReturn;
-					continue;
-				}
+			return (args: any[], data: ScopeData) => paramAssigner(args[i], data);
+		});
 
-				if (
-					result instanceof Return ||
-					result instanceof BreakLabel ||
-					result instanceof ContinueLabel
-				) {
-					break;
-				}
+		return (args, data) => {
+			for (let i = 0; i < binders.length; i++) {
+				binders[i](args, data);
 			}
-
-			return result;
 		};
 	}
 
-	// while(1) {...}
-	protected whileStatementHandler(node: ESTree.WhileStatement): BaseClosure {
-		return this.forStatementHandler(node);
-	}
-	protected doWhileStatementHandler(node: ESTree.DoWhileStatement): BaseClosure {
-		return this.forStatementHandler(node);
-	}
-	protected forInStatementHandler(node: ESTree.ForInStatement): BaseClosure {
-		// for( k in obj) or for(o.k in obj) ...
-		let left = node.left;
-		const rightClosure = this.createClosure(node.right);
-		const bodyClosure = this.createClosure(node.body);
-		// for(var k in obj) {...}
-		if (node.left.type === "VariableDeclaration") {
-			// init var k
-			this.createClosure(node.left)();
-			// reset left
-			// for( k in obj)
-			left = node.left.declarations[0].id;
-		}
+	/**
+	 * binding: var/let/const declarations, params and catch param, names are set to data
+	 * otherwise: destructuring assignment, targets may be any reference
+	 */
+	protected createPatternAssigner(node: ESTree.Pattern, binding: boolean): PatternAssigner {
+		switch (node.type) {
+			case "Identifier":
+				return this.createIdentifierAssigner(node, binding);
+			case "MemberExpression":
+				if (binding) break;
 
-		return pNode => {
-			let labelName: string | undefined;
-			let result: any = EmptyStatementReturn;
-			let x: string;
+				const objectGetter = this.createObjectGetter(node);
+				const keyGetter = this.createNameGetter(node);
+				const strict = this.isStrictMode;
+				const isProperty = isPropertyReference(node);
 
-			if (pNode && pNode.type === "LabeledStatement") {
-				labelName = pNode.label.name;
-			}
+				return value => {
+					const obj = objectGetter();
+					const key = keyGetter();
 
-			const data = rightClosure();
+					if (isProperty) {
+						this.putProperty(
+							obj,
+							this.checkPropertyPolicy("set", obj, key, node, value),
+							value,
+							strict,
+							node
+						);
+					} else {
+						putValue(obj, key, value, strict);
+					}
+				};
+			case "AssignmentPattern":
+				return this.createAssignmentPatternAssigner(node, binding);
+			case "ObjectPattern":
+				return this.createObjectPatternAssigner(node, binding);
+			case "ArrayPattern":
+				return this.createArrayPatternAssigner(node, binding);
+		}
 
-			for (x in data) {
-				// assign left to scope
-				// k = x
-				// o.k = x
-				this.assignmentExpressionHandler({
-					type: "AssignmentExpression",
-					operator: "=",
-					left: left as ESTree.Pattern,
-					right: {
-						type: "Literal",
-						value: x,
-					},
-				})();
+		throw this.createInternalThrowError(Messages.ParamTypeSyntaxError, node.type, node);
+	}
 
-				// save last value
-				const ret = this.setValue(bodyClosure());
+	protected createIdentifierAssigner(node: ESTree.Identifier, binding: boolean): PatternAssigner {
+		const name = node.name;
 
-				// notice: never return Break or Continue!
-				if (ret === EmptyStatementReturn || ret === Continue) continue;
-				if (ret === Break) {
-					break;
-				}
+		if (binding) {
+			return (value, data) => {
+				data![name] = value;
+			};
+		}
 
-				result = ret;
+		const strict = this.isStrictMode;
 
-				// stop continue label
-				if (result instanceof ContinueLabel && result.value === labelName) {
-					result = EmptyStatementReturn;
-					continue;
-				}
+		return value => {
+			const scope = this.getIdentifierScope(node);
 
-				if (
-					result instanceof Return ||
-					result instanceof BreakLabel ||
-					result instanceof ContinueLabel
-				) {
-					break;
-				}
+			// "use strict"; for (undeclared in obj)
+			if (strict) {
+				this.assertVariable(scope.data, name, node);
 			}
 
-			return result;
+			this.assertMutableBinding(scope, name, node);
+
+			putValue(scope.data, name, value, strict);
 		};
 	}
-	protected withStatementHandler(node: ESTree.WithStatement): BaseClosure {
-		const objectClosure = this.createClosure(node.object);
-		const bodyClosure = this.createClosure(node.body);
 
-		return () => {
-			const data = objectClosure() as ScopeData;
-			const currentScope = this.getCurrentScope();
-			const newScope = new Scope(data, currentScope, WithScopeName);
+	// { a = 1 } [a = 1]
+	protected createAssignmentPatternAssigner(
+		node: ESTree.AssignmentPattern,
+		binding: boolean
+	): PatternAssigner {
+		if (node.left.type === "Identifier") {
+			setAnonymousFunctionName(node.right, node.left.name);
+		}
 
-			// const data = objectClosure();
-			// copy all properties
-			// for (let k in data) {
-			// 	newScope.data[k] = data[k];
-			// }
+		const leftAssigner = this.createPatternAssigner(node.left, binding);
+		const defaultValueGetter = this.createClosure(node.right);
 
-			this.setCurrentScope(newScope);
+		return (value, data) => {
+			leftAssigner(value === undefined ? defaultValueGetter() : value, data);
+		};
+	}
 
-			// save last value
-			const result = this.setValue(bodyClosure());
+	// { a, b: c, [d]: e, ...f }
+	protected createObjectPatternAssigner(
+		node: ESTree.ObjectPattern,
+		binding: boolean
+	): PatternAssigner {
+		const properties = (node.properties as ObjectPatternProperty[]).map(prop => {
+			if (prop.type === "RestElement") {
+				return {
+					keyGetter: null,
+					valueAssigner: this.createPatternAssigner(prop.argument, binding),
+				};
+			}
 
-			this.setCurrentScope(currentScope);
+			return {
+				keyGetter: prop.computed
+					? this.createClosure(prop.key)
+					: this.createObjectKeyGetter(prop.key),
+				valueAssigner: this.createPatternAssigner(prop.value, binding),
+			};
+		});
 
-			return result;
-		};
-	}
+		return (value, data) => {
+			if (value === null || value === undefined) {
+				throw this.createInternalThrowError(
+					Messages.DestructureTypeError,
+					String(value),
+					node
+				);
+			}
 
-	protected throwStatementHandler(node: ESTree.ThrowStatement): BaseClosure {
-		const argumentClosure = this.createClosure(node.argument);
+			const usedKeys: PropertyKey[] = [];
 
-		return () => {
-			this.setValue(undefined);
-			throw argumentClosure();
+			for (let i = 0; i < properties.length; i++) {
+				const { keyGetter, valueAssigner } = properties[i];
+
+				if (keyGetter) {
+					// ToPropertyKey once: { [key]: a } = obj
+					const key = this.assertHardenedKey(toPropertyKey(keyGetter()), node);
+					usedKeys.push(key);
+					this.checkPropertyPolicy("get", value, key, node);
+					valueAssigner(this.hardenValue(this.getProperty(value, key), node), data);
+				} else {
+					// ...rest copies the remaining own enumerable properties
+					valueAssigner(
+						this.copyDataProperties(this.adoptObject({}), value, node, usedKeys),
+						data
+					);
+				}
+			}
 		};
 	}
 
-	// try{...}catch(e){...}finally{}
-	protected tryStatementHandler(node: ESTree.TryStatement): BaseClosure {
-		const blockClosure = this.createClosure(node.block);
-		const handlerClosure = node.handler ? this.catchClauseHandler(node.handler) : null;
-		const finalizerClosure = node.finalizer ? this.createClosure(node.finalizer) : null;
+	// [a, , b = 1, ...c]
+	protected createArrayPatternAssigner(
+		node: ESTree.ArrayPattern,
+		binding: boolean
+	): PatternAssigner {
+		const elements = node.elements.map(element => {
+			if (!element) {
+				return null;
+			}
 
-		return () => {
-			const currentScope = this.getCurrentScope();
-			const currentContext = this.getCurrentContext();
-			const labelStack = currentScope.labelStack.concat([]);
-			const callStack: string[] = this.callStack.concat([]);
-			let result: any = EmptyStatementReturn;
-			let finalReturn: any;
-			let throwError: any;
+			if (element.type === "RestElement") {
+				return {
+					isRest: true,
+					valueAssigner: this.createPatternAssigner(element.argument, binding),
+				};
+			}
 
-			const reset = () => {
-				this.setCurrentScope(currentScope); //reset scope
-				this.setCurrentContext(currentContext); //reset context
-				currentScope.labelStack = labelStack; //reset label stack
-				this.callStack = callStack; //reset call stack
+			return {
+				isRest: false,
+				valueAssigner: this.createPatternAssigner(element, binding),
 			};
+		});
 
-			/**
-			 * try{...}catch(e){...}finally{...} execution sequence:
-			 * try stmt
-			 * try throw
-			 * catch stmt (if)
-			 * finally stmt
-			 * finally throw or finally return
-			 * catch throw or catch return
-			 * try return
-			 */
-
-			try {
-				result = this.setValue(blockClosure());
-				if (result instanceof Return) {
-					finalReturn = result;
-				}
-			} catch (err) {
-				reset();
+		return (value, data) => {
+			const iterator = this.getIterator(value, node);
+			let done = false;
 
-				if (this.isInterruptThrow(err)) {
-					throw err;
-				}
+			const next = () => {
+				if (done) return undefined;
 
-				if (handlerClosure) {
-					try {
-						result = this.setValue(handlerClosure(err));
-						if (result instanceof Return) {
-							finalReturn = result;
-						}
-					} catch (err) {
-						reset();
+				const result = iterator.next();
+				done = !!result.done;
 
-						if (this.isInterruptThrow(err)) {
-							throw err;
+				return done ? undefined : this.hardenValue(result.value, node);
+			};
+
+			try {
+				for (let i = 0; i < elements.length; i++) {
+					const element = elements[i];
+
+					if (!element) {
+						// [, a]
+						next();
+					} else if (element.isRest) {
+						const rest: any[] = this.adoptObject([]);
+
+						while (!done) {
+							const item = next();
+							if (!done) rest.push(item);
 						}
 
-						// save catch throw error
-						throwError = err;
+						element.valueAssigner(rest, data);
+					} else {
+						element.valueAssigner(next(), data);
 					}
 				}
-			}
-			// finally {
-			if (finalizerClosure) {
-				try {
-					//do not save finally result
-					result = finalizerClosure();
-					if (result instanceof Return) {
-						finalReturn = result;
-					}
-					// finalReturn = finalizerClosure();
-				} catch (err) {
-					reset();
-
-					if (this.isInterruptThrow(err)) {
-						throw err;
+			} catch (e) {
+				if (!done) {
+					done = true;
+					try {
+						closeIterator(iterator);
+					} catch (_) {
+						// the original error wins
 					}
-
-					// save finally throw error
-					throwError = err;
 				}
 
-				// if (finalReturn instanceof Return) {
-				// 	result = finalReturn;
-				// }
+				throw e;
 			}
-			// }
-
-			if (throwError) throw throwError;
 
-			if (finalReturn) {
-				return finalReturn;
+			if (!done) {
+				closeIterator(iterator);
 			}
-
-			return result;
 		};
 	}
-	// ... catch(e){...}
-	protected catchClauseHandler(node: ESTree.CatchClause): (e: Error) => any {
-		const paramNameGetter = this.createParamNameGetter(node.param);
-		const bodyClosure = this.createClosure(node.body);
 
-		return (e: Error) => {
-			let result: any;
-			const currentScope = this.getCurrentScope();
-			const scopeData = currentScope.data;
-			// get param name "e"
-			const paramName = paramNameGetter();
-			const isInScope: boolean = hasOwnProperty.call(scopeData, paramName); //paramName in scopeData;
-			// save "e"
-			const oldValue = scopeData[paramName];
-			// add "e" to scope
-			scopeData[paramName] = e;
-			// run
-			result = bodyClosure();
+	/**
+	 * patterns containing yield or await: [a = yield b] = list or const { [await key]: c } = obj
+	 * the same as createPatternAssigner, but defaults, computed keys and targets are evaluated by generator closures
+	 */
+	protected createPatternGeneratorAssigner(
+		node: ESTree.Pattern,
+		binding: boolean
+	): PatternGeneratorAssigner {
+		if (!containsSuspension(node)) {
+			const assigner = this.createPatternAssigner(node, binding);
+
+			return function* (value, data) {
+				assigner(value, data);
+			};
+		}
 
-			// reset "e"
-			if (isInScope) {
-				scopeData[paramName] = oldValue;
-			} else {
-				//unset
-				delete scopeData[paramName];
+		switch (node.type) {
+			case "MemberExpression":
+				return this.createMemberGeneratorAssigner(node, binding);
+			case "AssignmentPattern":
+				return this.createAssignmentPatternGeneratorAssigner(node, binding);
+			case "ObjectPattern":
+				return this.createObjectPatternGeneratorAssigner(node, binding);
+			case "ArrayPattern":
+				return this.createArrayPatternGeneratorAssigner(node, binding);
+		}
+
+		throw this.createInternalThrowError(Messages.ParamTypeSyntaxError, node.type, node);
+	}
+
+	// [(yield obj).a] = list: the object and key are evaluated to slots, see slotGeneratorHandler
+	protected createMemberGeneratorAssigner(
+		node: ESTree.MemberExpression,
+		binding: boolean
+	): PatternGeneratorAssigner {
+		const self = this;
+		const paths = getEvaluationPaths(node);
+		const slotClosures = paths.map(path =>
+			this.createGeneratorClosure(getNodeByPath(node, path))
+		);
+		const assigner = this.createPatternAssigner(
+			replaceNodeByPaths(node, paths) as ESTree.MemberExpression,
+			binding
+		);
+
+		return function* (value, data) {
+			const values: any[] = [];
+
+			for (let i = 0; i < slotClosures.length; i++) {
+				values.push(yield* slotClosures[i]());
 			}
 
-			return result;
+			self.slotFrames.push(values);
+
+			try {
+				assigner(value, data);
+			} finally {
+				self.slotFrames.pop();
+			}
 		};
 	}
-	protected continueStatementHandler(node: ESTree.ContinueStatement): BaseClosure {
-		return () => (node.label ? new ContinueLabel(node.label.name) : Continue);
-	}
-	protected breakStatementHandler(node: ESTree.BreakStatement): BaseClosure {
-		return () => (node.label ? new BreakLabel(node.label.name) : Break);
-	}
-	protected switchStatementHandler(node: ESTree.SwitchStatement): BaseClosure {
-		const discriminantClosure = this.createClosure(node.discriminant);
-		const caseClosures = node.cases.map(item => this.switchCaseHandler(item));
-		return () => {
-			const value = discriminantClosure();
 
-			let match = false;
-			let result: any;
-			let ret: any, defaultCase: CaseItem | undefined;
+	// { a = yield b } [a = await b]
+	protected createAssignmentPatternGeneratorAssigner(
+		node: ESTree.AssignmentPattern,
+		binding: boolean
+	): PatternGeneratorAssigner {
+		if (node.left.type === "Identifier") {
+			setAnonymousFunctionName(node.right, node.left.name);
+		}
 
-			for (let i = 0; i < caseClosures.length; i++) {
-				const item = caseClosures[i]();
-				const test = item.testClosure();
+		const leftAssigner = this.createPatternGeneratorAssigner(node.left, binding);
+		const defaultValueClosure = this.createGeneratorClosure(node.right);
 
-				if (test === DefaultCase) {
-					defaultCase = item;
-					continue;
-				}
+		return function* (value, data) {
+			yield* leftAssigner(value === undefined ? yield* defaultValueClosure() : value, data);
+		};
+	}
 
-				if (match || test === value) {
-					match = true;
-					ret = this.setValue(item.bodyClosure());
+	// { [yield a]: b, c = yield d, ...e }
+	protected createObjectPatternGeneratorAssigner(
+		node: ESTree.ObjectPattern,
+		binding: boolean
+	): PatternGeneratorAssigner {
+		const self = this;
+		const properties = (node.properties as ObjectPatternProperty[]).map(prop => {
+			if (prop.type === "RestElement") {
+				return {
+					keyClosure: null,
+					valueAssigner: this.createPatternGeneratorAssigner(prop.argument, binding),
+				};
+			}
 
-					// notice: never return Break!
-					if (ret === EmptyStatementReturn) continue;
-					if (ret === Break) {
-						break;
-					}
+			const keyGetter = prop.computed ? null : this.createObjectKeyGetter(prop.key);
 
-					result = ret;
+			return {
+				keyClosure: keyGetter
+					? function* () {
+							return keyGetter();
+					  }
+					: this.createGeneratorClosure(prop.key),
+				valueAssigner: this.createPatternGeneratorAssigner(prop.value, binding),
+			};
+		});
 
-					if (
-						result instanceof Return ||
-						result instanceof BreakLabel ||
-						result instanceof ContinueLabel ||
-						result === Continue
-					) {
-						break;
-					}
-				}
+		return function* (value, data) {
+			if (value === null || value === undefined) {
+				throw self.createInternalThrowError(
+					Messages.DestructureTypeError,
+					String(value),
+					node
+				);
 			}
 
-			if (!match && defaultCase) {
-				ret = this.setValue(defaultCase.bodyClosure());
+			const usedKeys: PropertyKey[] = [];
 
-				const isEBC = ret === EmptyStatementReturn || ret === Break || ret === Continue;
-				// notice: never return Break or Continue!
-				if (!isEBC) {
-					result = ret;
+			for (let i = 0; i < properties.length; i++) {
+				const { keyClosure, valueAssigner } = properties[i];
+
+				if (keyClosure) {
+					const key = self.assertHardenedKey(toPropertyKey(yield* keyClosure()), node);
+					usedKeys.push(key);
+					self.checkPropertyPolicy("get", value, key, node);
+					yield* valueAssigner(
+						self.hardenValue(self.getProperty(value, key), node),
+						data
+					);
+				} else {
+					yield* valueAssigner(
+						self.copyDataProperties(self.adoptObject({}), value, node, usedKeys),
+						data
+					);
 				}
 			}
-
-			return result;
 		};
 	}
 
-	protected switchCaseHandler(node: ESTree.SwitchCase): SwitchCaseClosure {
-		const testClosure = node.test ? this.createClosure(node.test) : () => DefaultCase;
-		const bodyClosure = this.createClosure({
-			type: "BlockStatement",
-			body: node.consequent,
-		});
+	// [a = yield b, ...c]
+	protected createArrayPatternGeneratorAssigner(
+		node: ESTree.ArrayPattern,
+		binding: boolean
+	): PatternGeneratorAssigner {
+		const self = this;
+		const elements = node.elements.map(element => {
+			if (!element) {
+				return null;
+			}
 
-		return () => ({
-			testClosure,
-			bodyClosure,
+			if (element.type === "RestElement") {
+				return {
+					isRest: true,
+					valueAssigner: this.createPatternGeneratorAssigner(element.argument, binding),
+				};
+			}
+
+			return {
+				isRest: false,
+				valueAssigner: this.createPatternGeneratorAssigner(element, binding),
+			};
 		});
-	}
 
-	// label: xxx
-	protected labeledStatementHandler(node: ESTree.LabeledStatement): BaseClosure {
-		const labelName = node.label.name;
-		const bodyClosure = this.createClosure(node.body);
+		return function* (value, data) {
+			const iterator = self.getIterator(value, node);
+			let done = false;
+			let completed = false;
 
-		return () => {
-			let result: any;
-			const currentScope = this.getCurrentScope();
-			currentScope.labelStack.push(labelName);
+			const next = () => {
+				if (done) return undefined;
 
-			result = bodyClosure(node);
+				const result = iterator.next();
+				done = !!result.done;
 
-			// stop break label
-			if (result instanceof BreakLabel && result.value === labelName) {
-				result = EmptyStatementReturn;
-			}
+				return done ? undefined : self.hardenValue(result.value, node);
+			};
 
-			currentScope.labelStack.pop();
+			try {
+				for (let i = 0; i < elements.length; i++) {
+					const element = elements[i];
+
+					if (!element) {
+						// [, a]
+						next();
+					} else if (element.isRest) {
+						const rest: any[] = self.adoptObject([]);
+
+						while (!done) {
+							const item = next();
+							if (!done) rest.push(item);
+						}
 
-			return result;
-		};
-	}
+						yield* element.valueAssigner(rest, data);
+					} else {
+						yield* element.valueAssigner(next(), data);
+					}
+				}
 
-	protected debuggerStatementHandler(node: ESTree.DebuggerStatement): BaseClosure {
-		return () => {
-			debugger;
-			return EmptyStatementReturn;
+				completed = true;
+			} finally {
+				// throw or generator.return() while suspended in a default
+				if (!done) {
+					done = true;
+
+					if (completed) {
+						closeIterator(iterator);
+					} else {
+						try {
+							closeIterator(iterator);
+						} catch (_) {
+							// the original completion wins
+						}
+					}
+				}
+			}
 		};
 	}
 
-	// get es3/5 param name
-	protected createParamNameGetter(node: ESTree.Pattern): ReturnStringClosure {
-		if (node.type === "Identifier") {
-			return () => node.name;
-		} else {
-			throw this.createInternalThrowError(Messages.ParamTypeSyntaxError, node.type, node);
+	// GetIterator
+	protected getIterator(value: any, node: Node): Iterator<any> | never {
+		const method = value === null || value === undefined ? undefined : value[Symbol.iterator];
+
+		if (!isFunction(method)) {
+			throw this.createInternalThrowError(
+				Messages.NotIterableTypeError,
+				typeof value === "string" ? `"${value}"` : String(value),
+				node
+			);
 		}
+
+		return method.call(value);
 	}
 
 	protected createObjectKeyGetter(node: ESTree.Expression): Getter {
@@ -1971,11 +7778,25 @@ export class Interpreter {
 	}
 
 	protected createMemberKeyGetter(node: ESTree.MemberExpression): Getter {
+		// s.#a, the key is the PrivateName in scope
+		if ((node.property as Node).type === "PrivateIdentifier") {
+			const property = (node.property as Node) as PrivateIdentifier;
+
+			return () => this.getPrivateName(property);
+		}
+
 		// s['a'];  node.computed = true
 		// s.foo;  node.computed = false
-		return node.computed
+		const keyGetter = node.computed
 			? this.createClosure(node.property)
 			: this.createObjectKeyGetter(node.property);
+
+		// hardened mode: obj.__proto__, obj["__defineGetter__"] ...
+		if (this.options.hardened) {
+			return () => this.assertHardenedKey(keyGetter(), node);
+		}
+
+		return keyGetter;
 	}
 
 	// for UnaryExpression UpdateExpression AssignmentExpression
@@ -1984,6 +7805,14 @@ export class Interpreter {
 			case "Identifier":
 				return () => this.getScopeDataFromName(node.name, this.getCurrentScope());
 			case "MemberExpression":
+				// this.#a = 1, this.#a++
+				if ((node.property as Node).type === "PrivateIdentifier") {
+					const objectGetter = this.createClosure(node.object);
+					const keyGetter = this.createMemberKeyGetter(node);
+
+					return () => this.createPrivateReference(objectGetter(), keyGetter(), node);
+				}
+
 				return this.createClosure(node.object);
 			default:
 				throw this.createInternalThrowError(
@@ -2000,6 +7829,10 @@ export class Interpreter {
 			case "Identifier":
 				return () => node.name;
 			case "MemberExpression":
+				if ((node.property as Node).type === "PrivateIdentifier") {
+					return () => "value";
+				}
+
 				return this.createMemberKeyGetter(node);
 			default:
 				throw this.createInternalThrowError(
@@ -2010,6 +7843,97 @@ export class Interpreter {
 		}
 	}
 
+	protected getPrivateName(node: PrivateIdentifier): PrivateName {
+		return this.getScopeValue(`#${node.name}`, this.getCurrentScope());
+	}
+
+	// PrivateFieldAdd, PrivateMethodOrAccessorAdd
+	protected privateAdd(obj: any, privateName: PrivateName, value: any, node: Node): void {
+		if (privateName.objects.has(obj)) {
+			throw this.createInternalThrowError(
+				Messages.PrivateMemberInitializeTypeError,
+				privateName.name,
+				node
+			);
+		}
+
+		privateName.objects.set(obj, value);
+	}
+
+	// PrivateGet, obj must have the brand of the class
+	protected privateGet(obj: any, privateName: PrivateName, node: Node): any {
+		if (!privateName.objects.has(obj)) {
+			throw this.createInternalThrowError(
+				Messages.PrivateMemberAccessTypeError,
+				privateName.name,
+				node
+			);
+		}
+
+		switch (privateName.kind) {
+			case "field":
+				return privateName.objects.get(obj);
+			case "method":
+				return privateName.method;
+			default:
+				if (!privateName.getter) {
+					throw this.createInternalThrowError(
+						Messages.PrivateMemberReadTypeError,
+						privateName.name,
+						node
+					);
+				}
+
+				return privateName.getter.call(obj);
+		}
+	}
+
+	// PrivateSet
+	protected privateSet(obj: any, privateName: PrivateName, value: any, node: Node): void {
+		if (!privateName.objects.has(obj)) {
+			throw this.createInternalThrowError(
+				Messages.PrivateMemberAccessTypeError,
+				privateName.name,
+				node
+			);
+		}
+
+		if (privateName.kind === "field") {
+			privateName.objects.set(obj, value);
+		} else if (privateName.kind === "accessor" && privateName.setter) {
+			privateName.setter.call(obj, value);
+		} else {
+			throw this.createInternalThrowError(
+				Messages.PrivateMemberWriteTypeError,
+				privateName.name,
+				node
+			);
+		}
+	}
+
+	// obj.#a as { value } for assignment and update expressions
+	protected createPrivateReference(obj: any, privateName: PrivateName, node: Node): any {
+		const self = this;
+
+		return {
+			get value() {
+				return self.privateGet(obj, privateName, node);
+			},
+			set value(value: any) {
+				self.privateSet(obj, privateName, value, node);
+			},
+		};
+	}
+
+	// let/const bindings are checked before assignment
+	protected createScopeGetter(node: ESTree.Expression | ESTree.Pattern): (() => Scope) | null {
+		if (node.type === "Identifier") {
+			return () => this.getIdentifierScope(node);
+		}
+
+		return null;
+	}
+
 	protected varDeclaration(name: string): void {
 		const context = this.collectDeclVars;
 		context[name] = undefined;
@@ -2020,6 +7944,15 @@ export class Interpreter {
 		context[name] = func;
 	}
 
+	protected lexicalDeclaration(name: string, kind: string, func?: () => any): void {
+		const context = this.collectDeclLexicals;
+		context.names[name] = func;
+
+		if (kind === "const") {
+			context.consts[name] = true;
+		}
+	}
+
 	protected addDeclarationsToScope(
 		declVars: CollectDeclarations,
 		declFuncs: CollectDeclarations,
@@ -2039,6 +7972,20 @@ export class Interpreter {
 		}
 	}
 
+	protected addLexicalDeclarationsToScope(
+		declLexicals: CollectLexicalDeclarations,
+		scope: Scope
+	) {
+		const scopeData = scope.data;
+		const names = declLexicals.names;
+
+		for (let key in names) {
+			const value = names[key];
+			// function in block is initialized, others are in temporal dead zone
+			scopeData[key] = value ? value() : Uninitialized;
+		}
+	}
+
 	protected getScopeValue(name: string, startScope: Scope): any {
 		const scope = this.getScopeFromName(name, startScope);
 		return scope.data[name];
@@ -2,6 +2,7 @@ export class ThrowError extends Error {}
 export class ThrowSyntaxError extends SyntaxError {}
 export class ThrowReferenceError extends ReferenceError {}
 export class ThrowTypeError extends TypeError {}
+export class ThrowRangeError extends RangeError {}
 export class InterruptThrowError extends ThrowError {}
 export class InterruptThrowSyntaxError extends ThrowSyntaxError {}
 export class InterruptThrowReferenceError extends ThrowReferenceError {}
@@ -19,6 +20,11 @@ export type MessageItem = [
 export const Messages: Messages = {
 	UnknownError: [3001, "%0", InterruptThrowError],
 	ExecutionTimeOutError: [3002, "Script execution timed out after %0ms", InterruptThrowError],
+	ExecutionStepLimitError: [
+		3003,
+		"Script execution exceeded the limit of %0 steps",
+		InterruptThrowError,
+	],
 	NodeTypeSyntaxError: [1001, "Unknown node type: %0", InterruptThrowReferenceError],
 	BinaryOperatorSyntaxError: [1002, "Unknown binary operator: %0", InterruptThrowReferenceError],
 	LogicalOperatorSyntaxError: [
@@ -44,4 +50,108 @@ export const Messages: Messages = {
 	FunctionUndefinedReferenceError: [2001, "%0 is not a function", ThrowReferenceError],
 	VariableUndefinedReferenceError: [2002, "%0 is not defined", ThrowReferenceError],
 	IsNotConstructor: [2003, "%0 is not a constructor", ThrowTypeError],
+	VariableUninitializedReferenceError: [
+		2004,
+		"Cannot access '%0' before initialization",
+		ThrowReferenceError,
+	],
+	ConstantAssignmentTypeError: [2005, "Assignment to constant variable '%0'", ThrowTypeError],
+	VariableRedeclarationSyntaxError: [
+		2006,
+		"Identifier '%0' has already been declared",
+		ThrowSyntaxError,
+	],
+	ClassConstructorCallTypeError: [
+		2007,
+		"Class constructor %0 cannot be invoked without 'new'",
+		ThrowTypeError,
+	],
+	ClassExtendsTypeError: [
+		2008,
+		"Class extends value %0 is not a constructor or null",
+		ThrowTypeError,
+	],
+	SuperNotCalledReferenceError: [
+		2009,
+		"Must call super constructor in derived class before accessing 'this' or returning from derived constructor",
+		ThrowReferenceError,
+	],
+	SuperCalledReferenceError: [
+		2010,
+		"Super constructor may only be called once",
+		ThrowReferenceError,
+	],
+	DerivedConstructorReturnTypeError: [
+		2011,
+		"Derived constructors may only return object or undefined",
+		ThrowTypeError,
+	],
+	DestructureTypeError: [
+		2012,
+		"Cannot destructure '%0' as it is undefined or null",
+		ThrowTypeError,
+	],
+	NotIterableTypeError: [2013, "%0 is not iterable", ThrowTypeError],
+	ModuleNotFoundError: [2014, "Cannot find module '%0'", ThrowError],
+	ModuleExportSyntaxError: [
+		2015,
+		"The requested module does not provide an export named '%0'",
+		ThrowSyntaxError,
+	],
+	AmbiguousExportSyntaxError: [
+		2016,
+		"The requested module contains conflicting star exports for name '%0'",
+		ThrowSyntaxError,
+	],
+	ModuleRedeclarationError: [2017, "Module '%0' has already been declared", ThrowError],
+	PrivateMemberAccessTypeError: [
+		2018,
+		"Cannot access private member %0 from an object whose class did not declare it",
+		ThrowTypeError,
+	],
+	PrivateMemberInitializeTypeError: [
+		2019,
+		"Cannot initialize %0 twice on the same object",
+		ThrowTypeError,
+	],
+	PrivateMemberWriteTypeError: [2020, "Private member %0 is not writable", ThrowTypeError],
+	PrivateMemberReadTypeError: [2021, "'%0' was defined without a getter", ThrowTypeError],
+	PrivateInOperatorTypeError: [
+		2022,
+		"Cannot use 'in' operator to search for a private member in %0",
+		ThrowTypeError,
+	],
+	BigIntMixTypeError: [
+		2023,
+		"Cannot mix BigInt and other types, use explicit conversions",
+		ThrowTypeError,
+	],
+	BigIntToNumberTypeError: [2024, "Cannot convert a BigInt value to a number", ThrowTypeError],
+	BigIntUnsignedRightShiftTypeError: [
+		2025,
+		"BigInts have no unsigned right shift, use >> instead",
+		ThrowTypeError,
+	],
+	BigIntNegativeExponentRangeError: [2026, "Exponent must be non-negative", ThrowRangeError],
+	BigIntUnsupportedSyntaxError: [2027, "BigInt literal %0 is not supported", ThrowSyntaxError],
+	HardenedModeTypeError: [2028, "%0 is not allowed in hardened mode", ThrowTypeError],
+	AccessDenied: [2029, "Access denied: %0", ThrowTypeError],
+	FrozenIntrinsicAssignTypeError: [
+		2030,
+		"Cannot assign to property '%0' of a frozen built-in object",
+		ThrowTypeError,
+	],
+	FrozenIntrinsicDeleteTypeError: [
+		2031,
+		"Cannot delete property '%0' of a frozen built-in object",
+		ThrowTypeError,
+	],
+	FunctionBodySyntaxError: [2032, "Unexpected end of the function body", ThrowSyntaxError],
+	ModuleNamespaceAssignTypeError: [
+		2033,
+		"Cannot assign to read only property '%0' of object '[object Module]'",
+		ThrowTypeError,
+	],
+	TopLevelAwaitSyntaxError: [2034, "Top-level %0 is not supported in modules", ThrowSyntaxError],
+	SuspensionSyntaxError: [2035, "%0 is not supported in this position", ThrowSyntaxError],
 };
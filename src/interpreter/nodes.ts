@@ -2,6 +2,47 @@ import * as ESTree from "estree";
 
 export { ESTree };
 
+interface BaseNode {
+	loc?: ESTree.SourceLocation | null;
+	range?: [number, number];
+	start?: number;
+	end?: number;
+}
+
+// #a
+export interface PrivateIdentifier extends BaseNode {
+	type: "PrivateIdentifier";
+	name: string;
+}
+
+// class { a = 1; static #b; }
+export interface PropertyDefinition extends BaseNode {
+	type: "PropertyDefinition";
+	key: ESTree.Expression | PrivateIdentifier;
+	value: ESTree.Expression | null;
+	computed: boolean;
+	static: boolean;
+}
+
+// class { static { ... } }
+export interface StaticBlock extends BaseNode {
+	type: "StaticBlock";
+	body: ESTree.Statement[];
+}
+
+export type ClassElement = ESTree.MethodDefinition | PropertyDefinition | StaticBlock;
+
+// export * as ns from "x"
+export interface ExportAllDeclaration extends ESTree.ExportAllDeclaration {
+	exported: ESTree.Identifier | null;
+}
+
+// a?.b, a?.(), a?.[b]
+export interface ChainExpression extends ESTree.BaseExpression {
+	type: "ChainExpression";
+	expression: ESTree.MemberExpression | ESTree.SimpleCallExpression;
+}
+
 export type Node =
 	| ESTree.Node
 	| ESTree.BinaryExpression
@@ -26,12 +67,21 @@ export type Node =
 	| ESTree.EmptyStatement
 	| ESTree.ReturnStatement
 	| ESTree.FunctionExpression
+	| ESTree.ArrowFunctionExpression
+	| ESTree.ClassDeclaration
+	| ESTree.ClassExpression
+	| ESTree.Super
+	| ESTree.TemplateLiteral
+	| ESTree.TaggedTemplateExpression
+	| ESTree.YieldExpression
+	| ESTree.AwaitExpression
 	| ESTree.IfStatement
 	| ESTree.ConditionalExpression
 	| ESTree.ForStatement
 	| ESTree.WhileStatement
 	| ESTree.DoWhileStatement
 	| ESTree.ForInStatement
+	| ESTree.ForOfStatement
 	| ESTree.WithStatement
 	| ESTree.ThrowStatement
 	| ESTree.TryStatement
@@ -40,4 +90,10 @@ export type Node =
 	| ESTree.SwitchStatement
 	| ESTree.SwitchCase
 	| ESTree.LabeledStatement
-	| ESTree.DebuggerStatement;
+	| ESTree.DebuggerStatement
+	| ESTree.ImportDeclaration
+	| ESTree.ExportNamedDeclaration
+	| ESTree.ExportDefaultDeclaration
+	| ESTree.ExportAllDeclaration
+	| ChainExpression
+	| PrivateIdentifier;
@@ -0,0 +1,210 @@
+import { createContext, compileFunction } from "./vm";
+import { RequireOptions, CommonJSModule, RequireFunction } from "./types";
+import { Messages } from "./interpreter/messages";
+
+const hasOwnProperty = Object.prototype.hasOwnProperty;
+// (function (exports, require, module, __filename, __dirname) { ... })
+const wrapperParams = ["exports", "require", "module", "__filename", "__dirname"];
+
+// "/a/./b/../c" -> "/a/c"
+function normalizePath(path: string): string {
+	const parts: string[] = [];
+
+	path.split("/").forEach(part => {
+		if (part === "" || part === ".") return;
+
+		if (part === "..") {
+			parts.pop();
+		} else {
+			parts.push(part);
+		}
+	});
+
+	return "/" + parts.join("/");
+}
+
+function dirname(filename: string): string {
+	const index = filename.lastIndexOf("/");
+
+	return index <= 0 ? "/" : filename.slice(0, index);
+}
+
+// ./a ../a /a
+function isPathRequest(request: string): boolean {
+	return /^(\.\.?(\/|$)|\/)/.test(request);
+}
+
+function createNotFoundError(request: string): Error {
+	const error: any = new Error(Messages.ModuleNotFoundError[1].replace("%0", request));
+
+	error.code = "MODULE_NOT_FOUND";
+
+	return error;
+}
+
+/**
+ * CommonJS environment on top of the virtual file system options.files,
+ * every file is compiled by vm.compileFunction with the Node.js module wrapper
+ */
+export function createRequire(
+	options: RequireOptions,
+	filename: string = "/index.js"
+): RequireFunction {
+	const files = options.files;
+	const builtinModules = options.builtinModules || Object.create(null);
+	// isolated realm: shared by all modules, hardened mode uses a realm too
+	const context = createContext(options.context, {
+		realm: !!options.realm || (!!options.hardened && !options.lockdown),
+	});
+	const cache: { [filename: string]: CommonJSModule } = Object.create(null);
+
+	function tryFile(filename: string): string | null {
+		return hasOwnProperty.call(files, filename) ? filename : null;
+	}
+
+	function loadAsFile(path: string): string | null {
+		return tryFile(path) || tryFile(`${path}.js`) || tryFile(`${path}.json`);
+	}
+
+	function loadIndex(path: string): string | null {
+		return tryFile(`${path}/index.js`) || tryFile(`${path}/index.json`);
+	}
+
+	function loadAsDirectory(path: string): string | null {
+		const pkg = tryFile(`${path}/package.json`);
+
+		if (pkg) {
+			const main = JSON.parse(files[pkg]).main;
+
+			if (main) {
+				const mainPath = normalizePath(`${path}/${main}`);
+				const resolved = loadAsFile(mainPath) || loadIndex(mainPath);
+
+				if (resolved) return resolved;
+			}
+		}
+
+		return loadIndex(path);
+	}
+
+	function resolveFilename(request: string, dir: string): string {
+		let resolved: string | null = null;
+
+		if (isPathRequest(request)) {
+			const path = normalizePath(request[0] === "/" ? request : `${dir}/${request}`);
+
+			resolved = loadAsFile(path) || loadAsDirectory(path);
+		} else {
+			// node_modules of the directory and its parents
+			let current = dir;
+
+			while (!resolved) {
+				if (!/(^|\/)node_modules$/.test(current)) {
+					const path = normalizePath(`${current}/node_modules/${request}`);
+
+					resolved = loadAsFile(path) || loadAsDirectory(path);
+				}
+
+				if (current === "/") break;
+
+				current = dirname(current);
+			}
+		}
+
+		if (!resolved) {
+			throw createNotFoundError(request);
+		}
+
+		return resolved;
+	}
+
+	function loadModule(module: CommonJSModule) {
+		const source = files[module.filename];
+
+		if (/\.json$/.test(module.filename)) {
+			module.exports = JSON.parse(source);
+			return;
+		}
+
+		const wrapper = compileFunction(source, wrapperParams, {
+			parsingContext: context,
+			timeout: options.timeout,
+			maxSteps: options.maxSteps,
+			ecmaVersion: options.ecmaVersion,
+			rootContext: options.rootContext,
+			globalContextInFunction: options.globalContextInFunction,
+			strict: options.strict,
+			hardened: options.hardened,
+			policy: options.policy,
+			lockdown: options.lockdown,
+		});
+
+		wrapper.call(
+			module.exports,
+			module.exports,
+			module.require,
+			module,
+			module.filename,
+			dirname(module.filename)
+		);
+	}
+
+	function requireModule(request: string, parent: CommonJSModule | null, dir: string): any {
+		// only whitelisted built-in modules can be required
+		if (!isPathRequest(request) && hasOwnProperty.call(builtinModules, request)) {
+			return builtinModules[request];
+		}
+
+		const filename = resolveFilename(request, dir);
+		const cachedModule = cache[filename];
+
+		// circular require returns the unfinished exports
+		if (cachedModule) {
+			return cachedModule.exports;
+		}
+
+		// module.require: the requests of the module are resolved from its directory
+		const require = makeRequire(() => module, dirname(filename));
+		const module: CommonJSModule = {
+			id: filename,
+			filename,
+			exports: {},
+			loaded: false,
+			parent,
+			children: [],
+			require,
+		};
+
+		cache[filename] = module;
+
+		if (parent) {
+			parent.children.push(module);
+		}
+
+		try {
+			loadModule(module);
+		} catch (e) {
+			delete cache[filename];
+			throw e;
+		}
+
+		module.loaded = true;
+
+		return module.exports;
+	}
+
+	function makeRequire(getParent: () => CommonJSModule | null, dir: string): RequireFunction {
+		const require = ((request: string) =>
+			requireModule(request, getParent(), dir)) as RequireFunction;
+
+		require.resolve = (request: string) =>
+			!isPathRequest(request) && hasOwnProperty.call(builtinModules, request)
+				? request
+				: resolveFilename(request, dir);
+		require.cache = cache;
+
+		return require;
+	}
+
+	return makeRequire(() => null, dirname(filename));
+}
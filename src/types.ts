@@ -3,17 +3,116 @@ export type VMContext = {
 	[x: number]: any;
 };
 
+// consulted before property access, calls and constructs of scripts, returns false to deny
+export interface Policy {
+	get?: (target: any, key: PropertyKey) => boolean;
+	set?: (target: any, key: PropertyKey, value: any) => boolean;
+	deleteProperty?: (target: any, key: PropertyKey) => boolean;
+	call?: (fn: Function, thisArg: any, args: any[]) => boolean;
+	construct?: (fn: Function, args: any[]) => boolean;
+}
+
+export interface ContextOptions {
+	// isolated realm: scripts of the context share their own copies of the built-in objects
+	realm?: boolean;
+}
+
 export interface CompileOptions {
 	parsingContext?: VMContext;
 	timeout?: number;
-	ecmaVersion?: 3 | 5 | 6 | 7 | 8 | 9 | 10 | 11 | 2015 | 2016 | 2017 | 2018 | 2019 | 2020;
+	// the number of evaluated nodes, 0 is not limited
+	maxSteps?: number;
+	ecmaVersion?:
+		| 3
+		| 5
+		| 6
+		| 7
+		| 8
+		| 9
+		| 10
+		| 11
+		| 12
+		| 13
+		| 2015
+		| 2016
+		| 2017
+		| 2018
+		| 2019
+		| 2020
+		| 2021
+		| 2022
+		| "latest";
 	rootContext?: VMContext | null;
 	globalContextInFunction?: any;
+	// all code is strict mode code
+	strict?: boolean;
+	// host Function, eval and the legacy accessors are not reachable from scripts
+	hardened?: boolean;
+	policy?: Policy;
+	// isolated realm: the script gets its own copies of the built-in objects
+	realm?: boolean;
+	// the built-in objects seen by the script are frozen, the host is not affected
+	lockdown?: boolean;
 }
 
 export interface ScriptOptions {
-	ecmaVersion?: 3 | 5 | 6 | 7 | 8 | 9 | 10 | 11 | 2015 | 2016 | 2017 | 2018 | 2019 | 2020;
+	ecmaVersion?:
+		| 3
+		| 5
+		| 6
+		| 7
+		| 8
+		| 9
+		| 10
+		| 11
+		| 12
+		| 13
+		| 2015
+		| 2016
+		| 2017
+		| 2018
+		| 2019
+		| 2020
+		| 2021
+		| 2022
+		| "latest";
 	timeout?: number;
+	// the number of evaluated nodes, 0 is not limited
+	maxSteps?: number;
 	rootContext?: VMContext | null;
 	globalContextInFunction?: any;
+	// all code is strict mode code
+	strict?: boolean;
+	// host Function, eval and the legacy accessors are not reachable from scripts
+	hardened?: boolean;
+	policy?: Policy;
+	// isolated realm: the script gets its own copies of the built-in objects
+	realm?: boolean;
+	// the built-in objects seen by the script are frozen, the host is not affected
+	lockdown?: boolean;
+}
+
+export interface RequireOptions extends ScriptOptions {
+	// virtual file system: absolute filename -> source code
+	files: { [filename: string]: string };
+	// built-in modules that may be required: name -> exports
+	builtinModules?: { [name: string]: any };
+	// global context shared by all modules
+	context?: VMContext;
+}
+
+export interface CommonJSModule {
+	id: string;
+	filename: string;
+	exports: any;
+	loaded: boolean;
+	parent: CommonJSModule | null;
+	children: CommonJSModule[];
+	require: RequireFunction;
+}
+
+export interface RequireFunction {
+	(id: string): any;
+	resolve(id: string): string;
+	cache: { [filename: string]: CommonJSModule };
 }
@@ -1,13 +1,31 @@
-import { Interpreter } from "./interpreter/main";
-import { VMContext, CompileOptions, ScriptOptions } from "./types";
+import { parse } from "acorn";
+import { Interpreter, Realm } from "./interpreter/main";
+import { ESTree } from "./interpreter/nodes";
+import { Messages, ThrowSyntaxError } from "./interpreter/messages";
+import { VMContext, ContextOptions, CompileOptions, ScriptOptions } from "./types";
 
 // TODO:
 // add tests
 
-export function createContext(ctx: VMContext = Object.create(null)): VMContext {
+// isolated realm of the context, see createContext
+const contextRealms = new WeakMap<VMContext, Realm>();
+
+export function createContext(
+	ctx: VMContext = Object.create(null),
+	options: ContextOptions = {}
+): VMContext {
+	if (options.realm && !contextRealms.has(ctx)) {
+		contextRealms.set(ctx, new Realm());
+	}
+
 	return ctx;
 }
 
+// the realm of the context, or a new realm for options.realm
+function getRealm(ctx?: VMContext, options: ScriptOptions = {}): Realm | boolean | undefined {
+	return (ctx && contextRealms.get(ctx)) || options.realm;
+}
+
 export function compileFunction(
 	code: string,
 	params: string[] = [],
@@ -16,30 +34,68 @@ export function compileFunction(
 	const ctx: any = options.parsingContext;
 	const timeout = options.timeout === undefined ? 0 : options.timeout;
 
-	const wrapCode = `
+	const prefix = `
     (function anonymous(${params.join(",")}){
-         ${code}
+         `;
+	const suffix = `
     });
     `;
+	const wrapCode = prefix + code + suffix;
 
 	const interpreter = new Interpreter(ctx, {
 		ecmaVersion: options.ecmaVersion,
 		timeout,
+		maxSteps: options.maxSteps,
 		rootContext: options.rootContext,
 		globalContextInFunction: options.globalContextInFunction,
+		strict: options.strict,
+		hardened: options.hardened,
+		policy: options.policy,
+		realm: getRealm(ctx, options),
+		lockdown: options.lockdown,
 	});
 
+	// the code is the whole body of the function: "}); f(); (function () {" can not close the wrapper
+	const program = (parse(wrapCode, {
+		ecmaVersion: interpreter.getOptions().ecmaVersion!,
+		ranges: true,
+	}) as unknown) as ESTree.Program;
+	const statement = program.body.length === 1 ? program.body[0] : null;
+	const func =
+		statement && statement.type === "ExpressionStatement" ? statement.expression : null;
+
+	if (
+		!func ||
+		func.type !== "FunctionExpression" ||
+		func.body.range![0] !== prefix.lastIndexOf("{") ||
+		func.body.range![1] !== prefix.length + code.length + suffix.indexOf("}") + 1
+	) {
+		throw new ThrowSyntaxError(Messages.FunctionBodySyntaxError[1]);
+	}
+
 	return interpreter.evaluate(wrapCode);
 }
 
 export function runInContext(code: string, ctx?: VMContext, options?: ScriptOptions): any {
-	const interpreter = new Interpreter(ctx, options);
+	const interpreter = new Interpreter(ctx, { ...options, realm: getRealm(ctx, options) });
 
 	return interpreter.evaluate(code);
 }
 
 export const runInNewContext = runInContext;
 
+export function runInContextAsync(
+	code: string,
+	ctx?: VMContext,
+	options?: ScriptOptions
+): Promise<any> {
+	const interpreter = new Interpreter(ctx, { ...options, realm: getRealm(ctx, options) });
+
+	return interpreter.evaluateAsync(code);
+}
+
+export const runInNewContextAsync = runInContextAsync;
+
 export class Script {
 	_code: string;
 	constructor(code: string) {
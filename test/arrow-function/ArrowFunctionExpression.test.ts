@@ -0,0 +1,130 @@
+import { run } from "../helpers";
+
+test("arrow function -1", () => {
+	const a = run(
+		`
+var add = (a, b) => a + b;
+add(1, 2);
+  `
+	);
+
+	expect(a).toEqual(3);
+});
+
+test("arrow function -2", () => {
+	const a = run(
+		`
+var test = () => {
+	var a = 1;
+	return a + 1;
+};
+test();
+  `
+	);
+
+	expect(a).toEqual(2);
+});
+
+test("arrow function concise body", () => {
+	const a = run(
+		`
+var create = name => ({ name: name });
+create("eval5").name;
+  `
+	);
+
+	expect(a).toEqual("eval5");
+});
+
+test("arrow function name", () => {
+	const a = run(
+		`
+var test = () => {};
+const obj = { say: () => {} };
+[test.name, obj.say.name, (() => {}).name];
+  `
+	);
+
+	expect(a).toEqual(["test", "say", ""]);
+});
+
+test("lexical this", () => {
+	const a = run(
+		`
+var obj = {
+	value: 1,
+	getValues: function(){
+		return [1, 2].map(x => x + this.value);
+	}
+};
+obj.getValues();
+  `
+	);
+
+	expect(a).toEqual([2, 3]);
+});
+
+test("lexical this -2", () => {
+	const ctx = {};
+	const a = run(
+		`
+var getThis = () => this;
+getThis.call({});
+  `,
+		ctx
+	);
+
+	expect(a).toEqual(ctx);
+});
+
+test("lexical arguments", () => {
+	const a = run(
+		`
+function test(){
+	var getArgs = () => arguments;
+	return getArgs(3, 4);
+}
+Array.prototype.slice.call(test(1, 2));
+  `
+	);
+
+	expect(a).toEqual([1, 2]);
+});
+
+test("closure", () => {
+	const a = run(
+		`
+const counter = () => {
+	let count = 0;
+	return () => ++count;
+};
+const next = counter();
+next();
+next();
+  `
+	);
+
+	expect(a).toEqual(2);
+});
+
+test("new arrow function", () => {
+	expect(() => {
+		run(
+			`
+var Test = () => {};
+new Test();
+  `
+		);
+	}).toThrow("Test is not a constructor");
+});
+
+test("call from host", () => {
+	const fn = run(
+		`
+(a, b) => a * b;
+  `
+	);
+
+	expect(fn(2, 3)).toEqual(6);
+	expect(fn.length).toEqual(2);
+});
@@ -0,0 +1,122 @@
+import { Interpreter } from "../../src";
+import { createRun } from "../helpers";
+
+const run = createRun({ ecmaVersion: 2021 });
+
+test("exponentiation assignment", () => {
+	const result = run(`
+var a = 2;
+var obj = { b: 3 };
+a **= 3;
+obj.b **= 2;
+obj["b"] **= 0.5;
+[a, obj.b];
+	`);
+
+	expect(result).toEqual([8, 3]);
+});
+
+test("compound assignment reads the reference once", () => {
+	const result = run(`
+var log = [];
+var obj = {
+	_v: 2,
+	get v() { log.push("get"); return this._v; },
+	set v(value) { log.push("set " + value); this._v = value; },
+};
+obj.v **= 2;
+obj.v += 1;
+log;
+	`);
+
+	expect(result).toEqual(["get", "set 4", "get", "set 5"]);
+});
+
+test("compound assignment evaluation order", () => {
+	const result = run(`
+var log = [];
+var obj = { get a() { log.push("get"); return 1; }, set a(v) { log.push("set"); } };
+function o() { log.push("object"); return obj; }
+function k() { log.push("key"); return "a"; }
+function r() { log.push("right"); return 2; }
+o()[k()] -= r();
+log;
+	`);
+
+	expect(result).toEqual(["object", "key", "get", "right", "set"]);
+});
+
+test("compound assignment to undeclared or uninitialized", () => {
+	expect(() => run(`var called = false; x += (called = true);`)).toThrow(ReferenceError);
+	expect(run(`var called = false; try { x += (called = true); } catch (e) {} called;`)).toBe(
+		false
+	);
+	expect(() => run(`{ a += 1; let a = 1; }`)).toThrow(ReferenceError);
+	expect(() => run(`const a = 1; a **= 2;`)).toThrow(TypeError);
+});
+
+test("logical assignment", () => {
+	const result = run(`
+var a = 0, b = 1, c = null, d = 0;
+a ||= 10;
+b &&= 20;
+c ??= 30;
+d ??= 40;
+[a, b, c, d];
+	`);
+
+	expect(result).toEqual([10, 20, 30, 0]);
+});
+
+test("logical assignment short-circuits", () => {
+	const result = run(`
+var log = [];
+var obj = {
+	get truthy() { log.push("get truthy"); return 1; },
+	set truthy(v) { log.push("set truthy"); },
+	get nothing() { log.push("get nothing"); return null; },
+	set nothing(v) { log.push("set nothing " + v); },
+};
+function r(v) { log.push("right"); return v; }
+obj.truthy ||= r(1);
+obj.truthy ??= r(2);
+obj.nothing &&= r(3);
+obj.nothing ??= r(4);
+log;
+	`);
+
+	expect(result).toEqual([
+		"get truthy",
+		"get truthy",
+		"get nothing",
+		"get nothing",
+		"right",
+		"set nothing 4",
+	]);
+});
+
+test("logical assignment to const", () => {
+	expect(run(`const a = 1; a ||= 2; a;`)).toBe(1);
+	expect(() => run(`const a = 0; a ||= 2;`)).toThrow(TypeError);
+});
+
+test("logical assignment names functions", () => {
+	expect(run(`var f; f ??= function () {}; f.name;`)).toBe("f");
+});
+
+test("assignment with await", async () => {
+	const interpreter = new Interpreter({}, { ecmaVersion: 2021 });
+	const result = await interpreter.evaluateAsync(`
+var log = [];
+async function r(v) { log.push("right " + v); return v; }
+var obj = { a: 1, b: null, c: 2 };
+obj.a ||= await r(1);
+obj.b ??= await r(2);
+obj["c"] **= await r(3);
+var x = 1;
+x += await r(4);
+[obj, x, log];
+	`);
+
+	expect(result).toEqual([{ a: 1, b: 2, c: 8 }, 5, ["right 2", "right 3", "right 4"]]);
+});
@@ -0,0 +1,199 @@
+import { run } from "../helpers";
+
+test("async function -1", async () => {
+	const promise = run(
+		`
+async function add(a, b) {
+	return a + b;
+}
+add(1, 2);
+  `
+	);
+
+	expect(promise instanceof Promise).toEqual(true);
+	expect(await promise).toEqual(3);
+});
+
+test("await host promise", async () => {
+	const fetchUser = (id: number) => Promise.resolve({ id, name: "user" + id });
+
+	const a = await run(
+		`
+async function getNames(ids) {
+	const names = [];
+	for (const id of ids) {
+		const user = await fetchUser(id);
+		names.push(user.name);
+	}
+	return names;
+}
+getNames([1, 2]);
+  `,
+		{ fetchUser }
+	);
+
+	expect(a).toEqual(["user1", "user2"]);
+});
+
+test("async body runs until the first await", async () => {
+	const a = run(
+		`
+const log = [];
+async function test() {
+	log.push("start");
+	await null;
+	log.push("resumed");
+}
+const promise = test();
+log.push("after call");
+[log, promise];
+  `
+	);
+
+	expect(a[0]).toEqual(["start", "after call"]);
+	await a[1];
+	expect(a[0]).toEqual(["start", "after call", "resumed"]);
+});
+
+test("async arrow functions", async () => {
+	const a = await run(
+		`
+const double = async x => (await x) * 2;
+const obj = {
+	value: 1,
+	getValue() {
+		return (async () => {
+			await null;
+			return this.value + arguments[0];
+		})();
+	}
+};
+Promise.all([double(Promise.resolve(2)), obj.getValue(10)]);
+  `
+	);
+
+	expect(a).toEqual([4, 11]);
+});
+
+test("async scope is preserved across await", async () => {
+	const a = await run(
+		`
+let shared = "global";
+async function task(name, delay) {
+	let local = name;
+	{
+		const inner = name + "-inner";
+		await wait(delay);
+		return [local, inner, shared];
+	}
+}
+Promise.all([task("a", 20), task("b", 0)]);
+  `,
+		{ wait: (ms: number) => new Promise(resolve => setTimeout(resolve, ms)) }
+	);
+
+	expect(a).toEqual([
+		["a", "a-inner", "global"],
+		["b", "b-inner", "global"],
+	]);
+});
+
+test("await rejected promise", async () => {
+	const a = await run(
+		`
+async function test() {
+	try {
+		await Promise.reject(new Error("oops"));
+	} catch (e) {
+		return "caught " + e.message;
+	} finally {
+		log.push("finally");
+	}
+}
+test();
+  `,
+		{ log: [] }
+	);
+
+	expect(a).toEqual("caught oops");
+});
+
+test("async function rejects", async () => {
+	const promise = run(
+		`
+async function test() {
+	await null;
+	throw new Error("failed");
+}
+test();
+  `
+	);
+
+	await expect(promise).rejects.toThrow("failed");
+});
+
+test("async methods", async () => {
+	const a = await run(
+		`
+class Service {
+	constructor() {
+		this.prefix = "item";
+	}
+	async load(id) {
+		const value = await Promise.resolve(id);
+		return this.prefix + value;
+	}
+	static async create() {
+		return new Service();
+	}
+}
+Service.create().then(service => service.load(1));
+  `
+	);
+
+	expect(a).toEqual("item1");
+});
+
+test("new async function", () => {
+	expect(() => {
+		run(
+			`
+async function test() {}
+new test();
+  `
+		);
+	}).toThrow("test is not a constructor");
+});
+
+test("await in variable declarations with several declarators", async () => {
+	const a = await run(
+		`
+async function load() {
+	const user = await fetchUser(), orders = await fetchOrders(user.id);
+	return orders;
+}
+load();
+  `,
+		{
+			fetchUser: () => Promise.resolve({ id: 1 }),
+			fetchOrders: (id: number) => Promise.resolve([id, 2]),
+		}
+	);
+
+	expect(a).toEqual([1, 2]);
+});
+
+test("await in destructuring defaults", async () => {
+	const a = await run(
+		`
+async function f() {
+	const [a, b = await 2] = [1];
+	const { c = await Promise.resolve(3) } = {};
+	return [a, b, c];
+}
+f();
+  `
+	);
+
+	expect(a).toEqual([1, 2, 3]);
+});
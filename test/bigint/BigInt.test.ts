@@ -0,0 +1,86 @@
+import { run } from "../helpers";
+
+test("BigInt literals", () => {
+	const a = run(
+		`
+[10n, 0x1fn, 0o17n, 0b101n, typeof 1n, 9007199254740993n];
+	`
+	);
+
+	expect(a).toEqual([
+		BigInt(10),
+		BigInt(31),
+		BigInt(15),
+		BigInt(5),
+		"bigint",
+		BigInt("9007199254740993"),
+	]);
+});
+
+test("BigInt global", () => {
+	const a = run(
+		`
+[BigInt("18446744073709551615"), BigInt(10) === 10n, BigInt.asUintN(8, 257n), String(2n ** 64n)];
+	`
+	);
+
+	expect(a).toEqual([BigInt("18446744073709551615"), true, BigInt(1), "18446744073709551616"]);
+});
+
+test("BigInt arithmetic keeps precision", () => {
+	const a = run(
+		`
+const id = 9007199254740993n;
+let x = 10n;
+x++;
+x += 5n;
+x **= 2n;
+[id + 2n, id * 3n, id / 2n, id % 10n, -id, ~1n, 1n << 64n, -9n >> 1n, 6n & 3n, 6n | 3n, 6n ^ 3n, 2n ** 100n, x];
+	`
+	);
+
+	expect(a).toEqual([
+		BigInt("9007199254740995"),
+		BigInt("27021597764222979"),
+		BigInt("4503599627370496"),
+		BigInt(3),
+		BigInt("-9007199254740993"),
+		BigInt(-2),
+		BigInt("18446744073709551616"),
+		BigInt(-5),
+		BigInt(2),
+		BigInt(7),
+		BigInt(5),
+		BigInt("1267650600228229401496703205376"),
+		BigInt(256),
+	]);
+});
+
+test("BigInt comparison and string concatenation", () => {
+	const a = run(
+		`
+[1n < 2, 2n > 1.5, 1n == 1, 1n === 1, 1n + "", "id:" + 5n, 0n ? "t" : "f", { valueOf() { return 2n; } } * 3n];
+	`
+	);
+
+	expect(a).toEqual([true, true, true, false, "1", "id:5", "f", BigInt(6)]);
+});
+
+test("mixing BigInt and Number throws TypeError", () => {
+	expect(() => run(`1n + 1`)).toThrow(TypeError);
+	expect(() => run(`1 * 1n`)).toThrow(TypeError);
+	expect(() => run(`2n ** 2`)).toThrow(TypeError);
+	expect(() => run(`1n << 1`)).toThrow(TypeError);
+	expect(() => run(`1n - "1"`)).toThrow(TypeError);
+	expect(() => run(`let a = 1n; a += 1;`)).toThrow(TypeError);
+	expect(() => run(`let a = 1; a **= 1n;`)).toThrow(TypeError);
+	expect(() => run(`+1n`)).toThrow(TypeError);
+	expect(() => run(`1n >>> 1n`)).toThrow(TypeError);
+	expect(() => run(`Math.max(1n)`)).toThrow(TypeError);
+});
+
+test("BigInt range errors", () => {
+	expect(() => run(`1n / 0n`)).toThrow(RangeError);
+	expect(() => run(`2n ** -1n`)).toThrow(RangeError);
+	expect(run(`try { 2n ** -1n; } catch (e) { e instanceof RangeError; }`)).toBe(true);
+});
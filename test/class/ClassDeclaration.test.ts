@@ -0,0 +1,277 @@
+import { run } from "../helpers";
+
+test("class -1", () => {
+	const a = run(
+		`
+class Point {
+	constructor(x, y) {
+		this.x = x;
+		this.y = y;
+	}
+	sum() {
+		return this.x + this.y;
+	}
+}
+const p = new Point(1, 2);
+[p.x, p.y, p.sum(), p instanceof Point, p.constructor === Point];
+  `
+	);
+
+	expect(a).toEqual([1, 2, 3, true, true]);
+});
+
+test("class expression", () => {
+	const a = run(
+		`
+const A = class {
+	getName() {
+		return "A";
+	}
+};
+const B = class Inner {
+	getName() {
+		return Inner.name;
+	}
+};
+[A.name, new A().getName(), B.name, new B().getName()];
+  `
+	);
+
+	expect(a).toEqual(["A", "A", "Inner", "Inner"]);
+});
+
+test("static methods and accessors", () => {
+	const a = run(
+		`
+class Temperature {
+	constructor(celsius) {
+		this.celsius = celsius;
+	}
+	get fahrenheit() {
+		return this.celsius * 1.8 + 32;
+	}
+	set fahrenheit(value) {
+		this.celsius = (value - 32) / 1.8;
+	}
+	static fromFahrenheit(value) {
+		const t = new Temperature(0);
+		t.fahrenheit = value;
+		return t;
+	}
+}
+const t = Temperature.fromFahrenheit(212);
+[t.celsius, t.fahrenheit];
+  `
+	);
+
+	expect(a).toEqual([100, 212]);
+});
+
+test("computed keys and method names", () => {
+	const a = run(
+		`
+const key = "say";
+class A {
+	[key + "Hello"]() {
+		return "hello";
+	}
+	[Symbol.iterator]() {}
+	get value() {}
+}
+const desc = Object.getOwnPropertyDescriptor(A.prototype, "value");
+[new A().sayHello(), A.prototype.sayHello.name, A.prototype[Symbol.iterator].name, desc.get.name];
+  `
+	);
+
+	expect(a).toEqual(["hello", "sayHello", "[Symbol.iterator]", "get value"]);
+});
+
+test("methods are not enumerable", () => {
+	const a = run(
+		`
+class A {
+	constructor() {
+		this.a = 1;
+	}
+	method() {}
+	static create() {}
+}
+[Object.keys(A.prototype), Object.keys(A), Object.keys(new A())];
+  `
+	);
+
+	expect(a).toEqual([[], [], ["a"]]);
+});
+
+test("extends and super", () => {
+	const a = run(
+		`
+class Animal {
+	constructor(name) {
+		this.name = name;
+	}
+	speak() {
+		return this.name + " makes a sound";
+	}
+	static create(name) {
+		return new this(name);
+	}
+}
+class Dog extends Animal {
+	constructor(name) {
+		super(name);
+		this.kind = "dog";
+	}
+	speak() {
+		return super.speak() + ", woof";
+	}
+}
+const d = Dog.create("Rex");
+[d.speak(), d.kind, d instanceof Dog, d instanceof Animal, Object.getPrototypeOf(Dog) === Animal];
+  `
+	);
+
+	expect(a).toEqual(["Rex makes a sound, woof", "dog", true, true, true]);
+});
+
+test("default derived constructor", () => {
+	const a = run(
+		`
+class A {
+	constructor(a, b) {
+		this.sum = a + b;
+	}
+}
+class B extends A {}
+new B(1, 2).sum;
+  `
+	);
+
+	expect(a).toEqual(3);
+});
+
+test("super getter uses current this", () => {
+	const a = run(
+		`
+class A {
+	get name() {
+		return "A:" + this.id;
+	}
+}
+class B extends A {
+	constructor() {
+		super();
+		this.id = 1;
+	}
+	get name() {
+		return "B>" + super.name;
+	}
+}
+new B().name;
+  `
+	);
+
+	expect(a).toEqual("B>A:1");
+});
+
+test("extends host class", () => {
+	const a = run(
+		`
+class MyError extends Error {
+	constructor(message) {
+		super(message);
+		this.name = "MyError";
+	}
+}
+class List extends Array {}
+const e = new MyError("oops");
+const list = new List();
+list.push(1, 2);
+[e instanceof MyError, e instanceof Error, e.message, list.length, list instanceof List];
+  `
+	);
+
+	expect(a).toEqual([true, true, "oops", 2, true]);
+});
+
+test("extends null", () => {
+	const a = run(
+		`
+class A extends null {
+	constructor() {
+		return Object.create(A.prototype);
+	}
+}
+Object.getPrototypeOf(A.prototype);
+  `
+	);
+
+	expect(a).toEqual(null);
+});
+
+test("call class without new", () => {
+	expect(() => {
+		run(
+			`
+class A {}
+A();
+  `
+		);
+	}).toThrow("Class constructor A cannot be invoked without 'new'");
+});
+
+test("this before super", () => {
+	expect(() => {
+		run(
+			`
+class A {}
+class B extends A {
+	constructor() {
+		this.a = 1;
+		super();
+	}
+}
+new B();
+  `
+		);
+	}).toThrow(ReferenceError);
+});
+
+test("extends non constructor", () => {
+	expect(() => {
+		run(
+			`
+class A extends 1 {}
+  `
+		);
+	}).toThrow("Class extends value 1 is not a constructor or null");
+});
+
+test("class temporal dead zone", () => {
+	expect(() => {
+		run(
+			`
+new A();
+class A {}
+  `
+		);
+	}).toThrow("Cannot access 'A' before initialization");
+});
+
+test("new from host", () => {
+	const A = run(
+		`
+class A {
+	constructor(a) {
+		this.a = a;
+	}
+}
+A;
+  `
+	);
+
+	const a = new A(1);
+	expect(a.a).toEqual(1);
+	expect(a instanceof A).toEqual(true);
+	expect(A.length).toEqual(1);
+});
@@ -0,0 +1,337 @@
+import { createRun } from "../helpers";
+
+const run = createRun({ ecmaVersion: 2022 });
+
+test("public instance and static fields", () => {
+	const a = run(
+		`
+let i = 0;
+class A {
+	a = ++i;
+	b;
+	["c" + i] = this.a * 10;
+	static s = ++i;
+	static t = this.s + 1;
+	fn = function() {};
+	arrow = () => this;
+}
+const x = new A();
+const y = new A();
+[x.a, y.a, "b" in x, x.b, x.c0, y.c0, A.s, A.t, x.fn.name, x.arrow() === x, Object.keys(x)];
+  `
+	);
+
+	expect(a).toEqual([
+		2,
+		3,
+		true,
+		undefined,
+		20,
+		30,
+		1,
+		2,
+		"fn",
+		true,
+		["a", "b", "c0", "fn", "arrow"],
+	]);
+});
+
+test("fields are initialized after super() returns", () => {
+	const a = run(
+		`
+const log = [];
+class A {
+	a = log.push("A.a");
+	constructor() {
+		log.push("A()");
+		this.fromA = this.b;
+	}
+}
+class B extends A {
+	b = log.push("B.b") && "b";
+	constructor() {
+		log.push("before super");
+		super();
+		log.push("after super " + this.b);
+	}
+}
+class C extends B {
+	c = this.b + "c";
+}
+const c = new C();
+[log, c.fromA, c.c];
+  `
+	);
+
+	expect(a).toEqual([["before super", "A.a", "A()", "B.b", "after super b"], undefined, "bc"]);
+});
+
+test("fields of a class extending a host class", () => {
+	const a = run(
+		`
+class List extends Array {
+	size = this.length;
+}
+const list = new List(3);
+[list.size, list instanceof Array];
+  `
+	);
+
+	expect(a).toEqual([3, true]);
+});
+
+test("private fields, methods and accessors", () => {
+	const a = run(
+		`
+class Counter {
+	#count = 0;
+	static #instances = 0;
+	constructor() {
+		Counter.#instances++;
+	}
+	#step() {
+		return 2;
+	}
+	get #value() {
+		return this.#count;
+	}
+	set #value(v) {
+		this.#count = v;
+	}
+	inc() {
+		this.#count += this.#step();
+		this.#value *= 10;
+		this.#count++;
+		return this.#value;
+	}
+	static get instances() {
+		return Counter.#instances;
+	}
+}
+const c = new Counter();
+new Counter();
+[c.inc(), c.inc(), Counter.instances];
+  `
+	);
+
+	expect(a).toEqual([21, 231, 2]);
+});
+
+test("private names are not reachable from the host", () => {
+	const a = run(
+		`
+class A {
+	#secret = 1;
+	#method() {}
+	static #hidden = 2;
+}
+new A();
+  `
+	);
+
+	expect(Reflect.ownKeys(a)).toEqual([]);
+	expect(Object.getOwnPropertySymbols(a)).toEqual([]);
+	expect(Object.getOwnPropertyNames(a.constructor)).not.toContain("#hidden");
+	expect(JSON.stringify(a)).toBe("{}");
+});
+
+test("private brand check", () => {
+	const a = run(
+		`
+class A {
+	#x = 1;
+	static getX(o) {
+		return o.#x;
+	}
+}
+const errors = [];
+try {
+	A.getX({});
+} catch (e) {
+	errors.push(e instanceof TypeError);
+}
+try {
+	A.getX(Object.create(new A()));
+} catch (e) {
+	errors.push(e instanceof TypeError);
+}
+[A.getX(new A()), errors];
+  `
+	);
+
+	expect(a).toEqual([1, [true, true]]);
+});
+
+test("private names are per class evaluation", () => {
+	const a = run(
+		`
+function make() {
+	return class {
+		#x = 1;
+		static read(o) {
+			return o.#x;
+		}
+	};
+}
+const A = make();
+const B = make();
+let error;
+try {
+	A.read(new B());
+} catch (e) {
+	error = e instanceof TypeError;
+}
+[A.read(new A()), error];
+  `
+	);
+
+	expect(a).toEqual([1, true]);
+});
+
+test("private methods are not writable", () => {
+	expect(() =>
+		run(`
+class A {
+	#m() {}
+	constructor() {
+		this.#m = 1;
+	}
+}
+new A();
+  `)
+	).toThrow(TypeError);
+
+	expect(() =>
+		run(`
+class A {
+	get #g() {
+		return 1;
+	}
+	constructor() {
+		this.#g = 1;
+	}
+}
+new A();
+  `)
+	).toThrow(TypeError);
+
+	expect(() =>
+		run(`
+class A {
+	set #s(v) {}
+	constructor() {
+		this.#s;
+	}
+}
+new A();
+  `)
+	).toThrow(TypeError);
+});
+
+test("private fields can not be initialized twice", () => {
+	expect(() =>
+		run(`
+class Base {
+	constructor(o) {
+		return o;
+	}
+}
+class Stamp extends Base {
+	#stamp = 1;
+}
+const o = {};
+new Stamp(o);
+new Stamp(o);
+  `)
+	).toThrow(TypeError);
+});
+
+test("#x in obj", () => {
+	const a = run(
+		`
+class A {
+	#x;
+	#m() {}
+	static hasX(o) {
+		return #x in o;
+	}
+	static hasM(o) {
+		return #m in o;
+	}
+}
+let error;
+try {
+	A.hasX(1);
+} catch (e) {
+	error = e instanceof TypeError;
+}
+[A.hasX(new A()), A.hasX({}), A.hasM(new A()), A.hasM(A), error];
+  `
+	);
+
+	expect(a).toEqual([true, false, true, false, true]);
+});
+
+test("static blocks run in order with static fields", () => {
+	const a = run(
+		`
+const log = [];
+class A {
+	static a = log.push("a");
+	static {
+		log.push("block " + this.a + " " + (this === A));
+		this.b = #c in A;
+	}
+	static #c = log.push("c");
+	static {
+		log.push("block " + A.#c);
+	}
+}
+[log, A.b];
+  `
+	);
+
+	expect(a).toEqual([["a", "block 1 true", "c", "block 3"], false]);
+});
+
+test("super in field initializers", () => {
+	const a = run(
+		`
+class A {
+	static base() {
+		return "A";
+	}
+	name() {
+		return "a";
+	}
+}
+class B extends A {
+	n = super.name() + "b";
+	static s = super.base() + "B";
+}
+[new B().n, B.s];
+  `
+	);
+
+	expect(a).toEqual(["ab", "AB"]);
+});
+
+test("private members in async methods and optional chains", async () => {
+	const a = run(
+		`
+class A {
+	#x = 1;
+	#self() {
+		return this;
+	}
+	async add(n) {
+		this.#x += await n;
+		return [this.#x, this?.#self()?.#x];
+	}
+}
+new A().add(Promise.resolve(2));
+  `
+	);
+
+	expect(await a).toEqual([3, 3]);
+});
@@ -0,0 +1,164 @@
+import { createRequire } from "../../src";
+
+test("exports and module.exports", () => {
+	const require = createRequire({
+		files: {
+			"/index.js": `
+var math = require("./lib/math");
+var Point = require("./lib/point.js");
+exports.result = [math.add(1, 2), new Point(1, 2).sum(), this === exports];
+			`,
+			"/lib/math.js": `exports.add = function (a, b) { return a + b; };`,
+			"/lib/point.js": `
+function Point(x, y) { this.x = x; this.y = y; }
+Point.prototype.sum = function () { return this.x + this.y; };
+module.exports = Point;
+			`,
+		},
+	});
+
+	expect(require("./index").result).toEqual([3, 3, true]);
+});
+
+test("__filename and __dirname", () => {
+	const require = createRequire({
+		files: {
+			"/src/a.js": `module.exports = [__filename, __dirname, module.id, require.resolve("../b")];`,
+			"/b.json": `{ "b": 1 }`,
+		},
+	});
+
+	expect(require("./src/a")).toEqual(["/src/a.js", "/src", "/src/a.js", "/b.json"]);
+	expect(require("/b.json")).toEqual({ b: 1 });
+});
+
+test("directories and node_modules", () => {
+	const require = createRequire({
+		files: {
+			"/app/index.js": `module.exports = [require("./utils"), require("pkg"), require("pkg/other")];`,
+			"/app/utils/index.js": `module.exports = "utils";`,
+			"/node_modules/pkg/package.json": `{ "main": "./lib/main.js" }`,
+			"/node_modules/pkg/lib/main.js": `module.exports = "pkg";`,
+			"/node_modules/pkg/other.js": `module.exports = "other";`,
+		},
+	});
+
+	expect(require("/app")).toEqual(["utils", "pkg", "other"]);
+});
+
+test("modules are cached", () => {
+	const require = createRequire({
+		files: {
+			"/a.js": `count++; module.exports = {};`,
+			"/b.js": `module.exports = require("./a") === require("/a.js");`,
+		},
+		context: { count: 0 },
+	});
+
+	expect(require("./b")).toBe(true);
+	expect(require("./a")).toBe(require("./a.js"));
+	expect(Object.keys(require.cache)).toEqual(["/b.js", "/a.js"]);
+	expect(require.cache["/b.js"].children[0].filename).toBe("/a.js");
+	expect(require.cache["/b.js"].loaded).toBe(true);
+});
+
+test("circular require", () => {
+	const require = createRequire({
+		files: {
+			"/a.js": `
+exports.done = false;
+var b = require("./b");
+exports.fromB = b.done;
+exports.done = true;
+			`,
+			"/b.js": `
+exports.done = false;
+var a = require("./a");
+exports.fromA = a.done;
+exports.done = true;
+			`,
+		},
+	});
+	const a = require("./a");
+
+	expect(a).toEqual({ done: true, fromB: true });
+	expect(require("./b")).toEqual({ done: true, fromA: false });
+});
+
+test("built-in modules", () => {
+	const path = { sep: "/" };
+	const require = createRequire({
+		files: {
+			"/a.js": `module.exports = require("path").sep;`,
+			"/b.js": `require("fs");`,
+		},
+		builtinModules: { path },
+	});
+
+	expect(require("./a")).toBe("/");
+	expect(require("path")).toBe(path);
+	expect(() => require("./b")).toThrow("Cannot find module 'fs'");
+});
+
+test("errors", () => {
+	const require = createRequire({
+		files: {
+			"/a.js": `throw new Error("fail");`,
+		},
+	});
+
+	expect(() => require("./missing")).toThrow("Cannot find module './missing'");
+
+	try {
+		require("./missing");
+	} catch (e) {
+		expect(e.code).toBe("MODULE_NOT_FOUND");
+	}
+
+	expect(() => require("./a")).toThrow("fail");
+	expect(require.cache["/a.js"]).toBe(undefined);
+});
+
+test("files can not close the module wrapper", () => {
+	const context: any = { log: [] };
+	const require = createRequire({
+		files: {
+			"/evil.js": `}); log.push("outside"); (function () {`,
+			"/comment.js": `module.exports = 1; // })`,
+		},
+		context,
+	});
+
+	expect(() => require("/evil.js")).toThrow(SyntaxError);
+	expect(context.log).toEqual([]);
+	expect(require("/comment.js")).toBe(1);
+});
+
+test("options", () => {
+	const require = createRequire(
+		{
+			files: {
+				"/lib/a.js": `module.exports = () => [typeof window, globalValue];`,
+			},
+			ecmaVersion: 2020,
+			context: { globalValue: 1 },
+		},
+		"/lib/main.js"
+	);
+
+	expect(require("./a")()).toEqual(["undefined", 1]);
+});
+
+test("hardened modules share the copies of the built-in objects", () => {
+	const require = createRequire({
+		files: {
+			"/index.js": `require("./polyfill"); module.exports = [[1, 2].last(), require("./list") instanceof Array];`,
+			"/polyfill.js": `Array.prototype.last = function () { return this[this.length - 1]; };`,
+			"/list.js": `module.exports = [];`,
+		},
+		hardened: true,
+	});
+
+	expect(require("/index.js")).toEqual([2, true]);
+	expect(([] as any).last).toBe(undefined);
+});
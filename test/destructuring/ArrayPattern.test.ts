@@ -0,0 +1,96 @@
+import { run } from "../helpers";
+
+test("array pattern -1", () => {
+	const a = run(
+		`
+var [a, , b = 3, ...rest] = [1, 2, undefined, 4, 5];
+[a, b, rest];
+  `
+	);
+
+	expect(a).toEqual([1, 3, [4, 5]]);
+});
+
+test("swap", () => {
+	const a = run(
+		`
+let a = 1, b = 2;
+[a, b] = [b, a];
+[a, b];
+  `
+	);
+
+	expect(a).toEqual([2, 1]);
+});
+
+test("nested pattern", () => {
+	const a = run(
+		`
+const [{ x }, [y, z = 3]] = [{ x: 1 }, [2]];
+[x, y, z];
+  `
+	);
+
+	expect(a).toEqual([1, 2, 3]);
+});
+
+test("iterable", () => {
+	const a = run(
+		`
+const [first, second] = "ab";
+const [[k, v]] = new Map([["key", "value"]]);
+[first, second, k, v];
+  `
+	);
+
+	expect(a).toEqual(["a", "b", "key", "value"]);
+});
+
+test("iterator is closed", () => {
+	const a = run(
+		`
+const log = [];
+const iterable = {};
+iterable[Symbol.iterator] = function() {
+	let i = 0;
+	return {
+		next() {
+			return { value: i++, done: false };
+		},
+		return() {
+			log.push("return");
+			return {};
+		}
+	};
+};
+const [a, b] = iterable;
+[a, b, log];
+  `
+	);
+
+	expect(a).toEqual([0, 1, ["return"]]);
+});
+
+test("for in pattern", () => {
+	const a = run(
+		`
+const result = [];
+for (const [first] in { ab: 1, cd: 2 }) {
+	result.push(first);
+}
+result;
+  `
+	);
+
+	expect(a).toEqual(["a", "c"]);
+});
+
+test("not iterable", () => {
+	expect(() => {
+		run(
+			`
+const [a] = {};
+  `
+		);
+	}).toThrow("[object Object] is not iterable");
+});
@@ -0,0 +1,127 @@
+import { run } from "../helpers";
+
+test("object pattern -1", () => {
+	const a = run(
+		`
+var { a, b: c, d = 3 } = { a: 1, b: 2 };
+[a, c, d];
+  `
+	);
+
+	expect(a).toEqual([1, 2, 3]);
+});
+
+test("object pattern in let/const", () => {
+	const a = run(
+		`
+const key = "x";
+const { [key]: x, nested: { y } } = { x: 1, nested: { y: 2 } };
+let { z = x + y } = {};
+[x, y, z];
+  `
+	);
+
+	expect(a).toEqual([1, 2, 3]);
+});
+
+test("object rest", () => {
+	const a = run(
+		`
+const { a, 0: zero, ...rest } = { a: 1, 0: "zero", b: 2, c: 3 };
+[a, zero, rest];
+  `
+	);
+
+	expect(a).toEqual([1, "zero", { b: 2, c: 3 }]);
+});
+
+test("destructured params", () => {
+	const a = run(
+		`
+function config({ name, options: { debug = false } = {} }, ...plugins) {
+	return [name, debug, plugins.length];
+}
+const format = ({ x, y } = { x: 0, y: 0 }) => x + "," + y;
+[config({ name: "app" }, "a", "b"), config({ name: "dev", options: { debug: true } }), format(), format({ x: 1, y: 2 })];
+  `
+	);
+
+	expect(a).toEqual([["app", false, 2], ["dev", true, 0], "0,0", "1,2"]);
+});
+
+test("default param uses this and previous params", () => {
+	const a = run(
+		`
+const obj = {
+	base: 10,
+	add(a, b = a + this.base) {
+		return b;
+	}
+};
+obj.add(1);
+  `
+	);
+
+	expect(a).toEqual(11);
+});
+
+test("assignment pattern", () => {
+	const a = run(
+		`
+var a, b;
+const target = {};
+({ a, b: target.value } = { a: 1, b: 2 });
+[a, target.value];
+  `
+	);
+
+	expect(a).toEqual([1, 2]);
+});
+
+test("catch param pattern", () => {
+	const a = run(
+		`
+var result;
+try {
+	throw new Error("oops");
+} catch ({ message }) {
+	result = message;
+}
+[result, typeof message];
+  `
+	);
+
+	expect(a).toEqual(["oops", "undefined"]);
+});
+
+test("default value name", () => {
+	const a = run(
+		`
+const { fn = function() {} } = {};
+fn.name;
+  `
+	);
+
+	expect(a).toEqual("fn");
+});
+
+test("destructure undefined", () => {
+	expect(() => {
+		run(
+			`
+const { a } = undefined;
+  `
+		);
+	}).toThrow(TypeError);
+});
+
+test("destructure const assignment", () => {
+	expect(() => {
+		run(
+			`
+const a = 1;
+({ a } = { a: 2 });
+  `
+		);
+	}).toThrow("Assignment to constant variable 'a'");
+});
@@ -72,3 +72,16 @@ test("es5 -2", () => {
 
 	expect(hasError).toEqual(true);
 });
+
+test("es2021 and latest", () => {
+	expect(() => new Interpreter({}, { ecmaVersion: 2020 }).evaluate("var a; a ??= 1")).toThrow(
+		SyntaxError
+	);
+	expect(new Interpreter({}, { ecmaVersion: 2021 }).evaluate("var a; a ??= 1_000")).toBe(1000);
+	expect(new Interpreter({}, { ecmaVersion: 2022 }).evaluate("var a; a ||= 1")).toBe(1);
+
+	const interpreter = new Interpreter({}, { ecmaVersion: "latest" });
+
+	expect(interpreter.evaluate("var a = 1; a &&= 2")).toBe(2);
+	expect(interpreter.getOptions().ecmaVersion).toBe("latest");
+});
@@ -0,0 +1,204 @@
+import { Interpreter, vm } from "../../src";
+
+test("evaluateAsync -1", async () => {
+	const interpreter = new Interpreter({}, { ecmaVersion: 2020 });
+
+	const a = await interpreter.evaluateAsync(
+		`
+const a = await Promise.resolve(1);
+const b = await 2;
+a + b;
+  `
+	);
+
+	expect(a).toEqual(3);
+});
+
+test("evaluateAsync waits for awaited work", async () => {
+	const log: string[] = [];
+	const interpreter = new Interpreter(
+		{
+			log,
+			wait: (ms: number) => new Promise(resolve => setTimeout(resolve, ms)),
+		},
+		{ ecmaVersion: 2020 }
+	);
+
+	const a = await interpreter.evaluateAsync(
+		`
+async function task(name) {
+	await wait(10);
+	log.push(name);
+	return name;
+}
+const results = [];
+for (const name of ["a", "b"]) {
+	results.push(await task(name));
+}
+results;
+  `
+	);
+
+	expect(a).toEqual(["a", "b"]);
+	expect(log).toEqual(["a", "b"]);
+});
+
+test("evaluateAsync keeps declarations", async () => {
+	const interpreter = new Interpreter({}, { ecmaVersion: 2020 });
+
+	await interpreter.evaluateAsync("var a = await 1; let b = 2; function c() { return a + b; }");
+
+	expect(interpreter.evaluate("c()")).toEqual(3);
+});
+
+test("evaluateAsync rejects", async () => {
+	const interpreter = new Interpreter({}, { ecmaVersion: 2020 });
+
+	await expect(interpreter.evaluateAsync("await null; throw new Error('oops');")).rejects.toThrow(
+		"oops"
+	);
+	await expect(interpreter.evaluateAsync("a;")).rejects.toThrow("a is not defined");
+	await expect(interpreter.evaluateAsync("var;")).rejects.toThrow(SyntaxError);
+});
+
+test("evaluateAsync timeout covers resumed work", async () => {
+	const interpreter = new Interpreter({}, { ecmaVersion: 2020, timeout: 200 });
+
+	await expect(
+		interpreter.evaluateAsync(
+			`
+while (true) {
+	await null;
+}
+  `
+		)
+	).rejects.toThrow("Script execution timed out after 200ms");
+});
+
+test("evaluateAsync timeout covers pending await", async () => {
+	const interpreter = new Interpreter(
+		{ never: () => new Promise(() => {}) },
+		{ ecmaVersion: 2020, timeout: 100 }
+	);
+	const start = Date.now();
+
+	await expect(interpreter.evaluateAsync("await never();")).rejects.toThrow(
+		"Script execution timed out after 100ms"
+	);
+	expect(Date.now() - start < 1000).toEqual(true);
+});
+
+test("evaluateAsync timeout is not caught by script", async () => {
+	const interpreter = new Interpreter({}, { ecmaVersion: 2020, timeout: 100 });
+
+	await expect(
+		interpreter.evaluateAsync(
+			`
+async function loop() {
+	while (true) await null;
+}
+try {
+	await loop();
+} catch (e) {
+	"caught";
+}
+  `
+		)
+	).rejects.toThrow("Script execution timed out after 100ms");
+});
+
+test("evaluateAsync timeout stops the pending continuations", async () => {
+	const rejections: any[] = [];
+	const onRejection = (reason: any) => rejections.push(reason);
+	let ticks = 0;
+	const interpreter = new Interpreter(
+		{
+			sleep: (ms: number) => new Promise(resolve => setTimeout(resolve, ms)),
+			tick: () => ticks++,
+		},
+		{ ecmaVersion: 2020, timeout: 100 }
+	);
+
+	process.on("unhandledRejection", onRejection);
+
+	try {
+		await expect(
+			interpreter.evaluateAsync(
+				`
+async function f() {
+	while (true) {
+		tick();
+		await sleep(10);
+	}
+}
+f();
+await sleep(300);
+  `
+			)
+		).rejects.toThrow("Script execution timed out after 100ms");
+
+		const count = ticks;
+
+		await new Promise(resolve => setTimeout(resolve, 300));
+
+		expect(ticks).toBe(count);
+		expect(rejections).toEqual([]);
+	} finally {
+		process.removeListener("unhandledRejection", onRejection);
+	}
+});
+
+test("the timeout applies to continuations resumed after the execution returned", async () => {
+	const rejections: any[] = [];
+	const onRejection = (reason: any) => rejections.push(reason);
+	const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+	let ticks = 0;
+	const interpreter = new Interpreter(
+		{ sleep, tick: () => ticks++ },
+		{ ecmaVersion: 2020, timeout: 100 }
+	);
+
+	process.on("unhandledRejection", onRejection);
+
+	try {
+		expect(
+			await interpreter.evaluateAsync(
+				`async function f() { await sleep(50); while (true) { tick(); } } f(); "x"`
+			)
+		).toBe("x");
+
+		await sleep(200);
+
+		const count = ticks;
+
+		expect(count).toBeGreaterThan(0);
+
+		await sleep(50);
+
+		expect(ticks).toBe(count);
+
+		// the loops would block the host forever
+		expect(
+			await interpreter.evaluateAsync(`async function g() { while (true) await 0; } g(); "y"`)
+		).toBe("y");
+		expect(
+			interpreter.evaluate(`async function h() { await sleep(10); for (;;) {} } h(); "z"`)
+		).toBe("z");
+
+		await sleep(200);
+
+		expect(rejections).toEqual([]);
+	} finally {
+		process.removeListener("unhandledRejection", onRejection);
+	}
+});
+
+test("vm.runInContextAsync", async () => {
+	const a = await vm.runInContextAsync(
+		"const value = await load(); value * 2;",
+		{ load: () => Promise.resolve(21) },
+		{ ecmaVersion: 2020 }
+	);
+
+	expect(a).toEqual(42);
+});
@@ -0,0 +1,165 @@
+import { run } from "../helpers";
+
+test("for of -1", () => {
+	const a = run(
+		`
+var result = 0;
+for (var x of [1, 2, 3]) {
+	result += x;
+}
+[result, x];
+  `
+	);
+
+	expect(a).toEqual([6, 3]);
+});
+
+test("for of map and set", () => {
+	const a = run(
+		`
+const result = [];
+for (const [key, value] of new Map([["a", 1], ["b", 2]])) {
+	result.push(key + value);
+}
+for (const item of new Set(["c", "c", "d"])) {
+	result.push(item);
+}
+result;
+  `
+	);
+
+	expect(a).toEqual(["a1", "b2", "c", "d"]);
+});
+
+test("for of host iterable", () => {
+	function* numbers() {
+		yield 1;
+		yield 2;
+	}
+
+	const a = run(
+		`
+const result = [];
+for (const n of numbers()) {
+	result.push(n);
+}
+result;
+  `,
+		{ numbers }
+	);
+
+	expect(a).toEqual([1, 2]);
+});
+
+test("for of let binding per iteration", () => {
+	const a = run(
+		`
+const fns = [];
+for (let x of [1, 2, 3]) {
+	fns.push(() => x);
+}
+fns.map(fn => fn());
+  `
+	);
+
+	expect(a).toEqual([1, 2, 3]);
+});
+
+test("for of assignment target", () => {
+	const a = run(
+		`
+const obj = {};
+let a, b;
+for (obj.value of "ab");
+for ([a, b] of [[1, 2]]);
+[obj.value, a, b];
+  `
+	);
+
+	expect(a).toEqual(["b", 1, 2]);
+});
+
+test("for of break and continue", () => {
+	const a = run(
+		`
+const result = [];
+for (const x of [1, 2, 3, 4, 5]) {
+	if (x === 2) continue;
+	if (x === 4) break;
+	result.push(x);
+}
+result;
+  `
+	);
+
+	expect(a).toEqual([1, 3]);
+});
+
+test("for of label", () => {
+	const a = run(
+		`
+const result = [];
+outer: for (const x of [1, 2, 3]) {
+	for (const y of [1, 2, 3]) {
+		if (y === 2) continue outer;
+		if (x === 3) break outer;
+		result.push(x + "" + y);
+	}
+}
+result;
+  `
+	);
+
+	expect(a).toEqual(["11", "21"]);
+});
+
+test("for of closes iterator on early exit", () => {
+	const a = run(
+		`
+const log = [];
+function createIterable() {
+	const iterable = {};
+	iterable[Symbol.iterator] = function() {
+		let i = 0;
+		return {
+			next() {
+				return { value: i++, done: i > 3 };
+			},
+			return() {
+				log.push("return");
+				return {};
+			}
+		};
+	};
+	return iterable;
+}
+function find() {
+	for (const x of createIterable()) {
+		if (x === 1) return x;
+	}
+}
+for (const x of createIterable()) {
+	break;
+}
+try {
+	for (const x of createIterable()) {
+		throw new Error("oops");
+	}
+} catch (e) {}
+for (const x of createIterable());
+[find(), log];
+  `
+	);
+
+	expect(a).toEqual([1, ["return", "return", "return"]]);
+});
+
+test("for of not iterable", () => {
+	expect(() => {
+		run(
+			`
+for (const x of 1) {}
+  `
+		);
+	}).toThrow("1 is not iterable");
+});
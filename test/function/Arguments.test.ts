@@ -0,0 +1,157 @@
+import { run } from "../helpers";
+
+test("arguments is mapped to parameters", () => {
+	const a = run(
+		`
+function f(a, b) {
+	arguments[0] = 10;
+	b = 20;
+	return [a, arguments[1], arguments.length];
+}
+f(1, 2);
+	`
+	);
+
+	expect(a).toEqual([10, 20, 2]);
+});
+
+test("only passed arguments are mapped", () => {
+	const a = run(
+		`
+function f(a, b) {
+	b = 2;
+	arguments[1] = 3;
+	return [b, arguments[1], arguments.length];
+}
+f(1);
+	`
+	);
+
+	expect(a).toEqual([2, 3, 1]);
+});
+
+test("duplicated parameter names map the last one", () => {
+	const a = run(
+		`
+function f(a, b, a) {
+	arguments[0] = "x";
+	arguments[2] = "y";
+	return [a, arguments[0], arguments[2]];
+}
+f(1, 2, 3);
+	`
+	);
+
+	expect(a).toEqual(["y", "x", "y"]);
+});
+
+test("arguments.callee", () => {
+	const a = run(
+		`
+var fact = function(n) {
+	return n <= 1 ? 1 : n * arguments.callee(n - 1);
+};
+var f = function() {
+	return arguments.callee;
+};
+[fact(5), f() === f, Object.keys(function() { return arguments; }(1, 2))];
+	`
+	);
+
+	expect(a).toEqual([120, true, ["0", "1"]]);
+});
+
+test("strict mode and non-simple parameters are unmapped", () => {
+	const a = run(
+		`
+function strict(a) {
+	"use strict";
+	arguments[0] = 2;
+	return a;
+}
+function withDefault(a, b = 1) {
+	arguments[0] = 2;
+	return a;
+}
+function withRest(a, ...rest) {
+	a = 2;
+	return arguments[0];
+}
+[strict(1), withDefault(1), withRest(1)];
+	`
+	);
+
+	expect(a).toEqual([1, 1, 1]);
+
+	expect(() => run(`function f(a = 1) { return arguments.callee; } f();`)).toThrow(TypeError);
+});
+
+test("delete and defineProperty remove the mapping", () => {
+	const a = run(
+		`
+function del(a) {
+	delete arguments[0];
+	arguments[0] = 2;
+	return [a, arguments[0]];
+}
+function define(a) {
+	Object.defineProperty(arguments, "0", { value: 2 });
+	var mapped = a;
+	Object.defineProperty(arguments, "0", { value: 3, writable: false });
+	var readonly = a;
+	a = 4;
+	return [mapped, readonly, arguments[0]];
+}
+function freeze(a) {
+	a = 2;
+	Object.freeze(arguments);
+	a = 3;
+	return arguments[0];
+}
+[del(1), define(1), freeze(1)];
+	`
+	);
+
+	expect(a).toEqual([[1, 2], [2, 3, 3], 2]);
+});
+
+test("arguments object behaves like an arguments object", () => {
+	const a = run(
+		`
+function f(a, b) {
+	a = "a";
+	return [
+		Object.prototype.toString.call(arguments),
+		[...arguments],
+		Array.prototype.slice.call(arguments),
+		JSON.stringify(arguments),
+		Object.getOwnPropertyDescriptor(arguments, "0").value
+	];
+}
+f(1, 2);
+	`
+	);
+
+	expect(a).toEqual(["[object Arguments]", ["a", 2], ["a", 2], '{"0":"a","1":2}', "a"]);
+});
+
+test("arguments declarations", () => {
+	const a = run(
+		`
+function fn() {
+	function arguments() {}
+	return typeof arguments;
+}
+function param(arguments) {
+	return arguments;
+}
+function variable(a) {
+	var arguments;
+	return arguments.length;
+}
+[fn(), param(1), variable(1, 2), (function(a) { return eval("arguments[0] = 2; a"); })(1)];
+	`
+	);
+
+	expect(a).toEqual(["function", 1, 2, 2]);
+});
@@ -512,7 +512,7 @@ test("function arguments reset without use strict", () => {
 	const a = interpreter.evaluate(
 		`
         function test(a,b,c){
-           // Note: eval5 does not support the use strict mode, but the performance here is the same as the use strict mode
+            // sloppy mode: arguments is mapped to the parameters
             a=2;
             return [arguments[0],arguments[1],arguments[2]];
         }
@@ -521,5 +521,5 @@ test("function arguments reset without use strict", () => {
     `
 	);
 
-	expect(a).toEqual([1, 2, 3]);
+	expect(a).toEqual([2, 2, 3]);
 });
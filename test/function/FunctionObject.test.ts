@@ -0,0 +1,171 @@
+import { run } from "../helpers";
+
+test("valueOf returns the function itself", () => {
+	const a = run(
+		`
+function f() {}
+const arrow = () => 1;
+[f.valueOf() === f, arrow.valueOf() === arrow, f + "" === f.toString()];
+	`
+	);
+
+	expect(a).toEqual([true, true, true]);
+});
+
+test("own properties of functions", () => {
+	const a = run(
+		`
+function f(a) {}
+[Object.getOwnPropertyNames(f), Object.getOwnPropertyNames(f.prototype), f.prototype.constructor === f];
+	`
+	);
+
+	expect(a).toEqual([["length", "name", "prototype"], ["constructor"], true]);
+});
+
+test("prototype and constructor", () => {
+	const a = run(
+		`
+function F() {}
+const descriptor = Object.getOwnPropertyDescriptor(F, "prototype");
+const constructorDescriptor = Object.getOwnPropertyDescriptor(F.prototype, "constructor");
+[descriptor.writable, descriptor.enumerable, descriptor.configurable, constructorDescriptor.enumerable, new F().constructor === F];
+	`
+	);
+
+	expect(a).toEqual([true, false, false, false, true]);
+});
+
+test("only functions, classes and generators have a prototype", () => {
+	const a = run(
+		`
+class A {
+	m() {}
+	static s() {}
+	get g() {}
+	*gen() {}
+}
+const o = {
+	m() {},
+	async am() {},
+	set v(x) {},
+};
+async function af() {}
+function* gf() {}
+const arrow = () => {};
+[
+	"prototype" in A.prototype.m,
+	"prototype" in A.s,
+	"prototype" in Object.getOwnPropertyDescriptor(A.prototype, "g").get,
+	"prototype" in A.prototype.gen,
+	"prototype" in o.m,
+	"prototype" in o.am,
+	"prototype" in Object.getOwnPropertyDescriptor(o, "v").set,
+	"prototype" in af,
+	"prototype" in gf,
+	"prototype" in arrow,
+	"prototype" in A,
+	"prototype" in function() {},
+];
+	`
+	);
+
+	expect(a).toEqual([
+		false,
+		false,
+		false,
+		true,
+		false,
+		false,
+		false,
+		false,
+		true,
+		false,
+		true,
+		true,
+	]);
+});
+
+test("length honours default and rest parameters", () => {
+	const a = run(
+		`
+function a(x, y) {}
+function b(x, y = 1, z) {}
+function c(x, ...rest) {}
+function d({ x }, [y]) {}
+class E {
+	constructor(x, y = 1) {}
+	method(x, ...y) {}
+}
+const o = {
+	method(x = 1) {},
+	set value(v) {},
+};
+[a.length, b.length, c.length, d.length, ((x, y = 1) => 0).length, E.length, new E().method.length, o.method.length, Object.getOwnPropertyDescriptor(o, "value").set.length];
+	`
+	);
+
+	expect(a).toEqual([2, 1, 1, 2, 1, 1, 1, 0, 1]);
+});
+
+test("Function.prototype.toString matches the source", () => {
+	const a = run(
+		`
+function f(a, /* b */ b) { return a + b; }
+const arrow = async (x) => x;
+const o = {
+	method(a) { return a; },
+	get value() { return 1; },
+	["comp" + "uted"]() {},
+};
+class A {
+	static  create() {}
+	method() {}
+}
+[
+	Function.prototype.toString.call(f),
+	arrow.toString(),
+	o.method.toString(),
+	Object.getOwnPropertyDescriptor(o, "value").get.toString(),
+	o.computed.toString(),
+	A.create.toString(),
+	String(A.prototype.method),
+	A.toString(),
+	Function("a", "b", "return a + b").toString(),
+	Function.prototype.toString.call(Math.max),
+];
+	`
+	);
+
+	expect(a).toEqual([
+		"function f(a, /* b */ b) { return a + b; }",
+		"async (x) => x",
+		"method(a) { return a; }",
+		"get value() { return 1; }",
+		'["comp" + "uted"]() {}',
+		"create() {}",
+		"method() {}",
+		"class A {\n\tstatic  create() {}\n\tmethod() {}\n}",
+		"function anonymous(a,b\n) {\nreturn a + b\n}",
+		"function max() { [native code] }",
+	]);
+});
+
+test("functions are instances of Function", () => {
+	const a = run(
+		`
+function f() {}
+[f instanceof Function, Object.getPrototypeOf(f) === Function.prototype, Math.max instanceof Function, {} instanceof Function, typeof f.call];
+	`
+	);
+
+	expect(a).toEqual([true, true, true, false, "function"]);
+});
+
+test("toString of functions from the host", () => {
+	const f = run(`(function add(a, b) { return a + b; })`);
+
+	expect(f.toString()).toBe("function add(a, b) { return a + b; }");
+	expect(f.valueOf()).toBe(f);
+	expect(f instanceof Function).toBe(true);
+});
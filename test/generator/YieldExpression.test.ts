@@ -0,0 +1,560 @@
+import { run } from "../helpers";
+
+test("generator -1", () => {
+	const a = run(
+		`
+function* gen() {
+	yield 1;
+	yield 2;
+	return 3;
+}
+const it = gen();
+[it.next(), it.next(), it.next(), it.next()];
+  `
+	);
+
+	expect(a).toEqual([
+		{ value: 1, done: false },
+		{ value: 2, done: false },
+		{ value: 3, done: true },
+		{ value: undefined, done: true },
+	]);
+});
+
+test("generator next value", () => {
+	const a = run(
+		`
+function* gen(a) {
+	const b = yield a + 1;
+	const c = 10 * (yield b * 2);
+	return [a, b, c];
+}
+const it = gen(1);
+[it.next("ignored").value, it.next(2).value, it.next(3).value];
+  `
+	);
+
+	expect(a).toEqual([2, 4, [1, 2, 30]]);
+});
+
+test("generator lazy body", () => {
+	const a = run(
+		`
+const log = [];
+function* gen(a = log.push("param")) {
+	log.push("body");
+	yield;
+}
+const it = gen();
+log.push("created");
+it.next();
+log;
+  `
+	);
+
+	expect(a).toEqual(["param", "created", "body"]);
+});
+
+test("generator loops and scope", () => {
+	const a = run(
+		`
+function* range(start, end) {
+	for (let i = start; i < end; i++) {
+		if (i % 2) continue;
+		yield i;
+	}
+	let j = 0;
+	while (true) {
+		if (j++ > 1) break;
+		yield "w" + j;
+	}
+	do {
+		yield "d";
+	} while (false);
+}
+const result = [];
+for (const x of range(0, 5)) {
+	result.push(x);
+}
+result;
+  `
+	);
+
+	expect(a).toEqual([0, 2, 4, "w1", "w2", "d"]);
+});
+
+test("generator closures capture iteration bindings", () => {
+	const a = run(
+		`
+function* gen() {
+	for (let i = 0; i < 3; i++) {
+		yield () => i;
+	}
+}
+[...gen()].map(fn => fn());
+  `
+	);
+
+	expect(a).toEqual([0, 1, 2]);
+});
+
+test("yield in expressions", () => {
+	const a = run(
+		`
+function* gen() {
+	const obj = { value: 1, add(x) { return this.value + x; } };
+	const list = [yield "a", ...(yield "b")];
+	const sum = obj.add(yield "c");
+	const cond = (yield "d") ? "yes" : "no";
+	const logic = (yield "e") || "default";
+	return [list, sum, cond, logic, \`t\${yield "f"}\`];
+}
+const it = gen();
+const values = [];
+let step = it.next();
+const inputs = [1, [2, 3], 4, true, 0, "!"];
+while (!step.done) {
+	values.push(step.value);
+	step = it.next(inputs.shift());
+}
+[values, step.value];
+  `
+	);
+
+	expect(a).toEqual([
+		["a", "b", "c", "d", "e", "f"],
+		[[1, 2, 3], 5, "yes", "default", "t!"],
+	]);
+});
+
+test("yield delegate", () => {
+	const a = run(
+		`
+function* inner() {
+	const x = yield 1;
+	yield x;
+	return "inner";
+}
+function* outer() {
+	const result = yield* inner();
+	yield result;
+	yield* [4, 5];
+}
+const it = outer();
+[it.next().value, it.next(2).value, it.next().value, it.next().value, it.next().value, it.next().done];
+  `
+	);
+
+	expect(a).toEqual([1, 2, "inner", 4, 5, true]);
+});
+
+test("generator throw", () => {
+	const a = run(
+		`
+function* gen() {
+	try {
+		yield 1;
+	} catch (e) {
+		yield "caught " + e;
+	}
+	yield 2;
+}
+const it = gen();
+[it.next().value, it.throw("err").value, it.next().value];
+  `
+	);
+
+	expect(a).toEqual([1, "caught err", 2]);
+});
+
+test("generator return runs finally", () => {
+	const a = run(
+		`
+const log = [];
+function* gen() {
+	try {
+		yield 1;
+		yield 2;
+	} finally {
+		log.push("finally");
+	}
+}
+const it = gen();
+it.next();
+[it.return(10), it.next(), log];
+  `
+	);
+
+	expect(a).toEqual([{ value: 10, done: true }, { value: undefined, done: true }, ["finally"]]);
+});
+
+test("generator return with yield in finally", () => {
+	const a = run(
+		`
+function* gen() {
+	try {
+		yield 1;
+	} finally {
+		yield "cleanup";
+	}
+}
+const it = gen();
+it.next();
+[it.return(10), it.next()];
+  `
+	);
+
+	expect(a).toEqual([
+		{ value: "cleanup", done: false },
+		{ value: 10, done: true },
+	]);
+});
+
+test("break in for of closes generator", () => {
+	const a = run(
+		`
+const log = [];
+function* gen() {
+	try {
+		yield 1;
+		yield 2;
+	} finally {
+		log.push("closed");
+	}
+}
+for (const x of gen()) {
+	break;
+}
+log;
+  `
+	);
+
+	expect(a).toEqual(["closed"]);
+});
+
+test("generator this and arguments", () => {
+	const a = run(
+		`
+const obj = {
+	value: 1,
+	*gen() {
+		yield this.value;
+		yield arguments.length;
+	}
+};
+[...obj.gen(1, 2)];
+  `
+	);
+
+	expect(a).toEqual([1, 2]);
+});
+
+test("generator switch and labels", () => {
+	const a = run(
+		`
+function* gen(x) {
+	outer: for (const i of [1, 2]) {
+		switch (x) {
+			case 1:
+				yield "one";
+			case 2:
+				yield "two";
+				continue outer;
+			default:
+				yield "default";
+				break outer;
+		}
+	}
+}
+[[...gen(1)], [...gen(3)]];
+  `
+	);
+
+	expect(a).toEqual([["one", "two", "one", "two"], ["default"]]);
+});
+
+test("generator object", () => {
+	const a = run(
+		`
+function* gen() {}
+const it = gen();
+[
+	it instanceof gen,
+	Object.prototype.toString.call(it),
+	it[Symbol.iterator]() === it,
+	typeof gen.prototype.next
+];
+  `
+	);
+
+	expect(a).toEqual([true, "[object Generator]", true, "function"]);
+});
+
+test("generator in host", () => {
+	const gen = run(
+		`
+function* gen() {
+	let i = 0;
+	while (true) yield i++;
+}
+gen;
+  `
+	);
+
+	const it = gen();
+	expect([it.next().value, it.next().value]).toEqual([0, 1]);
+	expect(Array.from({ length: 2 }, () => it.next().value)).toEqual([2, 3]);
+});
+
+test("new generator", () => {
+	expect(() => {
+		run(
+			`
+function* gen() {}
+new gen();
+  `
+		);
+	}).toThrow("gen is not a constructor");
+});
+
+test("recursive generator", () => {
+	const a = run(
+		`
+class Tree {
+	constructor(value, children = []) {
+		this.value = value;
+		this.children = children;
+	}
+	*[Symbol.iterator]() {
+		yield this.value;
+		for (const child of this.children) {
+			yield* child;
+		}
+	}
+}
+const tree = new Tree(1, [new Tree(2, [new Tree(3)]), new Tree(4)]);
+[...tree];
+  `
+	);
+
+	expect(a).toEqual([1, 2, 3, 4]);
+});
+
+test("interleaved generators", () => {
+	const a = run(
+		`
+function* gen(name) {
+	const list = [name + (yield 1), name + (yield 2)];
+	return list;
+}
+const a = gen("a");
+const b = gen("b");
+a.next();
+b.next();
+a.next("x");
+b.next("y");
+[a.next("z").value, b.next("w").value];
+  `
+	);
+
+	expect(a).toEqual([
+		["ax", "az"],
+		["by", "bw"],
+	]);
+});
+
+test("generator return during yield delegate", () => {
+	const a = run(
+		`
+const log = [];
+const iterable = {
+	[Symbol.iterator]() {
+		return {
+			next() {
+				return { value: 1, done: false };
+			},
+			return(v) {
+				log.push(v);
+				return { value: "R", done: true };
+			},
+		};
+	},
+};
+function* inner() {
+	try {
+		yield 1;
+	} finally {
+		log.push("inner finally");
+	}
+}
+function* g() {
+	yield* iterable;
+}
+function* h() {
+	try {
+		yield* inner();
+	} finally {
+		log.push("outer finally");
+	}
+}
+const it = g();
+it.next();
+const it2 = h();
+it2.next();
+[it.return("v"), it.next(), it2.return("w"), log];
+  `
+	);
+
+	expect(a).toEqual([
+		{ value: "R", done: true },
+		{ value: undefined, done: true },
+		{ value: "w", done: true },
+		["v", "inner finally", "outer finally"],
+	]);
+});
+
+test("yield in with statement", () => {
+	const a = run(
+		`
+function* g() {
+	with ({ q: 1 }) {
+		q = yield q;
+		yield q;
+	}
+	yield typeof q;
+}
+const it = g();
+[it.next().value, it.next(2).value, it.next().value, it.next().done];
+  `
+	);
+
+	expect(a).toEqual([1, 2, "undefined", true]);
+});
+
+test("yield in variable declarations with several declarators", () => {
+	const a = run(
+		`
+function* g() {
+	var a = 1, b = yield a;
+	let c = b + 1, d = yield c;
+	return [a, b, c, d];
+}
+const it = g();
+[it.next().value, it.next(2).value, it.next(4).value];
+  `
+	);
+
+	expect(a).toEqual([1, 3, [1, 2, 3, 4]]);
+});
+
+test("yield in destructuring defaults", () => {
+	const a = run(
+		`
+function* g() {
+	const [a, b = yield "b"] = [1];
+	let { c = yield "c" } = {};
+	var d;
+	[d = yield "d"] = [];
+	return [a, b, c, d];
+}
+const it = g();
+[it.next().value, it.next(2).value, it.next(3).value, it.next(4).value];
+  `
+	);
+
+	expect(a).toEqual(["b", "c", "d", [1, 2, 3, 4]]);
+});
+
+test("yield in destructuring keys and targets", () => {
+	const a = run(
+		`
+function* g(obj) {
+	const { [yield "key"]: a } = { x: 1 };
+	[(yield "target").y] = [a];
+	return obj;
+}
+const obj = {};
+const it = g(obj);
+[it.next().value, it.next("x").value, it.next(obj).value];
+  `
+	);
+
+	expect(a).toEqual(["key", "target", { y: 1 }]);
+});
+
+test("yield in catch and for-of patterns", () => {
+	const a = run(
+		`
+function* g() {
+	const list = [];
+	try {
+		throw [];
+	} catch ([e = yield "catch"]) {
+		list.push(e);
+	}
+	for (const [x, y = yield x] of [[1], [2, 3]]) {
+		list.push(y);
+	}
+	return list;
+}
+const it = g();
+[it.next().value, it.next("e").value, it.next(5).value];
+  `
+	);
+
+	expect(a).toEqual(["catch", 1, ["e", 5, 3]]);
+});
+
+test("return while suspended in a destructuring default closes the iterator", () => {
+	const a = run(
+		`
+const log = [];
+const iterable = {
+	[Symbol.iterator]() {
+		return {
+			next: () => ({ value: undefined, done: false }),
+			return: () => {
+				log.push("return");
+				return {};
+			},
+		};
+	},
+};
+function* g() {
+	const [a = yield 1] = iterable;
+}
+const it = g();
+it.next();
+[it.return(2), log];
+  `
+	);
+
+	expect(a).toEqual([{ value: 2, done: true }, ["return"]]);
+});
+
+test("yield in class heritage and computed keys", () => {
+	const a = run(
+		`
+function* g() {
+	class A extends (yield "heritage") {
+		[yield "key"]() {
+			return this.x;
+		}
+	}
+	return new A().m();
+}
+const it = g();
+[
+	it.next().value,
+	it.next(class {
+		constructor() {
+			this.x = 1;
+		}
+	}).value,
+	it.next("m").value,
+];
+  `
+	);
+
+	expect(a).toEqual(["heritage", "key", 1]);
+});
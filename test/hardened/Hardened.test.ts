@@ -0,0 +1,185 @@
+import { Interpreter } from "../../src";
+import { createRun } from "../helpers";
+
+const run = createRun({ hardened: true });
+
+// typeof process is "object" only in the host
+const code = `"return typeof process"`;
+
+const payloads = [
+	`({}).constructor.constructor(${code})()`,
+	`(function() {}).constructor(${code})()`,
+	`(() => {}).constructor(${code})()`,
+	`(async function() {}).constructor(${code})()`,
+	`(function*() {}).constructor(${code})()`,
+	`Function.prototype.constructor(${code})()`,
+	`[].map.constructor(${code})()`,
+	`this.constructor.constructor(${code})()`,
+	`Object.getOwnPropertyDescriptor(Object.getPrototypeOf(Object), "constructor").value(${code})()`,
+	`Reflect.get(Object, "constructor")(${code})()`,
+	`Reflect.getPrototypeOf(Object).constructor(${code})()`,
+	`const { constructor: F } = Object; F(${code})()`,
+	`const [F] = Object.values(Object.getOwnPropertyDescriptor(Object.getPrototypeOf(Object), "constructor")); F(${code})()`,
+	`let result; for (const F of Object.values(Object.getOwnPropertyDescriptor(Object.getPrototypeOf(Object), "constructor"))) { result = F(${code})(); break; } result`,
+	`Object.values(Object.getOwnPropertyDescriptor(Object.getPrototypeOf(Object), "constructor")).map(F => typeof F === "function" ? F(${code})() : F)[0]`,
+	`[...Object.values(Object.getOwnPropertyDescriptor(Object.getPrototypeOf(Object), "constructor"))][0](${code})()`,
+	`class A { static f() { return super.constructor(${code})(); } } A.f()`,
+	`try { throw Object.constructor; } catch (F) { F(${code})(); }`,
+	`with (Object) { constructor(${code})(); }`,
+];
+
+test.each(payloads)("payload is evaluated by the interpreter: %s", payload => {
+	expect(run(payload)).toBe("undefined");
+});
+
+test("payloads escape without hardened mode", () => {
+	expect(run(payloads[0], {}, { hardened: false })).toBe("object");
+});
+
+test("host functions can not receive host Function", () => {
+	const descriptor = `Object.values(Object.getOwnPropertyDescriptor(Object.getPrototypeOf(Object), "constructor"))`;
+
+	expect(() =>
+		run(
+			`Reflect.apply(Reflect.construct, null, ${descriptor}.slice(0, 1).concat([[${code}]]))()`
+		)
+	).toThrow("Illegal call");
+	expect(() => run(`Reflect.construct(...${descriptor}.slice(0, 1), [${code}])()`)).toThrow();
+});
+
+test("host functions can not call back host Function", () => {
+	const descriptor = `const d = Object.getOwnPropertyDescriptor(Object.getPrototypeOf(Object), "constructor"); const o = {};`;
+
+	expect(() =>
+		run(
+			`${descriptor} Object.defineProperty(o, Symbol.replace, d); "a".replace(o, "return process.version")()`
+		)
+	).toThrow("Illegal call");
+	expect(() =>
+		run(`${descriptor} Object.defineProperty(o, "toJSON", d); JSON.stringify(o)`)
+	).toThrow("Illegal call");
+	expect(() =>
+		run(`${descriptor} Object.defineProperty(o, Symbol.toPrimitive, d); \`\${o}\``)
+	).toThrow("Illegal call");
+	expect(() =>
+		run(
+			`${descriptor} Object.defineProperties(o, { [Symbol.replace]: d }); "a".replace(o, ${code})()`
+		)
+	).toThrow("Illegal call");
+	expect(() =>
+		run(`${descriptor} "a".replace(Object.create(null, { [Symbol.replace]: d }), ${code})()`)
+	).toThrow("Illegal call");
+});
+
+test("host eval is the interpreter's eval", () => {
+	expect(run(`box.run("typeof process")`, { box: { run: eval } })).toBe("undefined");
+});
+
+test("promise callbacks", async () => {
+	const a = run(
+		`
+Promise.resolve()
+	.then(Reflect.get.bind(null, Object, "constructor"))
+	.then(F => F(${code})());
+	`
+	);
+
+	expect(await a).toBe("undefined");
+
+	const b = run(
+		`
+(async () => {
+	const F = await Promise.resolve().then(Reflect.get.bind(null, Object, "constructor"));
+	return F(${code})();
+})();
+	`
+	);
+
+	expect(await b).toBe("undefined");
+
+	const c = run(
+		`
+(async () => {
+	const descriptor = Object.getOwnPropertyDescriptor(Object.getPrototypeOf(Object), "constructor");
+	const F = await Promise.race(Object.values(descriptor));
+	return F(${code})();
+})();
+	`
+	);
+
+	expect(await c).toBe("undefined");
+
+	const d = run(
+		`
+const descriptor = Object.getOwnPropertyDescriptor(Object.getPrototypeOf(Object), "constructor");
+Promise.resolve(Object.defineProperty({}, "then", descriptor));
+	`
+	);
+
+	await expect(d).rejects.toThrow("Illegal call");
+});
+
+test("host async and generator function constructors are blocked", () => {
+	const hostAsync = new Function("return async function() {}")();
+	const hostGenerator = new Function("return function*() {}")();
+
+	expect(() => run(`hostAsync.constructor(${code})`, { hostAsync })).toThrow(TypeError);
+	expect(() =>
+		run(`Object.getPrototypeOf(hostGenerator).constructor`, { hostGenerator })
+	).toThrow(TypeError);
+});
+
+test("legacy accessors are blocked", () => {
+	expect(() => run(`({}).__proto__`)).toThrow(TypeError);
+	expect(() => run(`({})["__proto__"] = {}`)).toThrow(TypeError);
+	expect(() => run(`({}).__defineGetter__("a", function() {})`)).toThrow(TypeError);
+	expect(() => run(`Object.prototype["__lookup" + "Getter__"]`)).toThrow(TypeError);
+	expect(() => run(`Reflect.get(Object.prototype, "__defineSetter__")`)).toThrow(TypeError);
+	expect(() => run(`Object.getOwnPropertyDescriptor(Object.prototype, "__proto__").set`)).toThrow(
+		TypeError
+	);
+	expect(() => run(`const { __proto__: proto } = {}`)).toThrow(TypeError);
+	expect(() => run(`delete ({}).__proto__`)).toThrow(TypeError);
+
+	expect(run(`({}).__proto__ === Object.prototype`, {}, { hardened: false })).toBe(true);
+});
+
+test("scripts still work in hardened mode", () => {
+	const a = run(
+		`
+const double = Function("a", "return a * 2");
+const o = { __proto__: { inherited: 1 } };
+[
+	double(2),
+	new Function("return 1")(),
+	eval("1 + 1"),
+	(function() {}).constructor === Function,
+	(() => {}) instanceof Function,
+	[1, 2].map(x => x * 2),
+	o.inherited,
+	Object.getPrototypeOf(o) === Object.prototype
+];
+	`
+	);
+
+	expect(a).toEqual([4, 1, 2, true, true, [2, 4], 1, false]);
+});
+
+test("hardened interpreters do not share the built-in objects", () => {
+	const a = new Interpreter({}, { ecmaVersion: 2020, hardened: true });
+	const b = new Interpreter({}, { ecmaVersion: 2020, hardened: true });
+
+	a.evaluate(`Array.prototype.map = function() { return "hijacked"; }`);
+
+	expect(a.evaluate(`[1, 2].map(x => x)`)).toBe("hijacked");
+	expect(b.evaluate(`[1, 2].map(x => x)`)).toEqual([1, 2]);
+	expect([1, 2].map(x => x)).toEqual([1, 2]);
+});
+
+test("results are objects of the copies", () => {
+	const a = run(`[1, 2]`);
+
+	expect(a instanceof Array).toBe(false);
+	expect(Array.isArray(a)).toBe(true);
+	expect(run(`Array`)).toBe(Array);
+});
@@ -0,0 +1,16 @@
+import { Interpreter } from "../src";
+
+type Options = ConstructorParameters<typeof Interpreter>[1];
+
+// evaluates code by a new interpreter, ES2020 unless options.ecmaVersion is given
+export function run(code: string, ctx: any = {}, options: Options = {}) {
+	const interpreter = new Interpreter(ctx, { ecmaVersion: 2020, ...options });
+
+	return interpreter.evaluate(code);
+}
+
+// run with the options shared by a test file: const run = createRun({ lockdown: true })
+export function createRun(defaults: Options) {
+	return (code: string, ctx: any = {}, options: Options = {}) =>
+		run(code, ctx, { ...defaults, ...options });
+}
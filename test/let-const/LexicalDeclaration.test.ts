@@ -0,0 +1,216 @@
+import { Interpreter } from "../../src";
+import { createRun } from "../helpers";
+
+const run = createRun({ ecmaVersion: 6 });
+
+test("let -1", () => {
+	const a = run(
+		`
+let a = 1;
+{
+	let a = 2;
+}
+a;
+  `
+	);
+
+	expect(a).toEqual(1);
+});
+
+test("let -2", () => {
+	const a = run(
+		`
+function test(){
+	let a = 1;
+	if (true) {
+		let a = 2;
+	}
+	return a;
+}
+test();
+  `
+	);
+
+	expect(a).toEqual(1);
+});
+
+test("let in for statement", () => {
+	const a = run(
+		`
+var funcs = [];
+for (let i = 0; i < 3; i++) {
+	funcs.push(function(){ return i; });
+}
+funcs.map(function(f){ return f(); }).join(",");
+  `
+	);
+
+	expect(a).toEqual("0,1,2");
+});
+
+test("let in for statement -2", () => {
+	const a = run(
+		`
+var funcs = [];
+for (let i = 0; i < 3; i++) {
+	funcs.push(function(){ return i; });
+	i++;
+}
+funcs.map(function(f){ return f(); }).join(",");
+  `
+	);
+
+	expect(a).toEqual("1,3");
+});
+
+test("const in for-in statement", () => {
+	const a = run(
+		`
+var funcs = [];
+for (const key in { a: 1, b: 2 }) {
+	funcs.push(function(){ return key; });
+}
+funcs.map(function(f){ return f(); }).join(",");
+  `
+	);
+
+	expect(a).toEqual("a,b");
+});
+
+test("let in switch statement", () => {
+	const a = run(
+		`
+switch (1) {
+	case 1:
+		let a = 3;
+	case 2:
+		a;
+}
+  `
+	);
+
+	expect(a).toEqual(3);
+});
+
+test("temporal dead zone -1", () => {
+	expect(() => {
+		run(
+			`
+a;
+let a = 1;
+  `
+		);
+	}).toThrow("Cannot access 'a' before initialization");
+});
+
+test("temporal dead zone -2", () => {
+	const a = run(
+		`
+let a = 1;
+function test(){
+	try {
+		return typeof a;
+	} catch(e) {
+		return e instanceof ReferenceError;
+	}
+	let a = 2;
+}
+test();
+  `
+	);
+
+	expect(a).toEqual(true);
+});
+
+test("temporal dead zone -3", () => {
+	expect(() => {
+		run(
+			`
+{
+	a = 1;
+	let a;
+}
+  `
+		);
+	}).toThrow(ReferenceError);
+});
+
+test("const -1", () => {
+	expect(() => {
+		run(
+			`
+const a = 1;
+a = 2;
+  `
+		);
+	}).toThrow(TypeError);
+});
+
+test("const -2", () => {
+	const a = run(
+		`
+const a = 1;
+try {
+	a++;
+} catch(e) {
+	e instanceof TypeError;
+}
+  `
+	);
+
+	expect(a).toEqual(true);
+});
+
+test("const -3", () => {
+	expect(() => {
+		run(
+			`
+for (const i = 0; i < 1; i++) {}
+  `
+		);
+	}).toThrow(TypeError);
+});
+
+test("function in block", () => {
+	const a = run(
+		`
+let a = 1;
+{
+	let a = 2;
+	function test(){
+		return a;
+	}
+}
+test();
+  `
+	);
+
+	expect(a).toEqual(2);
+});
+
+test("global lexical scope", () => {
+	const ctx: any = {};
+	const interpreter = new Interpreter(ctx, { ecmaVersion: 6 });
+
+	interpreter.evaluate(`
+let a = 1;
+const b = 2;
+	`);
+
+	expect(interpreter.evaluate(`a + b`)).toEqual(3);
+	expect(interpreter.evaluate(`eval("a + b")`)).toEqual(3);
+	expect(interpreter.evaluate(`Function("return a + b")()`)).toEqual(3);
+	expect("a" in ctx).toEqual(false);
+
+	expect(() => interpreter.evaluate(`let a = 2`)).toThrow(
+		"Identifier 'a' has already been declared"
+	);
+	expect(() => interpreter.evaluate(`var a = 2`)).toThrow(
+		"Identifier 'a' has already been declared"
+	);
+	expect(() => interpreter.evaluate(`function b() {}`)).toThrow(
+		"Identifier 'b' has already been declared"
+	);
+	expect(interpreter.evaluate(`a + b`)).toEqual(3);
+	expect(() => interpreter.evaluate(`b = 3`)).toThrow(TypeError);
+});
@@ -0,0 +1,135 @@
+import { Interpreter, Realm } from "../../src";
+import { createRun } from "../helpers";
+
+const run = createRun({ lockdown: true });
+
+test("built-in objects are frozen", () => {
+	const a = run(
+		`
+[
+	Object.isFrozen(Object),
+	Object.isFrozen(Object.prototype),
+	Object.isFrozen(Array.prototype),
+	Object.isFrozen(Array.prototype.map),
+	Object.isFrozen(Function.prototype),
+	Object.isFrozen(Math),
+	Object.isFrozen(JSON),
+	Object.isFrozen(Reflect),
+	Object.isFrozen(Promise.prototype),
+	Object.isFrozen(Object.getPrototypeOf([][Symbol.iterator]())),
+];
+	`
+	);
+
+	expect(a).toEqual([true, true, true, true, true, true, true, true, true, true]);
+});
+
+test("writes to the built-in objects throw TypeError", () => {
+	expect(() => run(`Array.prototype.map = null`)).toThrow(TypeError);
+	expect(() => run(`Math.PI = 3`)).toThrow(TypeError);
+	expect(() => run(`JSON.parse.cache = {}`)).toThrow(TypeError);
+	expect(() => run(`Object.prototype.polluted = 1`)).toThrow(TypeError);
+	expect(() => run(`Array.prototype["map"] += ""`)).toThrow(TypeError);
+	expect(() => run(`Array.prototype.length++`)).toThrow(TypeError);
+	expect(() => run(`[Math.E] = [1]`)).toThrow(TypeError);
+	expect(() => run(`({ a: Math.E } = { a: 1 })`)).toThrow(TypeError);
+	expect(() => run(`delete Array.prototype.map`)).toThrow(TypeError);
+	expect(() => run(`delete Math.max`)).toThrow(TypeError);
+	expect(() => run(`Object.defineProperty(Array.prototype, "x", { value: 1 })`)).toThrow(
+		TypeError
+	);
+
+	const a = run(
+		`
+let error;
+try {
+	Array.prototype.map = null;
+} catch (e) {
+	error = e;
+}
+[error instanceof TypeError, typeof Array.prototype.map];
+	`
+	);
+
+	expect(a).toEqual([true, "function"]);
+});
+
+test("the host is not affected", () => {
+	run(`try { Array.prototype.map = null } catch (e) {}`);
+
+	expect(typeof Array.prototype.map).toBe("function");
+	expect(Object.isFrozen(Array.prototype)).toBe(false);
+	expect(Object.isFrozen(Math)).toBe(false);
+
+	const ctx: any = { list: [1, 2] };
+	const a = run(`list.push(3); list.extra = 1; [Array.isArray(list), list.map(x => x * 2)]`, ctx);
+
+	expect(a).toEqual([true, [2, 4, 6]]);
+	expect(ctx.list.slice()).toEqual([1, 2, 3]);
+	expect(ctx.list.extra).toBe(1);
+});
+
+test("host built-in objects can not be reached through the copies", () => {
+	const code = `[Object.keys({})].map(Object.getPrototypeOf).forEach(Object.assign)`;
+
+	expect(() => run(code)).toThrow(TypeError);
+	expect(() =>
+		new Interpreter({}, { realm: true, lockdown: true, hardened: true }).evaluate(code)
+	).toThrow(TypeError);
+	run(`[Object.keys({})].map(Object.getPrototypeOf).forEach(Object.freeze)`);
+
+	expect(Array.prototype[0]).toBe(undefined);
+	expect(Object.isFrozen(Array.prototype)).toBe(false);
+});
+
+test("objects of scripts are not frozen", () => {
+	const a = run(
+		`
+const o = { a: 1 };
+o.a = 2;
+o.toString = function() {
+	return "o";
+};
+o.constructor = null;
+delete o.a;
+
+function F() {}
+F.prototype.method = function() {
+	return "method";
+};
+
+class A {
+	get value() {
+		return "value";
+	}
+}
+A.t = 2;
+
+const list = [1];
+list.push(2);
+list.map = null;
+
+[String(o), o.constructor, "a" in o, new F().method(), new A().value, A.t, list.length, list.map, Object.isFrozen(o)];
+	`
+	);
+
+	expect(a).toEqual(["o", null, false, "method", "value", 2, 2, null, false]);
+});
+
+test("lockdown with a realm", () => {
+	const realm = new Realm();
+
+	expect(new Interpreter({}, { realm }).evaluate(`Array.prototype.answer = 42; [].answer`)).toBe(
+		42
+	);
+
+	const a = new Interpreter({}, { realm, lockdown: true }).evaluate(
+		`[Object.isFrozen(Array.prototype), [].answer]`
+	);
+
+	expect(a).toEqual([true, 42]);
+	expect(realm.isFrozen()).toBe(true);
+	expect(() => new Interpreter({}, { realm }).evaluate(`Array.prototype.answer = 0`)).toThrow(
+		TypeError
+	);
+});
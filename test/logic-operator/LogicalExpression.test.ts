@@ -43,3 +43,29 @@ test("LogicalExpression-and-2", () => {
 
 	deepEqual(num, 0);
 });
+
+test("LogicalExpression-nullish-1", () => {
+	const result = evaluate(
+		`
+[null ?? 1, undefined ?? 2, 0 ?? 3, "" ?? 4, false ?? 5, NaN ?? 6];
+  `,
+		{},
+		{ ecmaVersion: 2020 }
+	);
+
+	deepEqual(result, [1, 2, 0, "", false, NaN]);
+});
+
+test("LogicalExpression-nullish-2", () => {
+	const result = evaluate(
+		`
+var calls = 0;
+function f() { calls++; return "f"; }
+[1 ?? f(), null ?? f(), calls];
+  `,
+		{},
+		{ ecmaVersion: 2020 }
+	);
+
+	deepEqual(result, [1, "f", 1]);
+});
@@ -0,0 +1,356 @@
+import { Interpreter } from "../../src";
+
+function createInterpreter(files: { [id: string]: string }, ctx: {} = {}) {
+	return new Interpreter(ctx, {
+		ecmaVersion: 2020,
+		resolveModule(specifier, referrer) {
+			return specifier.replace(/^\.\//, "");
+		},
+		loadModule(id) {
+			return files[id];
+		},
+	});
+}
+
+test("exports -1", () => {
+	const interpreter = createInterpreter({});
+	const ns = interpreter.evaluateModule(
+		`
+export var a = 1;
+export let b = 2;
+export const c = 3;
+export function f() { return a + b + c; }
+export class K {}
+var d = 4, e = 5;
+export { d, e as default };
+	`,
+		"main"
+	);
+
+	expect(Object.keys(ns)).toEqual(["K", "a", "b", "c", "d", "default", "f"]);
+	expect(ns.f()).toBe(6);
+	expect(ns.default).toBe(5);
+	expect(ns.K.name).toBe("K");
+	expect(Object.prototype.toString.call(ns)).toBe("[object Module]");
+	expect(Object.isExtensible(ns)).toBe(false);
+});
+
+test("imports -1", () => {
+	const interpreter = createInterpreter({
+		math: `
+export const pi = 3;
+export function double(n) { return n * 2; }
+export default function () { return "default"; }
+		`,
+	});
+	const ns = interpreter.evaluateModule(
+		`
+import sum, { pi, double as twice } from "./math";
+import * as math from "./math";
+export const result = [pi, twice(pi), sum(), sum.name, math.pi, Object.keys(math)];
+	`,
+		"main"
+	);
+
+	expect(ns.result).toEqual([3, 6, "default", "default", 3, ["default", "double", "pi"]]);
+});
+
+test("default export expressions", () => {
+	const interpreter = createInterpreter({
+		a: `export default 1 + 1;`,
+		b: `export default class {}`,
+		c: `export default () => {};`,
+		d: `export default function named() {}`,
+	});
+	const ns = interpreter.evaluateModule(
+		`
+import a from "a";
+import b from "b";
+import c from "c";
+import d from "d";
+export default [a, b.name, c.name, d.name];
+	`,
+		"main"
+	);
+
+	expect(ns.default).toEqual([2, "default", "default", "named"]);
+});
+
+test("live bindings", () => {
+	const interpreter = createInterpreter({
+		counter: `
+export let count = 0;
+export function increment() { count++; }
+		`,
+	});
+	const ns = interpreter.evaluateModule(
+		`
+import { count, increment } from "counter";
+import * as counter from "counter";
+export const before = count;
+increment();
+increment();
+export const after = [count, counter.count];
+	`,
+		"main"
+	);
+
+	expect(ns.before).toBe(0);
+	expect(ns.after).toEqual([2, 2]);
+});
+
+test("imported bindings are immutable", () => {
+	const interpreter = createInterpreter({ a: `export let a = 1;` });
+
+	expect(() => interpreter.evaluateModule(`import { a } from "a"; a = 2;`, "main")).toThrow(
+		TypeError
+	);
+});
+
+test("module scope", () => {
+	const ctx: any = {};
+	const interpreter = createInterpreter({}, ctx);
+	const ns = interpreter.evaluateModule(
+		`
+var a = 1;
+let b = 2;
+export const self = this;
+export function getA() { return a; }
+	`,
+		"main"
+	);
+
+	expect(ns.self).toBe(undefined);
+	expect(ns.getA()).toBe(1);
+	expect("a" in ctx).toBe(false);
+	expect(interpreter.evaluate("typeof a + typeof b")).toBe("undefinedundefined");
+});
+
+test("re-exports", () => {
+	const interpreter = createInterpreter({
+		a: `export const a = 1; export default "a";`,
+		b: `export const b = 2; export { a } from "a";`,
+		c: `
+export * from "a";
+export * from "b";
+export { default as defaultOfA, a as renamed } from "a";
+import { b } from "b";
+export { b as bb };
+		`,
+	});
+	const ns = interpreter.evaluateModule(`import * as c from "c"; export { c };`, "main");
+
+	expect(Object.keys(ns.c)).toEqual(["a", "b", "bb", "defaultOfA", "renamed"]);
+	expect([ns.c.a, ns.c.b, ns.c.bb, ns.c.defaultOfA, ns.c.renamed]).toEqual([1, 2, 2, "a", 1]);
+});
+
+test("ambiguous star exports", () => {
+	const interpreter = createInterpreter({
+		a: `export const x = 1;`,
+		b: `export const x = 2;`,
+		c: `export * from "a"; export * from "b";`,
+	});
+	const ns = interpreter.evaluateModule(`import * as c from "c"; export { c };`, "main");
+
+	expect(Object.keys(ns.c)).toEqual([]);
+	expect(() => interpreter.evaluateModule(`import { x } from "c";`, "other")).toThrow(
+		SyntaxError
+	);
+});
+
+test("export * as namespace", () => {
+	const interpreter = createInterpreter({
+		d: `export const x = 1; export default "d";`,
+		c: `export * as all from "./d"; export const y = 2;`,
+	});
+	const ns = interpreter.evaluateModule(
+		`
+import * as c from "c";
+import { all } from "c";
+export { c, all };
+	`,
+		"main"
+	);
+
+	expect(Object.keys(ns.c)).toEqual(["all", "y"]);
+	expect(ns.c.all).toBe(ns.all);
+	expect(Object.keys(ns.all)).toEqual(["default", "x"]);
+	expect([ns.all.x, ns.all.default]).toEqual([1, "d"]);
+});
+
+test("namespace properties", () => {
+	const interpreter = createInterpreter({
+		a: `export let x = 1; export function inc() { x++; }`,
+	});
+	const ns = interpreter.evaluateModule(
+		`
+import * as a from "a";
+const before = Object.getOwnPropertyDescriptor(a, "x");
+a.inc();
+const after = Object.getOwnPropertyDescriptor(a, "x");
+let error;
+try {
+	a.x = 3;
+} catch (e) {
+	error = e;
+}
+export const result = [before, after, error instanceof TypeError, error.message, a.x, Reflect.set(a, "x", 3), delete a.y];
+export { a };
+	`,
+		"main"
+	);
+
+	expect(ns.result).toEqual([
+		{ value: 1, writable: true, enumerable: true, configurable: false },
+		{ value: 2, writable: true, enumerable: true, configurable: false },
+		true,
+		"Cannot assign to read only property 'x' of object '[object Module]' [8:1]",
+		2,
+		false,
+		true,
+	]);
+	expect(() => Object.defineProperty(ns.a, "x", { value: 3 })).toThrow(TypeError);
+	expect(new Interpreter({ a: ns.a }).evaluate(`a.x = 3; a.x`)).toBe(2);
+});
+
+test("top-level await is not supported", () => {
+	const interpreter = new Interpreter(
+		{},
+		{
+			ecmaVersion: "latest",
+			loadModule: () => `export const a = await 1;`,
+		}
+	);
+
+	expect(() => interpreter.evaluateModule(`const a = await 1;`, "m1")).toThrow(SyntaxError);
+	expect(() => interpreter.evaluateModule(`for await (const a of []) {}`, "m2")).toThrow(
+		"Top-level for await is not supported in modules"
+	);
+	expect(() => interpreter.evaluateModule(`class A { [await 1]() {} }`, "m3")).toThrow(
+		"Top-level await is not supported in modules"
+	);
+	expect(() => interpreter.evaluateModule(`import { a } from "a";`, "m4")).toThrow(SyntaxError);
+	expect(
+		interpreter.evaluateModule(`export const f = async () => await 1;`, "m5").f
+	).toBeInstanceOf(Function);
+});
+
+test("missing exports and modules", () => {
+	const interpreter = createInterpreter({ a: `export const a = 1;` });
+
+	expect(() => interpreter.evaluateModule(`import { b } from "a";`, "m1")).toThrow(
+		"The requested module does not provide an export named 'b'"
+	);
+	expect(() => interpreter.evaluateModule(`import "missing";`, "m2")).toThrow(
+		"Cannot find module 'missing'"
+	);
+	// failed modules are not registered
+	expect(interpreter.evaluateModule(`import { a } from "a"; export { a };`, "m1").a).toBe(1);
+});
+
+test("modules are evaluated once", () => {
+	const log: string[] = [];
+	const interpreter = createInterpreter(
+		{
+			a: `log.push("a"); export default 1;`,
+			b: `import a from "a"; log.push("b");`,
+		},
+		{ log }
+	);
+
+	interpreter.evaluateModule(`import "a"; import "b"; log.push("main");`, "main");
+	interpreter.evaluateModule(`import "b"; log.push("main2");`, "main2");
+
+	expect(log).toEqual(["a", "b", "main", "main2"]);
+	expect(() => interpreter.evaluateModule(``, "main")).toThrow(
+		"Module 'main' has already been declared"
+	);
+});
+
+test("cycles", () => {
+	const log: string[] = [];
+	const interpreter = createInterpreter(
+		{
+			even: `
+import { odd } from "odd";
+log.push("even");
+export function even(n) { return n === 0 ? true : odd(n - 1); }
+			`,
+			odd: `
+import { even } from "even";
+log.push("odd");
+export function odd(n) { return n === 0 ? false : even(n - 1); }
+export const result = even(4);
+			`,
+		},
+		{ log }
+	);
+
+	const ns = interpreter.evaluateModule(
+		`import { even } from "even"; export const result = [even(3), even(10)];`,
+		"main"
+	);
+
+	expect(log).toEqual(["odd", "even"]);
+	expect(ns.result).toEqual([false, true]);
+});
+
+test("cycles: temporal dead zone", () => {
+	const interpreter = createInterpreter({
+		a: `import { b } from "b"; export const a = 1;`,
+		b: `import { a } from "a"; export const b = a;`,
+	});
+
+	expect(() => interpreter.evaluateModule(`import "a";`, "main")).toThrow(
+		"Cannot access 'a' before initialization"
+	);
+	// errors are cached
+	expect(() => interpreter.evaluateModule(`import "b";`, "main2")).toThrow(ReferenceError);
+});
+
+test("synthetic modules", () => {
+	const host = { version: 1, add: (a: number, b: number) => a + b };
+	const interpreter = createInterpreter({});
+
+	interpreter.registerModule("host", host);
+	interpreter.registerModule("withDefault", { default: "d" });
+
+	const ns = interpreter.evaluateModule(
+		`
+import host, { add, version } from "host";
+import d from "withDefault";
+export const get = () => version;
+export const result = [add(1, 2), host.version, d];
+	`,
+		"main"
+	);
+
+	expect(ns.result).toEqual([3, 1, "d"]);
+	host.version = 2;
+	expect(ns.get()).toBe(2);
+	expect(() => interpreter.evaluateModule(`import { x } from "host";`, "other")).toThrow(
+		SyntaxError
+	);
+});
+
+test("resolve with referrer", () => {
+	const referrers: string[] = [];
+	const interpreter = new Interpreter(
+		{},
+		{
+			ecmaVersion: 2020,
+			resolveModule(specifier, referrer) {
+				referrers.push(`${referrer} -> ${specifier}`);
+				return specifier.replace("./", referrer.replace(/[^/]*$/, ""));
+			},
+			loadModule(id) {
+				return id === "lib/a.js"
+					? `export { b as a } from "./b.js";`
+					: `export const b = 1;`;
+			},
+		}
+	);
+
+	expect(interpreter.evaluateModule(`export * from "./lib/a.js";`, "main.js").a).toBe(1);
+	expect(referrers).toEqual(["main.js -> ./lib/a.js", "lib/a.js -> ./b.js"]);
+});
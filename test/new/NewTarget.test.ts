@@ -0,0 +1,52 @@
+import { run } from "../helpers";
+
+test("new.target in functions", () => {
+	const a = run(
+		`
+function F() {
+	this.target = new.target;
+	this.arrow = (() => new.target)();
+}
+function G() {
+	return new.target;
+}
+const f = new F();
+[f.target === F, f.arrow === F, G(), G.call(f)];
+	`
+	);
+
+	expect(a).toEqual([true, true, undefined, undefined]);
+});
+
+test("new.target in classes", () => {
+	const a = run(
+		`
+class A {
+	constructor() {
+		this.target = new.target;
+	}
+	method() {
+		return new.target;
+	}
+	static create() {
+		return new this();
+	}
+}
+class B extends A {}
+function Legacy() {
+	this.target = new.target;
+}
+class C extends Legacy {}
+[new A().target === A, new B().target === B, B.create().target === B, new A().method(), new C().target === C];
+	`
+	);
+
+	expect(a).toEqual([true, true, true, undefined, true]);
+});
+
+test("new.target from the host", () => {
+	const F = run(`(function F() { return { target: new.target }; })`);
+
+	expect(new F().target).toBe(F);
+	expect(F().target).toBe(undefined);
+});
@@ -0,0 +1,187 @@
+import { run } from "../helpers";
+
+test("computed keys -1", () => {
+	const result = run(`
+var i = 0;
+var key = "b";
+var o = { ["a" + 1]: i++, [key]: i++, [1 + 1]: i++ };
+[o.a1, o.b, o["2"], Object.keys(o)];
+	`);
+
+	expect(result).toEqual([0, 1, 2, ["2", "a1", "b"]]);
+});
+
+test("computed keys -2", () => {
+	const result = run(`
+var log = [];
+function k(v) { log.push("k" + v); return v; }
+function v(v) { log.push("v" + v); return v; }
+var o = { [k(1)]: v(1), [k(2)]: v(2) };
+log;
+	`);
+
+	expect(result).toEqual(["k1", "v1", "k2", "v2"]);
+});
+
+test("symbol keys", () => {
+	const result = run(`
+var s = Symbol("foo");
+var o = {
+	[s]: 1,
+	[Symbol.iterator]: function* () { yield 1; yield 2; },
+	[Symbol.toPrimitive]() { return 42; }
+};
+[o[s], [...o], +o, Object.getOwnPropertySymbols(o).length, o[Symbol.toPrimitive].name];
+	`);
+
+	expect(result).toEqual([1, [1, 2], 42, 3, "[Symbol.toPrimitive]"]);
+});
+
+test("shorthand properties", () => {
+	const result = run(`
+var a = 1, b = "x";
+var o = { a, b };
+o;
+	`);
+
+	expect(result).toEqual({ a: 1, b: "x" });
+});
+
+test("method shorthand", () => {
+	const result = run(`
+var o = {
+	x: 2,
+	double(n) { return n * this.x; },
+	"quoted name"() {},
+	1() {},
+	*gen() { yield this.x; },
+	async run() { return 1; },
+};
+[o.double(3), o.double.name, o.double.length, o["quoted name"].name, o[1].name, [...o.gen()], o.gen.name, o.run.name];
+	`);
+
+	expect(result).toEqual([6, "double", 1, "quoted name", "1", [2], "gen", "run"]);
+});
+
+test("methods are not constructors", () => {
+	expect(() =>
+		run(`
+var o = { f() {} };
+new o.f();
+	`)
+	).toThrow(TypeError);
+
+	expect(run(`var o = { g: function() {} }; typeof new o.g();`)).toBe("object");
+});
+
+test("function names", () => {
+	const result = run(`
+var s = Symbol("desc");
+var o = {
+	a: function() {},
+	b: () => {},
+	c: class {},
+	d: function named() {},
+	[s]: function() {},
+	["comp" + "uted"]: () => {},
+};
+[o.a.name, o.b.name, o.c.name, o.d.name, o[s].name, o.computed.name];
+	`);
+
+	expect(result).toEqual(["a", "b", "c", "named", "[desc]", "computed"]);
+});
+
+test("getter and setter", () => {
+	const result = run(`
+var o = {
+	_v: 1,
+	get v() { return this._v; },
+	set v(value) { this._v = value * 2; },
+	get ["comp" + "uted"]() { return "c"; },
+};
+o.v = 5;
+var desc = Object.getOwnPropertyDescriptor(o, "v");
+[o.v, o.computed, desc.get.name, desc.set.name, desc.enumerable, desc.configurable];
+	`);
+
+	expect(result).toEqual([10, "c", "get v", "set v", true, true]);
+});
+
+test("super in methods", () => {
+	const result = run(`
+var proto = { greet() { return "hello"; }, get x() { return this.y; } };
+var o = {
+	__proto__: proto,
+	y: 1,
+	greet() { return super.greet() + " world"; },
+	get x() { return super.x + 1; },
+};
+[o.greet(), o.x];
+	`);
+
+	expect(result).toEqual(["hello world", 2]);
+});
+
+test("__proto__ literal", () => {
+	const result = run(`
+var proto = { a: 1 };
+var o1 = { __proto__: proto };
+var o2 = { "__proto__": null };
+var o3 = { ["__proto__"]: proto };
+var __proto__ = proto;
+var o4 = { __proto__ };
+var o5 = { __proto__: 1 };
+[
+	Object.getPrototypeOf(o1) === proto, o1.a, o1.hasOwnProperty("__proto__"),
+	Object.getPrototypeOf(o2),
+	Object.getPrototypeOf(o3) === Object.prototype, Object.getOwnPropertyNames(o3),
+	Object.getPrototypeOf(o4) === Object.prototype, o4.hasOwnProperty("__proto__"),
+	Object.getPrototypeOf(o5) === Object.prototype,
+];
+	`);
+
+	expect(result).toEqual([true, 1, false, null, true, ["__proto__"], true, true, true]);
+});
+
+test("spread properties", () => {
+	const result = run(`
+var a = { x: 1, y: 2 };
+var o = { x: 0, ...a, y: 3, ...null, ...undefined, ..."hi" };
+o;
+	`);
+
+	expect(result).toEqual({ 0: "h", 1: "i", x: 1, y: 3 });
+});
+
+test("spread does not invoke setters", () => {
+	const result = run(`
+var called = false;
+var o = { set a(v) { called = true; }, ...{ a: 1 } };
+[called, o.a];
+	`);
+
+	expect(result).toEqual([false, 1]);
+});
+
+test("duplicate keys", () => {
+	const result = run(`
+var o = { a: 1, get a() { return 2; } };
+var p = { get b() { return 1; }, b: 3 };
+[o.a, p.b, Object.getOwnPropertyDescriptor(p, "b").writable];
+	`);
+
+	expect(result).toEqual([2, 3, true]);
+});
+
+test("yield in computed keys", () => {
+	const result = run(`
+function* g() {
+	var o = { [yield "k"]: yield "v", m() { return this.a; } };
+	return o.m();
+}
+var it = g();
+[it.next().value, it.next("a").value, it.next(5).value];
+	`);
+
+	expect(result).toEqual(["k", "v", 5]);
+});
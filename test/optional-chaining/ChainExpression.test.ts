@@ -0,0 +1,79 @@
+import { Interpreter } from "../../src";
+import { run } from "../helpers";
+
+test("optional member -1", () => {
+	const result = run(`
+var a = { b: { c: 1 }, n: null };
+[a?.b.c, a.n?.c, a.x?.c.d.e, a?.["b"]?.c, null?.a, undefined?.[0]];
+	`);
+
+	expect(result).toEqual([1, undefined, undefined, 1, undefined, undefined]);
+});
+
+test("short-circuits the whole chain", () => {
+	const result = run(`
+var count = 0;
+function key() { count++; return "k"; }
+var a = null;
+[a?.[key()], a?.b[key()].c, a?.b(key()), a?.b.c(key())(key()), count];
+	`);
+
+	expect(result).toEqual([undefined, undefined, undefined, undefined, 0]);
+});
+
+test("parenthesized chain", () => {
+	expect(() => run(`var a = null; (a?.b).c;`)).toThrow(TypeError);
+	expect(run(`var a = { b: null }; (a?.b)?.c;`)).toBe(undefined);
+});
+
+test("optional call", () => {
+	const result = run(`
+var obj = {
+	value: 1,
+	method() { return this.value; },
+	nothing: null,
+};
+var f = null;
+[obj.method?.(), obj?.method(), obj.nothing?.(), obj.missing?.().x, f?.(), obj?.["method"]?.(), (obj?.method)()];
+	`);
+
+	expect(result).toEqual([1, 1, undefined, undefined, undefined, 1, 1]);
+});
+
+test("optional call: not a function", () => {
+	expect(() => run(`var obj = { a: 1 }; obj.a?.();`)).toThrow();
+	expect(() => run(`var obj = {}; obj?.a();`)).toThrow();
+	expect(() => run(`var obj = null; (obj?.a)();`)).toThrow();
+});
+
+test("delete", () => {
+	const result = run(`
+var a = { b: { c: 1 } };
+var n = null;
+[delete n?.b, delete a?.b.c, a.b, delete a?.b, a];
+	`);
+
+	expect(result).toEqual([true, true, {}, true, {}]);
+});
+
+test("with nullish coalescing", () => {
+	const result = run(`
+var config = { server: { port: 0 } };
+[config.server?.port ?? 80, config.client?.port ?? 8080];
+	`);
+
+	expect(result).toEqual([0, 8080]);
+});
+
+test("await in chain", async () => {
+	const interpreter = new Interpreter({}, { ecmaVersion: 2020 });
+	const result = await interpreter.evaluateAsync(`
+var count = 0;
+async function key() { count++; return "b"; }
+var a = null;
+var obj = { b: { value: 2, get() { return this.value; } } };
+[a?.[await key()], obj?.[await key()].get(), obj.b.get?.(await key()), a?.b(await key()), count, await null ?? "d"];
+	`);
+
+	expect(result).toEqual([undefined, 2, 2, undefined, 2, "d"]);
+});
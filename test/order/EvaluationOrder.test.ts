@@ -0,0 +1,163 @@
+import { Interpreter } from "../../src";
+
+// logging helpers shared by the native and the interpreted code
+const prelude = `
+function key(name) {
+	log("key " + name);
+	return { toString: function() { log("toString " + name); return name; } };
+}
+function val(v) {
+	log("val " + v);
+	return { valueOf: function() { log("valueOf " + v); return v; } };
+}
+function fn(name) {
+	log("fn " + name);
+	return function() { log("call " + name); };
+}
+function obj(name) {
+	log("obj " + name);
+	var target = { a: 1, b: 2, f: function() { log("call " + name + ".f"); } };
+	return new Proxy(target, {
+		get: function(t, k, r) {
+			if (typeof k === "string") log("get " + name + "." + k);
+			return Reflect.get(t, k, r);
+		},
+		set: function(t, k, v, r) {
+			log("set " + name + "." + k);
+			return Reflect.set(t, k, v, r);
+		},
+		has: function(t, k) {
+			log("has " + name + "." + String(k));
+			return Reflect.has(t, k);
+		},
+		deleteProperty: function(t, k) {
+			log("delete " + name + "." + k);
+			return Reflect.deleteProperty(t, k);
+		}
+	});
+}
+`;
+
+type Runner = (code: string, log: (value: any) => any) => void;
+
+function trace(runner: Runner, code: string) {
+	const logs: any[] = [];
+	const log = (value: any) => {
+		logs.push(value);
+		return value;
+	};
+
+	try {
+		runner(prelude + code, log);
+	} catch (e) {
+		logs.push("throw");
+	}
+
+	return logs;
+}
+
+const native: Runner = (code, log) => new Function("log", code)(log);
+const interpreted: Runner = (code, log) =>
+	new Interpreter({ log, Proxy, Reflect }, { ecmaVersion: 2022 }).evaluate(code);
+
+// the same code in a generator, the operands are evaluated across yield
+function inGenerator(code: string) {
+	return `
+function* g() {
+	${code
+		.replace(/val\((\d)\)/g, "(yield 0, val($1))")
+		.replace(/key\("(\w)"\)/g, '(yield 0, key("$1"))')}
+}
+var it = g();
+while (!it.next().done);
+	`;
+}
+
+const assignments = [
+	`obj("o")[key("a")] = val(1)`,
+	`obj("o")[key("a")] += val(1)`,
+	`obj("o")[key("a")] **= val(2)`,
+	`obj("o")[key("a")] ||= val(1)`,
+	`obj("o")[key("a")] &&= val(1)`,
+	`obj("o")[key("c")] ??= val(1)`,
+	`obj("o").a = obj("p")[key("b")] = val(3)`,
+	`obj("o")[key("a")][key("b")] = val(1)`,
+	`obj("o")[key("a")] = obj("o")[key("b")]`,
+	`null[key("a")] = val(1)`,
+	`null[key("a")] += val(1)`,
+	`var t = obj("o"); t.a = (t = null, val(1))`,
+	`var x = 1; x += (x = 10, 1); log(x)`,
+	`var arr = [1, 2]; var i = 0; arr[i++] = arr[i++] + val(5); log(arr.join())`,
+	`({ [key("x")]: obj("o")[key("a")] } = { x: 1 })`,
+];
+
+const updates = [
+	`obj("o")[key("a")]++`,
+	`--obj("o")[key("a")]`,
+	`var v = val(1); v++`,
+	`null[key("a")]++`,
+];
+
+const calls = [
+	`obj("o")[key("f")](val(1))`,
+	`obj("o").f(val(1), val(2))`,
+	`obj("o").missing(val(1))`,
+	`var notFn = 1; notFn(val(1))`,
+	`undeclaredFn(val(1))`,
+	`fn("a")(val(1), val(2))`,
+	`fn("f")(...[val(1), val(2)])`,
+	`obj("o")?.[key("f")](val(1))`,
+	`obj("o").missing?.(val(1))`,
+	`(obj("o")?.f)(val(1))`,
+	`obj("o").f\`\${val(1)}\``,
+	`fn("f")\`\${val(1)}\${val(2)}\``,
+];
+
+const constructs = [
+	`new (fn("F"))(val(1))`,
+	`new (obj("o").f)(val(1))`,
+	`new (log("callee"), 1)(val(1))`,
+	`new (fn("F"))(...[val(1)])`,
+];
+
+const others = [
+	`delete obj("o")[key("a")]`,
+	`typeof obj("o")[key("a")]`,
+	`key("a") in obj("o")`,
+	`val(1) + val(2)`,
+	`val(2) > val(1)`,
+	`val(2) ** val(3)`,
+	`({ [key("k")]: val(1), [key("j")]: val(2) })`,
+	`class D { [key("a")]() {} static [key("b")] = val(1); [key("c")] = val(2); } new D()`,
+];
+
+describe.each([
+	["assignments", assignments],
+	["updates", updates],
+	["calls", calls],
+	["new", constructs],
+	["others", others],
+])("%s", (_, cases) => {
+	test.each(cases)("%s", code => {
+		expect(trace(interpreted, code)).toEqual(trace(native, code));
+	});
+
+	// yield is not supported in class elements and assignment patterns
+	test.each(cases.filter(code => !/class|\} = /.test(code)))("%s in generator", code => {
+		expect(trace(interpreted, inGenerator(code))).toEqual(trace(native, inGenerator(code)));
+	});
+});
+
+test("with binding is resolved before the right side", () => {
+	const a = new Interpreter({}).evaluate(
+		`
+var o = { x: 1 };
+with (o) {
+	x = (delete o.x, 2);
+}
+o.x;
+	`
+	);
+
+	expect(a).toBe(2);
+});
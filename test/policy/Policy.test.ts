@@ -0,0 +1,174 @@
+import { run } from "../helpers";
+
+test("get", () => {
+	const host = { visible: 1, secret: 2 };
+	const policy = {
+		get: (target: any, key: PropertyKey) => !(target === host && key === "secret"),
+	};
+
+	expect(
+		run(`[host.visible, host["vis" + "ible"], ({ a: 1 }).a]`, { host }, { policy })
+	).toEqual([1, 1, 1]);
+	expect(() => run(`host.secret`, { host }, { policy })).toThrow(TypeError);
+	expect(() => run(`host?.["secret"]`, { host }, { policy })).toThrow(TypeError);
+	expect(() => run(`const { secret } = host;`, { host }, { policy })).toThrow(TypeError);
+	expect(() => run(`host.secret += 1`, { host }, { policy })).toThrow(TypeError);
+	expect(() => run(`host.secret++`, { host }, { policy })).toThrow(TypeError);
+	expect(() => run(`host.secret()`, { host }, { policy })).toThrow("Access denied: get secret");
+	expect(host.secret).toBe(2);
+});
+
+test("get of spread, rest and super", () => {
+	const config = { token: "secret", debug: true };
+	const policy = {
+		get: (target: any, key: PropertyKey) => !(target === config && key === "token"),
+	};
+
+	expect(() => run(`({ ...config }).token`, { config }, { policy })).toThrow(
+		"Access denied: get token"
+	);
+	expect(() => run(`const { ...r } = config; r.token`, { config }, { policy })).toThrow(
+		"Access denied: get token"
+	);
+	expect(
+		run(`const { token, ...r } = { ...{ a: 1 }, token: 1 }; r`, { config }, { policy })
+	).toEqual({
+		a: 1,
+	});
+	expect(
+		run(`({ __proto__: config, get() { return super.debug; } }).get()`, { config }, { policy })
+	).toBe(true);
+	expect(() =>
+		run(`({ __proto__: config, get() { return super.token; } }).get()`, { config }, { policy })
+	).toThrow("Access denied: get token");
+});
+
+test("set", () => {
+	const host = { readonly: 1, writable: 1 };
+	const calls: any[] = [];
+	const policy = {
+		set: (target: any, key: PropertyKey, value: any) => {
+			calls.push([key, value]);
+			return !(target === host && key === "readonly");
+		},
+	};
+
+	run(
+		`host.writable = 2; host.writable += 3; host.writable++; [host.writable] = [10];`,
+		{ host },
+		{ policy }
+	);
+
+	expect(host.writable).toBe(10);
+	expect(calls).toEqual([
+		["writable", 2],
+		["writable", 5],
+		["writable", 6],
+		["writable", 10],
+	]);
+
+	expect(() => run(`host.readonly = 2`, { host }, { policy })).toThrow(
+		"Access denied: set readonly"
+	);
+	expect(() => run(`host["read" + "only"] *= 2`, { host }, { policy })).toThrow(TypeError);
+	expect(() => run(`({ a: host.readonly } = { a: 2 })`, { host }, { policy })).toThrow(TypeError);
+	expect(host.readonly).toBe(1);
+
+	// variables are not property access
+	expect(run(`var a = 1; a = 2; a`, {}, { policy })).toBe(2);
+});
+
+test("set in generators", async () => {
+	const host = { readonly: 1 };
+	const policy = {
+		set: (target: any, key: PropertyKey) => key !== "readonly",
+	};
+
+	await expect(
+		run(`(async () => { host.readonly += await 1; })()`, { host }, { policy })
+	).rejects.toThrow(TypeError);
+	expect(host.readonly).toBe(1);
+});
+
+test("deleteProperty", () => {
+	const host = { a: 1, b: 1 };
+	const policy = {
+		deleteProperty: (target: any, key: PropertyKey) => key !== "a",
+	};
+
+	expect(run(`delete host.b`, { host }, { policy })).toBe(true);
+	expect(() => run(`delete host.a`, { host }, { policy })).toThrow("Access denied: delete a");
+	expect(() => run(`delete host?.a`, { host }, { policy })).toThrow(TypeError);
+	expect(host).toEqual({ a: 1 });
+});
+
+test("call", () => {
+	const log: any[] = [];
+	const host = {
+		allowed(a: number) {
+			return a * 2;
+		},
+		denied() {
+			log.push("denied");
+		},
+	};
+	const policy = {
+		call: (fn: Function, thisArg: any, args: any[]) => {
+			log.push([fn.name, thisArg === host, args]);
+			return fn !== host.denied;
+		},
+	};
+
+	expect(run(`host.allowed(2)`, { host }, { policy })).toBe(4);
+	expect(() => run(`host.denied()`, { host }, { policy })).toThrow("Access denied: call denied");
+	expect(() => run(`const f = host.denied; f()`, { host }, { policy })).toThrow(TypeError);
+	expect(() => run(`host.denied\`\``, { host }, { policy })).toThrow(TypeError);
+	expect(log).toEqual([
+		["allowed", true, [2]],
+		["denied", true, []],
+		["denied", false, []],
+		["denied", true, [[""]]],
+	]);
+});
+
+test("call in generators", async () => {
+	const calls: string[] = [];
+	const host = {
+		method(a: number) {
+			return a;
+		},
+	};
+	const policy = {
+		call: (fn: Function) => {
+			calls.push(fn.name);
+			return true;
+		},
+	};
+
+	expect(await run(`(async () => host.method(await 1))()`, { host }, { policy })).toBe(1);
+	// the async arrow itself is called as well
+	expect(calls).toEqual(["", "method"]);
+});
+
+test("construct", () => {
+	class Allowed {}
+	class Denied {}
+	const policy = {
+		construct: (fn: Function, args: any[]) => fn !== Denied,
+	};
+
+	expect(run(`new Allowed()`, { Allowed, Denied }, { policy })).toBeInstanceOf(Allowed);
+	expect(() => run(`new Denied()`, { Allowed, Denied }, { policy })).toThrow(
+		"Access denied: construct Denied"
+	);
+	expect(() =>
+		run(`class A extends Denied {}; new A();`, { Allowed, Denied }, { policy })
+	).toThrow("Access denied: construct Denied");
+	expect(
+		run(
+			`class A extends Allowed {}; new A() instanceof Allowed`,
+			{ Allowed, Denied },
+			{ policy }
+		)
+	).toBe(true);
+});
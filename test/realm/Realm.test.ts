@@ -0,0 +1,204 @@
+import { Interpreter, Realm, vm, createRequire } from "../../src";
+import { createRun } from "../helpers";
+
+const run = createRun({ realm: true });
+
+test("built-in objects are not shared with the host", () => {
+	run(`
+Array.prototype.map = null;
+Object.prototype.polluted = 1;
+JSON.stringify = null;
+Math.max.polluted = 1;
+Object.getPrototypeOf(Math.max).polluted = 1;
+Object.getPrototypeOf(function* () {}()).polluted = 1;
+(function () {}).__proto__.polluted = 1;
+	`);
+
+	expect(typeof Array.prototype.map).toBe("function");
+	expect(typeof JSON.stringify).toBe("function");
+	expect(({} as any).polluted).toBe(undefined);
+	expect((Math.max as any).polluted).toBe(undefined);
+	expect((Function.prototype as any).polluted).toBe(undefined);
+});
+
+test("each interpreter has its own built-in objects", () => {
+	run(`Array.prototype.last = function () { return this[this.length - 1]; };`);
+
+	expect(run(`[typeof Array.prototype.last, typeof [].map, ({}).polluted]`)).toEqual([
+		"undefined",
+		"function",
+		undefined,
+	]);
+	expect(new Interpreter({}).evaluate(`typeof [].last`)).toBe("undefined");
+});
+
+test("prototypes of the realm", () => {
+	const a = run(
+		`
+const r = [];
+r.push(Object.getPrototypeOf([]) === Array.prototype, Object.getPrototypeOf({}) === Object.prototype);
+r.push(/a/ instanceof RegExp, (function () {}) instanceof Function, (async () => {})() instanceof Promise);
+r.push(new Map() instanceof Map, Promise.resolve(1) instanceof Promise, Array(2) instanceof Array);
+class List extends Array {}
+const list = new List();
+list.push(1, 2);
+r.push(list instanceof List, list instanceof Array, Array.isArray(list), List.from([1]) instanceof List);
+r;
+	`
+	);
+
+	expect(a).toEqual([true, true, true, true, true, true, true, true, true, true, true, true]);
+
+	const array = run(`[1, 2]`);
+
+	expect(Array.isArray(array)).toBe(true);
+	expect(Object.getPrototypeOf(array)).not.toBe(Array.prototype);
+	expect(array.map((x: number) => x * 2)).toEqual([2, 4]);
+});
+
+test("Function.prototype.constructor", () => {
+	const a = run(
+		`
+const descriptor = Object.getOwnPropertyDescriptor(Function.prototype, "constructor");
+[Function.prototype.hasOwnProperty("constructor"), descriptor.value === Function, descriptor.writable, descriptor.enumerable, descriptor.configurable];
+	`
+	);
+
+	expect(a).toEqual([true, true, true, false, true]);
+});
+
+test("extensions of built-in prototypes", () => {
+	const host = { list: [1, 2] };
+	const a = run(
+		`
+Array.prototype.last = function () { return this[this.length - 1]; };
+String.prototype.shout = function () { return this.toUpperCase() + "!"; };
+Object.prototype.polluted = 1;
+[[1, 2].last(), Object.keys({ a: 1, b: 2 }).last(), host.list.last(), "a".shout(), host.polluted, "polluted" in {}];
+	`,
+		{ host }
+	);
+
+	expect(a).toEqual([2, "b", 2, "A!", 1, true]);
+	expect((host.list as any).last).toBe(undefined);
+});
+
+test("host values", () => {
+	const host = {
+		list: [1],
+		object: {},
+		fn() {},
+		fail() {
+			throw new TypeError("host");
+		},
+	};
+	const a = run(
+		`
+const r = [];
+r.push(host.list instanceof Array, host.list.constructor === Array, Object.getPrototypeOf(host.object) === Object.prototype);
+r.push(host.fn instanceof Function, host.fn.constructor === Function, host.fn.constructor("return typeof process")());
+try {
+	host.fail();
+} catch (e) {
+	r.push(e instanceof TypeError, e.constructor === TypeError, e.message);
+}
+try {
+	null.a;
+} catch (e) {
+	r.push(e instanceof TypeError, Object.getPrototypeOf(e) === TypeError.prototype, e.name);
+}
+r;
+	`,
+		{ host }
+	);
+
+	expect(a).toEqual([
+		true,
+		true,
+		true,
+		true,
+		true,
+		// interpreted by the interpreter's Function
+		"undefined",
+		true,
+		true,
+		"host",
+		true,
+		true,
+		"TypeError",
+	]);
+	expect(Object.getPrototypeOf(host.object)).toBe(Object.prototype);
+});
+
+test("built-in objects returned to the host", () => {
+	expect(run(`Array`)).toBe(Array);
+	expect(run(`[].map`)).toBe(Array.prototype.map);
+	expect(run(`Object.prototype`)).toBe(Object.prototype);
+	expect(run(`Math.max.toString()`)).toBe(Math.max.toString());
+});
+
+test("host built-in objects passed to the copies of built-in functions", () => {
+	const a = run(
+		`
+[Object.keys({})].map(Object.getPrototypeOf).forEach(Object.assign);
+[Object.keys({})].map(Object.getPrototypeOf).forEach(Object.freeze);
+[[][0] === Array.prototype, Object.isFrozen(Array.prototype)];
+	`
+	);
+
+	expect(a).toEqual([true, true]);
+	expect(Array.prototype[0]).toBe(undefined);
+	expect(Object.isFrozen(Array.prototype)).toBe(false);
+});
+
+test("shared realm", () => {
+	const realm = new Realm();
+
+	new Interpreter({}, { realm }).evaluate(`Array.prototype.answer = 42;`);
+
+	expect(new Interpreter({}, { realm }).evaluate(`[].answer`)).toBe(42);
+	expect(run(`[].answer`)).toBe(undefined);
+	expect(
+		new Interpreter({}, { realm }).evaluate(
+			`eval("[].answer") + Function("return [].answer")()`
+		)
+	).toBe(84);
+});
+
+test("vm context", () => {
+	const ctx = vm.createContext({}, { realm: true });
+	const other = vm.createContext({}, { realm: true });
+
+	vm.runInContext(`Array.prototype.answer = 42;`, ctx);
+
+	expect(vm.runInContext(`[].answer`, ctx)).toBe(42);
+	expect(new vm.Script(`[].answer`).runInContext(ctx)).toBe(42);
+	expect(vm.compileFunction(`return [].answer`, [], { parsingContext: ctx })()).toBe(42);
+	expect(vm.runInContext(`[].answer`, other)).toBe(undefined);
+	expect(vm.runInContext(`[].answer`, {}, { realm: true })).toBe(undefined);
+	expect(([] as any).answer).toBe(undefined);
+});
+
+test("require", () => {
+	const require = createRequire({
+		realm: true,
+		files: {
+			"/index.js": `require("./polyfill"); module.exports = [1, 2].last();`,
+			"/polyfill.js": `Array.prototype.last = function () { return this[this.length - 1]; };`,
+		},
+	});
+
+	expect(require("/index.js")).toBe(2);
+	expect(([] as any).last).toBe(undefined);
+});
+
+test("hardened mode", () => {
+	const interpreter = new Interpreter({}, { realm: true, hardened: true });
+
+	expect(() =>
+		interpreter.evaluate(`Object.getOwnPropertyDescriptor(Object.prototype, "__proto__").get`)
+	).toThrow(TypeError);
+	expect(interpreter.evaluate(`({}).constructor.constructor("return typeof process")()`)).toBe(
+		"undefined"
+	);
+});
@@ -0,0 +1,105 @@
+import { run } from "../helpers";
+
+test("spread in array", () => {
+	const a = run(
+		`
+const a = [2, 3];
+[1, ...a, ...new Set([4]), ..."56"];
+  `
+	);
+
+	expect(a).toEqual([1, 2, 3, 4, "5", "6"]);
+});
+
+test("spread keeps holes", () => {
+	const a = run(
+		`
+const a = [, 1, ...[2]];
+[a.length, 0 in a];
+  `
+	);
+
+	expect(a).toEqual([3, false]);
+});
+
+test("spread in call", () => {
+	const a = run(
+		`
+function sum(a, b, c) {
+	return a + b + c;
+}
+const args = [2, 3];
+[sum(1, ...args), Math.max(...[1, 5, 3])];
+  `
+	);
+
+	expect(a).toEqual([6, 5]);
+});
+
+test("spread in new", () => {
+	const a = run(
+		`
+const date = new Date(...[2020, 0, 2]);
+date.getDate();
+  `
+	);
+
+	expect(a).toEqual(2);
+});
+
+test("rest params", () => {
+	const a = run(
+		`
+function test(first, ...rest) {
+	return [first, rest, Array.isArray(rest)];
+}
+test(1, 2, 3);
+  `
+	);
+
+	expect(a).toEqual([1, [2, 3], true]);
+});
+
+test("spread host iterable", () => {
+	const a = run(
+		`
+[...list];
+  `,
+		{ list: new Map([["a", 1]]).keys() }
+	);
+
+	expect(a).toEqual(["a"]);
+});
+
+test("object spread", () => {
+	const a = run(
+		`
+const defaults = { a: 1, b: 2 };
+const options = { ...defaults, b: 3, ...null, ...undefined };
+[options, defaults.b];
+  `
+	);
+
+	expect(a).toEqual([{ a: 1, b: 3 }, 2]);
+});
+
+test("object spread order", () => {
+	const a = run(
+		`
+const options = { b: 0, ...{ a: 1, b: 2 }, c: 3 };
+Object.keys(options).join(",") + ":" + options.b;
+  `
+	);
+
+	expect(a).toEqual("b,a,c:2");
+});
+
+test("spread not iterable", () => {
+	expect(() => {
+		run(
+			`
+Math.max(...1);
+  `
+		);
+	}).toThrow("1 is not iterable");
+});
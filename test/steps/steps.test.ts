@@ -0,0 +1,100 @@
+import { Interpreter, evaluate } from "../../src";
+
+test("getStepCount", () => {
+	const interpreter = new Interpreter({});
+
+	interpreter.evaluate(`1 + 2`);
+
+	const steps = interpreter.getStepCount();
+
+	expect(steps).toBeGreaterThan(0);
+
+	interpreter.evaluate(`1 + 2`);
+	expect(interpreter.getStepCount()).toBe(steps);
+
+	interpreter.evaluate(`for (var i = 0; i < 10; i++) {}`);
+
+	const loop = interpreter.getStepCount();
+
+	interpreter.evaluate(`for (var i = 0; i < 20; i++) {}`);
+	expect(interpreter.getStepCount()).toBeGreaterThan(loop);
+});
+
+test("maxSteps", () => {
+	const interpreter = new Interpreter({}, { maxSteps: 1000 });
+
+	expect(() => interpreter.evaluate(`for (;;) {}`)).toThrow(
+		"Script execution exceeded the limit of 1000 steps"
+	);
+	expect(interpreter.getStepCount()).toBe(1001);
+
+	// every execution has its own budget
+	expect(interpreter.evaluate(`var a = 0; for (var i = 0; i < 10; i++) { a += i; } a`)).toBe(45);
+	expect(interpreter.getStepCount()).toBeLessThan(1000);
+});
+
+test("the same script is accepted or rejected identically", () => {
+	const code = `
+function fib(n) {
+	return n < 2 ? n : fib(n - 1) + fib(n - 2);
+}
+fib(10);
+	`;
+	const interpreter = new Interpreter({});
+
+	interpreter.evaluate(code);
+
+	const steps = interpreter.getStepCount();
+
+	expect(new Interpreter({}, { maxSteps: steps }).evaluate(code)).toBe(55);
+	expect(() => new Interpreter({}, { maxSteps: steps - 1 }).evaluate(code)).toThrow(
+		`Script execution exceeded the limit of ${steps - 1} steps`
+	);
+});
+
+test("the step limit can not be caught by scripts", () => {
+	const a = new Interpreter({}, { maxSteps: 1000 });
+
+	expect(() =>
+		a.evaluate(`
+for (;;) {
+	try {
+		for (;;) {}
+	} catch (e) {}
+}
+	`)
+	).toThrow("Script execution exceeded the limit of 1000 steps");
+});
+
+test("eval and Function code are counted by the caller", () => {
+	const interpreter = new Interpreter({}, { maxSteps: 1000 });
+
+	expect(() => interpreter.evaluate(`for (;;) { eval("1 + 1"); }`)).toThrow(
+		"Script execution exceeded the limit of 1000 steps"
+	);
+	expect(interpreter.getStepCount()).toBe(1001);
+
+	expect(() => interpreter.evaluate(`Function("for (;;) {}")()`)).toThrow(
+		"Script execution exceeded the limit of 1000 steps"
+	);
+	expect(interpreter.getStepCount()).toBe(1001);
+
+	expect(() => interpreter.evaluate(`var f = Function("return 1"); for (;;) { f(); }`)).toThrow(
+		"Script execution exceeded the limit of 1000 steps"
+	);
+});
+
+test("maxSteps of async code", async () => {
+	const interpreter = new Interpreter({}, { maxSteps: 1000 });
+
+	await expect(interpreter.evaluateAsync(`for (;;) { await null; }`)).rejects.toThrow(
+		"Script execution exceeded the limit of 1000 steps"
+	);
+});
+
+test("maxSteps of vm", () => {
+	expect(() => evaluate(`for (;;) {}`, {}, { maxSteps: 100 })).toThrow(
+		"Script execution exceeded the limit of 100 steps"
+	);
+	expect(evaluate(`1 + 1`, {}, { maxSteps: 100 })).toBe(2);
+});
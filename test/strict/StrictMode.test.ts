@@ -0,0 +1,212 @@
+import { Interpreter } from "../../src";
+import { run } from "../helpers";
+
+test("assignment to undeclared identifier", () => {
+	const ctx: any = {};
+
+	run(`undeclared = 1`, ctx);
+	expect(ctx.undeclared).toBe(1);
+
+	expect(() => run(`"use strict"; undeclared = 1`)).toThrow(ReferenceError);
+	expect(() =>
+		run(`
+function f() {
+	"use strict";
+	undeclared = 1;
+}
+f();
+	`)
+	).toThrow(ReferenceError);
+	expect(() => run(`"use strict"; for (key in { a: 1 }) {}`)).toThrow(ReferenceError);
+	expect(() => run(`"use strict"; [undeclared] = [1]`)).toThrow(ReferenceError);
+});
+
+test("directive prologue", () => {
+	const a = run(
+		`
+var ctx = this;
+function sloppy() {
+	return this;
+}
+function strict() {
+	"ok";
+	"use strict";
+	return this;
+}
+function notDirective() {
+	var a;
+	"use strict";
+	return this;
+}
+[sloppy() === ctx, strict(), notDirective() === ctx];
+	`,
+		{},
+		false
+	);
+
+	// globalContextInFunction is undefined by default
+	expect(a).toEqual([false, undefined, false]);
+});
+
+test("this is not coerced", () => {
+	const a = run(
+		`
+function sloppy() {
+	return typeof this;
+}
+function strict() {
+	"use strict";
+	return typeof this;
+}
+[sloppy.call(1), strict.call(1), strict.call(null), strict()];
+	`
+	);
+
+	expect(a).toEqual(["object", "number", "object", "undefined"]);
+});
+
+test("globalContextInFunction is only used by sloppy functions", () => {
+	const global = {};
+	const interpreter = new Interpreter({}, { ecmaVersion: 2020, globalContextInFunction: global });
+
+	const a = interpreter.evaluate(`
+function sloppy() {
+	return this;
+}
+function strict() {
+	"use strict";
+	return this;
+}
+[sloppy(), sloppy.call(null), strict(), strict.call(null)];
+	`);
+
+	expect(a).toEqual([global, global, undefined, null]);
+});
+
+test("with and delete of unqualified names are syntax errors", () => {
+	expect(() => run(`"use strict"; with ({}) {}`)).toThrow(SyntaxError);
+	expect(() => run(`"use strict"; var a; delete a;`)).toThrow(SyntaxError);
+	expect(() => run(`function f() { "use strict"; with ({}) {} }`)).toThrow(SyntaxError);
+
+	expect(run(`var o = { a: 1 }; with (o) { a = 2 } o.a`)).toBe(2);
+});
+
+test("arguments is unmapped", () => {
+	const a = run(
+		`
+function f(a) {
+	"use strict";
+	a = 2;
+	return [arguments[0], a];
+}
+f(1);
+	`
+	);
+
+	expect(a).toEqual([1, 2]);
+
+	expect(() =>
+		run(`
+function f() {
+	"use strict";
+	return arguments.callee;
+}
+f();
+	`)
+	).toThrow(TypeError);
+});
+
+test("writes to read-only properties", () => {
+	const a = run(
+		`
+var o = Object.freeze({ a: 1 });
+var g = {};
+Object.defineProperty(g, "a", { get: function() { return 1; } });
+o.a = 2;
+o.a++;
+g.a = 2;
+"abc".length = 1;
+[o.a, g.a];
+	`
+	);
+
+	expect(a).toEqual([1, 1]);
+
+	expect(() => run(`"use strict"; var o = Object.freeze({ a: 1 }); o.a = 2;`)).toThrow(TypeError);
+	expect(() => run(`"use strict"; var o = Object.freeze({ a: 1 }); o.a += 2;`)).toThrow(
+		TypeError
+	);
+	expect(() => run(`"use strict"; "abc".length = 1;`)).toThrow(TypeError);
+	expect(() =>
+		run(`
+var o = {};
+Object.defineProperty(o, "a", { get: function() { return 1; } });
+(function() {
+	"use strict";
+	o.a = 2;
+})();
+	`)
+	).toThrow(TypeError);
+});
+
+test("delete of non-configurable properties", () => {
+	expect(run(`var o = Object.freeze({ a: 1 }); [delete o.a, o.a]`)).toEqual([false, 1]);
+	expect(() => run(`"use strict"; var o = Object.freeze({ a: 1 }); delete o.a;`)).toThrow(
+		TypeError
+	);
+});
+
+test("eval in strict mode code", () => {
+	const a = run(
+		`
+var results = [];
+(function() {
+	"use strict";
+	eval("var inner = 1");
+	results.push(typeof inner);
+	results.push(eval("(function() { return this; })()"));
+})();
+(function() {
+	eval("var inner = 1");
+	results.push(typeof inner);
+})();
+results;
+	`
+	);
+
+	expect(a).toEqual(["undefined", undefined, "number"]);
+});
+
+test("class and module code is strict", () => {
+	expect(() => run(`class A { constructor() { undeclared = 1 } } new A();`)).toThrow(
+		ReferenceError
+	);
+
+	const a = run(
+		`
+class A {
+	static method() {
+		return this;
+	}
+}
+var method = A.method;
+method();
+	`
+	);
+
+	expect(a).toBe(undefined);
+
+	const interpreter = new Interpreter({}, { ecmaVersion: 2020 });
+
+	expect(() => interpreter.evaluateModule(`undeclared = 1;`)).toThrow(ReferenceError);
+});
+
+test("strict option", () => {
+	expect(() => run(`undeclared = 1`, {}, { strict: true })).toThrow(ReferenceError);
+	expect(() => run(`with ({}) {}`, {}, { strict: true })).toThrow(SyntaxError);
+	expect(() => run(`var a; delete a;`, {}, { strict: true })).toThrow(SyntaxError);
+	expect(
+		run(`function f() { return this; } [f(), typeof f.call(1)]`, {}, { strict: true })
+	).toEqual([undefined, "number"]);
+	expect(() => run(`Function("undeclared = 1")()`, {}, { strict: true })).toThrow(ReferenceError);
+});
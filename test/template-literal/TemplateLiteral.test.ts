@@ -0,0 +1,72 @@
+import { run } from "../helpers";
+
+test("template literal -1", () => {
+	const a = run("const name = 'eval5'; `Hello ${name}, ${1 + 1} ${[1, 2]}${{}}`;");
+
+	expect(a).toEqual("Hello eval5, 2 1,2[object Object]");
+});
+
+test("template literal multiline and escapes", () => {
+	const a = run("`a\\tb\nc\\u0041`;");
+
+	expect(a).toEqual("a\tb\ncA");
+});
+
+test("template literal uses toString", () => {
+	const a = run(
+		"const obj = { toString() { return 'str'; }, valueOf() { return 'value'; } }; `${obj}`;"
+	);
+
+	expect(a).toEqual("str");
+});
+
+test("template literal with symbol", () => {
+	expect(() => {
+		run("`${Symbol()}`;");
+	}).toThrow(TypeError);
+});
+
+test("tagged template", () => {
+	const a = run(
+		"function tag(strings, ...values) { return [strings.slice(), strings.raw.slice(), values]; } tag`a${1}\\n${2}`;"
+	);
+
+	expect(a).toEqual([
+		["a", "\n", ""],
+		["a", "\\n", ""],
+		[1, 2],
+	]);
+});
+
+test("tagged template strings are frozen and cached per call site", () => {
+	const a = run(
+		"function tag(strings) { return strings; } function get() { return tag`x`; } const first = get(); [first === get(), first === tag`x`, Object.isFrozen(first), Object.isFrozen(first.raw)];"
+	);
+
+	expect(a).toEqual([true, false, true, true]);
+});
+
+test("tagged template member this", () => {
+	const a = run(
+		"const obj = { prefix: '>', tag(strings, value) { return this.prefix + strings[0] + value; } }; obj.tag`a${1}`;"
+	);
+
+	expect(a).toEqual(">a1");
+});
+
+test("tagged template invalid escape", () => {
+	const a = run("function tag(strings) { return [strings[0], strings.raw[0]]; } tag`\\unicode`;");
+
+	expect(a).toEqual([undefined, "\\unicode"]);
+});
+
+test("host tag function", () => {
+	const sql = (strings: TemplateStringsArray, ...values: any[]) => ({
+		text: strings.join("?"),
+		values,
+	});
+
+	const a = run("const id = 1; sql`select * from users where id = ${id}`;", { sql });
+
+	expect(a).toEqual({ text: "select * from users where id = ?", values: [1] });
+});